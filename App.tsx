@@ -2,65 +2,241 @@ import React, { useState, useEffect } from 'react';
 import { Login } from './components/Login';
 import { Dashboard } from './components/Dashboard';
 import { InvoiceEditor } from './components/InvoiceEditor';
+import { PricingProfiles } from './components/PricingProfiles';
+import { Catalog } from './components/Catalog';
+import { Parties } from './components/Parties';
+import { PartyLedger } from './components/PartyLedger';
+import { Payments } from './components/Payments';
+import { Account } from './components/Account';
+import { Backup } from './components/Backup';
+import { BusinessProfile } from './components/BusinessProfile';
+import { Reports } from './components/Reports';
+import { Users } from './components/Users';
+import { Sync } from './components/Sync';
 import { storageService } from './services/storageService';
-import { User } from './types';
+import { authService, IDLE_LOCK_MS } from './services/authService';
+import { schemaService } from './services/schemaService';
+import { permissionService } from './services/permissionService';
+import { syncService } from './services/syncService';
+import { AppView, User } from './types';
+
+const SYNC_INTERVAL_MS = 60 * 1000;
 
 function App() {
   const [user, setUser] = useState<User | null>(null);
-  const [currentView, setCurrentView] = useState<'dashboard' | 'editor'>('dashboard');
+  // A restored or locked session only needs the password again
+  const [lockedUsername, setLockedUsername] = useState<string | null>(null);
+  const [locked, setLocked] = useState(false);
+  const [currentView, setCurrentView] = useState<AppView>('dashboard');
   const [selectedInvoiceId, setSelectedInvoiceId] = useState<string | null>(null);
+  const [selectedPartyId, setSelectedPartyId] = useState<string | null>(null);
+  const [ledgerReturnView, setLedgerReturnView] = useState<AppView>('dashboard');
+
+  // Older data is brought up to date before any screen reads it
+  const openSession = async (sessionUser: User) => {
+    try {
+      await storageService.migrateFromLocalStorage(sessionUser.shopId);
+      await schemaService.load(sessionUser.shopId);
+      await syncService.start(sessionUser);
+    } catch (err) {
+      authService.logout();
+      setLockedUsername(null);
+      alert((err as Error).message);
+      return;
+    }
+    setUser(sessionUser);
+  };
 
   useEffect(() => {
-    // Check for existing session
-    const currentUser = storageService.getCurrentUser();
-    if (currentUser) {
-      setUser(currentUser);
+    // Check for existing session; its data stays encrypted until the password is entered
+    const username = authService.getSessionUsername();
+    if (username) {
+      setLockedUsername(username);
     }
   }, []);
 
-  const handleLogin = (loggedInUser: User) => {
-    setUser(loggedInUser);
+  const handleLogin = async (loggedInUser: User) => {
+    await openSession(loggedInUser);
     setCurrentView('dashboard');
   };
 
+  // Unlocking keeps whatever screen, and unsaved edits, were open when it locked
+  const handleUnlock = () => {
+    setLocked(false);
+  };
+
   const handleLogout = () => {
-    storageService.logout();
+    if (user) syncService.stop(user.shopId);
+    authService.logout();
     setUser(null);
+    setLockedUsername(null);
+    setLocked(false);
     setCurrentView('dashboard');
     setSelectedInvoiceId(null);
   };
 
+  // Auto-lock after inactivity, and sign out once the session itself expires
+  useEffect(() => {
+    if (!user || locked) return;
+
+    let lastActivity = Date.now();
+    const markActive = () => {
+      lastActivity = Date.now();
+    };
+    const events = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'scroll'];
+    events.forEach(name => window.addEventListener(name, markActive, { passive: true }));
+
+    const timer = window.setInterval(() => {
+      if (!authService.getSessionUsername()) {
+        handleLogout();
+        alert('Your session has expired. Please sign in again.');
+      } else if (Date.now() - lastActivity > IDLE_LOCK_MS) {
+        authService.lock();
+        setLocked(true);
+      }
+    }, 15000);
+
+    return () => {
+      window.clearInterval(timer);
+      events.forEach(name => window.removeEventListener(name, markActive));
+    };
+  }, [user, locked]);
+
+  // Sync on sign-in, every so often after, and as soon as the connection comes back
+  useEffect(() => {
+    if (!user || locked) return;
+
+    const syncNow = () => {
+      syncService.sync(user.shopId);
+    };
+    syncNow();
+    const timer = window.setInterval(syncNow, SYNC_INTERVAL_MS);
+    window.addEventListener('online', syncNow);
+
+    return () => {
+      window.clearInterval(timer);
+      window.removeEventListener('online', syncNow);
+    };
+  }, [user, locked]);
+
   const handleInvoiceSelect = (id: string | null) => {
     setSelectedInvoiceId(id);
     setCurrentView('editor');
   };
 
+  const handleNavigate = (view: AppView) => {
+    setSelectedInvoiceId(null);
+    setCurrentView(view);
+  };
+
+  const handleOpenLedger = (partyId: string) => {
+    setSelectedPartyId(partyId);
+    setLedgerReturnView(currentView);
+    setCurrentView('ledger');
+  };
+
   const handleBackToDashboard = () => {
     setSelectedInvoiceId(null);
     setCurrentView('dashboard');
   };
 
-  // Render Logic
-  if (!user) {
-    return <Login onLogin={handleLogin} />;
-  }
+  const renderView = (user: User) => {
+    // A screen the member's role doesn't allow falls back to the dashboard
+    const view = permissionService.canView(user, currentView) ? currentView : 'dashboard';
+
+    if (view === 'editor') {
+      return (
+        <InvoiceEditor 
+          user={user} 
+          existingInvoiceId={selectedInvoiceId} 
+          onBack={handleBackToDashboard} 
+        />
+      );
+    }
+
+    if (view === 'pricing') {
+      return <PricingProfiles user={user} onBack={handleBackToDashboard} />;
+    }
+
+    if (view === 'catalog') {
+      return <Catalog user={user} onBack={handleBackToDashboard} />;
+    }
+
+    if (view === 'parties') {
+      return <Parties user={user} onBack={handleBackToDashboard} onOpenLedger={handleOpenLedger} />;
+    }
+
+    if (view === 'payments') {
+      return <Payments user={user} onBack={handleBackToDashboard} />;
+    }
+
+    if (view === 'account') {
+      return <Account user={user} onBack={handleBackToDashboard} />;
+    }
+
+    if (view === 'backup') {
+      return <Backup user={user} onBack={handleBackToDashboard} />;
+    }
+
+    if (view === 'business') {
+      return <BusinessProfile user={user} onBack={handleBackToDashboard} />;
+    }
+
+    if (view === 'reports') {
+      return <Reports user={user} onBack={handleBackToDashboard} />;
+    }
+
+    if (view === 'users') {
+      return <Users user={user} onBack={handleBackToDashboard} />;
+    }
+
+    if (view === 'sync') {
+      return <Sync user={user} onBack={handleBackToDashboard} />;
+    }
+
+    if (view === 'ledger' && selectedPartyId) {
+      return (
+        <PartyLedger
+          user={user}
+          partyId={selectedPartyId}
+          onBack={() => setCurrentView(ledgerReturnView)}
+          onSelectInvoice={handleInvoiceSelect}
+        />
+      );
+    }
 
-  if (currentView === 'editor') {
     return (
-      <InvoiceEditor 
+      <Dashboard 
         user={user} 
-        existingInvoiceId={selectedInvoiceId} 
-        onBack={handleBackToDashboard} 
+        onLogout={handleLogout} 
+        onSelectInvoice={handleInvoiceSelect} 
+        onNavigate={handleNavigate}
+        onOpenLedger={handleOpenLedger}
+      />
+    );
+  };
+
+  // Render Logic
+  if (!user) {
+    return (
+      <Login
+        key={lockedUsername || ''}
+        onLogin={handleLogin}
+        lockedUsername={lockedUsername || undefined}
+        onSwitchUser={handleLogout}
       />
     );
   }
 
   return (
-    <Dashboard 
-      user={user} 
-      onLogout={handleLogout} 
-      onSelectInvoice={handleInvoiceSelect} 
-    />
+    <>
+      {renderView(user)}
+      {locked && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <Login onLogin={handleUnlock} lockedUsername={user.username} onSwitchUser={handleLogout} />
+        </div>
+      )}
+    </>
   );
 }
 
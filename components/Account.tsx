@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { User } from '../types';
+import { authService } from '../services/authService';
+import { ROLE_LABELS } from '../services/permissionService';
+import { Button } from './Button';
+import { ArrowLeft, KeyRound } from 'lucide-react';
+
+interface AccountProps {
+  user: User;
+  onBack: () => void;
+}
+
+const inputClass = "w-full bg-slate-900 border border-slate-600 rounded px-3 py-2 text-sm text-white focus:outline-none focus:border-blue-500";
+
+export const Account: React.FC<AccountProps> = ({ user, onBack }) => {
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newPassword !== confirmPassword) {
+      alert('New passwords do not match');
+      return;
+    }
+    setSaving(true);
+    try {
+      await authService.changePassword(user.username, currentPassword, newPassword);
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+      alert('Password changed');
+    } catch (err) {
+      alert((err as Error).message);
+    }
+    setSaving(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-100 p-4 md:p-8">
+      <div className="max-w-7xl mx-auto">
+        <header className="flex items-center gap-3 mb-8">
+          <Button variant="secondary" size="sm" onClick={onBack}>
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold text-white">Account</h1>
+            <p className="text-slate-400">
+              Signed in as {user.username} · {ROLE_LABELS[user.role]}{user.shopId !== user.username && ` of ${user.shopId}'s shop`}
+            </p>
+          </div>
+        </header>
+
+        <form onSubmit={handleChangePassword} className="bg-slate-800 rounded-lg border border-slate-700 p-6 shadow-lg max-w-md space-y-4">
+          <h3 className="text-lg font-bold text-white flex items-center">
+            <KeyRound className="w-5 h-5 mr-2 text-blue-400" /> Change Password
+          </h3>
+          <label className="block space-y-1">
+            <span className="text-sm text-slate-400">Current password</span>
+            <input type="password" required className={inputClass} value={currentPassword} onChange={(e) => setCurrentPassword(e.target.value)} />
+          </label>
+          <label className="block space-y-1">
+            <span className="text-sm text-slate-400">New password</span>
+            <input type="password" required className={inputClass} value={newPassword} onChange={(e) => setNewPassword(e.target.value)} />
+          </label>
+          <label className="block space-y-1">
+            <span className="text-sm text-slate-400">Confirm new password</span>
+            <input type="password" required className={inputClass} value={confirmPassword} onChange={(e) => setConfirmPassword(e.target.value)} />
+          </label>
+          <p className="text-xs text-slate-500">
+            Your data stays encrypted with the same key; only the password that unlocks it changes.
+          </p>
+          <div className="flex justify-end">
+            <Button type="submit" variant="success" disabled={saving}>
+              {saving ? 'Saving...' : 'Change Password'}
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
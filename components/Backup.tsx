@@ -0,0 +1,188 @@
+import React, { useRef, useState } from 'react';
+import { User } from '../types';
+import { STORE_NAMES } from '../services/storageAdapter';
+import { backupService, BackupPreview, ConflictStrategy, RestoreMode, STORE_LABELS } from '../services/backupService';
+import { Button } from './Button';
+import { ArrowLeft, ArchiveRestore, DatabaseBackup, Download, Upload, X } from 'lucide-react';
+
+interface BackupProps {
+  user: User;
+  onBack: () => void;
+}
+
+const inputClass = "w-full bg-slate-900 border border-slate-600 rounded px-3 py-2 text-sm text-white focus:outline-none focus:border-blue-500";
+
+export const Backup: React.FC<BackupProps> = ({ user, onBack }) => {
+  const [compress, setCompress] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [preview, setPreview] = useState<BackupPreview | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [strategy, setStrategy] = useState<ConflictStrategy>('keepExisting');
+  const [restoring, setRestoring] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const backup = await backupService.createBackup(user.shopId);
+      const url = URL.createObjectURL(await backupService.toBlob(backup, compress));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = backupService.fileName(backup, compress);
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      alert((err as Error).message);
+    }
+    setExporting(false);
+  };
+
+  const handleChooseFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const backup = await backupService.readBackup(file);
+      setPreview(await backupService.preview(user.shopId, backup));
+    } catch (err) {
+      setPreview(null);
+      alert((err as Error).message);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!preview) return;
+    if (mode === 'replace' && !confirm('Replace ALL current invoices, payments, parties, products, pricing and shop settings with this backup? This cannot be undone.')) {
+      return;
+    }
+    setRestoring(true);
+    try {
+      const result = await backupService.restore(user.shopId, preview.backup, mode, strategy);
+      setPreview(null);
+      alert(`Restore complete: ${result.added} added, ${result.replaced} replaced, ${result.skipped} already present or kept.`);
+    } catch (err) {
+      alert((err as Error).message);
+    }
+    setRestoring(false);
+  };
+
+  const totalConflicts = preview ? STORE_NAMES.reduce((sum, store) => sum + preview.conflicts[store], 0) : 0;
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-100 p-4 md:p-8">
+      <div className="max-w-7xl mx-auto">
+        <header className="flex items-center gap-3 mb-8">
+          <Button variant="secondary" size="sm" onClick={onBack}>
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold text-white">Backup &amp; Restore</h1>
+            <p className="text-slate-400">Keep a copy of your books outside the browser</p>
+          </div>
+        </header>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {/* Export */}
+          <div className="bg-slate-800 rounded-lg border border-slate-700 p-6 shadow-lg space-y-4 h-fit">
+            <h3 className="text-lg font-bold text-white flex items-center">
+              <DatabaseBackup className="w-5 h-5 mr-2 text-blue-400" /> Create Backup
+            </h3>
+            <p className="text-sm text-slate-400">
+              Saves every invoice, payment, party, product and pricing profile into one file.
+              The file is not password protected, so keep it somewhere safe.
+            </p>
+            <label className="flex items-center gap-2 text-sm text-slate-300">
+              <input type="checkbox" checked={compress} onChange={(e) => setCompress(e.target.checked)} />
+              Compress (.json.gz)
+            </label>
+            <Button onClick={handleExport} disabled={exporting}>
+              <Download className="w-4 h-4 mr-2" /> {exporting ? 'Preparing...' : 'Download Backup'}
+            </Button>
+          </div>
+
+          {/* Restore */}
+          <div className="bg-slate-800 rounded-lg border border-slate-700 p-6 shadow-lg space-y-4">
+            <h3 className="text-lg font-bold text-white flex items-center">
+              <ArchiveRestore className="w-5 h-5 mr-2 text-blue-400" /> Restore
+            </h3>
+            <input ref={fileInputRef} type="file" accept=".json,.gz,application/json,application/gzip" className="hidden" onChange={handleChooseFile} />
+            {!preview ? (
+              <>
+                <p className="text-sm text-slate-400">Choose a backup file to see what it contains before anything is changed.</p>
+                <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+                  <Upload className="w-4 h-4 mr-2" /> Choose Backup File
+                </Button>
+              </>
+            ) : (
+              <>
+                <div className="flex justify-between items-start">
+                  <p className="text-sm text-slate-400">
+                    Backup of <span className="text-slate-200">{preview.backup.username}</span> from{' '}
+                    <span className="text-slate-200">{new Date(preview.backup.exportedAt).toLocaleString()}</span>
+                  </p>
+                  <button onClick={() => setPreview(null)} className="text-slate-500 hover:text-white">
+                    <X className="w-5 h-5" />
+                  </button>
+                </div>
+
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-slate-400 text-xs uppercase tracking-wider border-b border-slate-700">
+                      <th className="py-2 text-left">Records</th>
+                      <th className="py-2 text-right">In Backup</th>
+                      <th className="py-2 text-right">Conflicts</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {STORE_NAMES.map(store => (
+                      <tr key={store} className="border-b border-slate-700/50">
+                        <td className="py-2 text-slate-300">{STORE_LABELS[store]}</td>
+                        <td className="py-2 text-right font-mono">{preview.counts[store]}</td>
+                        <td className={`py-2 text-right font-mono ${preview.conflicts[store] > 0 ? 'text-amber-400' : 'text-slate-500'}`}>
+                          {preview.conflicts[store]}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {preview.settings.length > 0 && (
+                  <p className="text-sm text-slate-400">Also holds the {preview.settings.join(', ')}.</p>
+                )}
+                {preview.invalidInvoices > 0 && (
+                  <p className="text-sm text-amber-400">{preview.invalidInvoices} damaged invoice(s) in the backup will be skipped.</p>
+                )}
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <label className="space-y-1">
+                    <span className="text-sm text-slate-400">Restore Mode</span>
+                    <select className={inputClass} value={mode} onChange={(e) => setMode(e.target.value as RestoreMode)}>
+                      <option value="merge">Merge into current books</option>
+                      <option value="replace">Replace current books</option>
+                    </select>
+                  </label>
+                  {mode === 'merge' && (
+                    <label className="space-y-1">
+                      <span className="text-sm text-slate-400">When IDs Conflict ({totalConflicts})</span>
+                      <select className={inputClass} value={strategy} onChange={(e) => setStrategy(e.target.value as ConflictStrategy)}>
+                        <option value="keepExisting">Keep current record</option>
+                        <option value="useBackup">Use backup record</option>
+                        <option value="keepBoth">Keep both (backup copy gets a new ID)</option>
+                      </select>
+                    </label>
+                  )}
+                </div>
+
+                <div className="flex justify-end">
+                  <Button variant={mode === 'replace' ? 'danger' : 'success'} onClick={handleRestore} disabled={restoring}>
+                    <ArchiveRestore className="w-4 h-4 mr-2" /> {restoring ? 'Restoring...' : 'Restore'}
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,73 @@
+import React from 'react';
+import { ChartPoint } from '../services/reportService';
+import { moneyService } from '../services/moneyService';
+
+interface BarChartProps {
+  data: ChartPoint[];
+  height?: number;
+  color?: string;
+}
+
+// Drawn as plain SVG so reports work offline and print as they look
+const WIDTH = 640;
+const PAD = { top: 12, right: 8, bottom: 36, left: 64 };
+const MAX_LABELS = 12;
+const TICKS = 4;
+
+// 125000 -> "1.25L", 25000000 -> "2.5Cr"
+const shortAmount = (value: number): string => {
+  const abs = Math.abs(value);
+  const sign = value < 0 ? '-' : '';
+  if (abs >= 10000000) return `${sign}${+(abs / 10000000).toFixed(2)}Cr`;
+  if (abs >= 100000) return `${sign}${+(abs / 100000).toFixed(2)}L`;
+  if (abs >= 1000) return `${sign}${+(abs / 1000).toFixed(1)}K`;
+  return `${sign}${+abs.toFixed(2)}`;
+};
+
+export const BarChart: React.FC<BarChartProps> = ({ data, height = 240, color = '#3b82f6' }) => {
+  if (data.length === 0) {
+    return <div className="h-24 flex items-center justify-center text-sm text-slate-500">Nothing to chart</div>;
+  }
+
+  const max = Math.max(0, ...data.map(d => d.value));
+  const min = Math.min(0, ...data.map(d => d.value));
+  const span = max - min || 1;
+  const plotWidth = WIDTH - PAD.left - PAD.right;
+  const plotHeight = height - PAD.top - PAD.bottom;
+  const y = (value: number) => PAD.top + ((max - value) / span) * plotHeight;
+  const slot = plotWidth / data.length;
+  const barWidth = Math.max(1, Math.min(48, slot * 0.7));
+  // Label every nth bar so long daily ranges stay readable
+  const labelEvery = Math.ceil(data.length / MAX_LABELS);
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto" role="img">
+      {Array.from({ length: TICKS + 1 }, (_, i) => {
+        const value = min + (span * i) / TICKS;
+        return (
+          <g key={i}>
+            <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(value)} y2={y(value)} stroke="#334155" strokeDasharray="2 3" />
+            <text x={PAD.left - 6} y={y(value) + 3} textAnchor="end" fontSize="10" fill="#94a3b8">{shortAmount(value)}</text>
+          </g>
+        );
+      })}
+      <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(0)} y2={y(0)} stroke="#64748b" />
+      {data.map((point, i) => {
+        const x = PAD.left + slot * i + (slot - barWidth) / 2;
+        const top = Math.min(y(point.value), y(0));
+        return (
+          <g key={`${point.label}-${i}`}>
+            <rect x={x} y={top} width={barWidth} height={Math.max(0.5, Math.abs(y(point.value) - y(0)))} fill={point.value < 0 ? '#ef4444' : color} rx="1">
+              <title>{`${point.label}: Rs. ${moneyService.format(point.value)}`}</title>
+            </rect>
+            {i % labelEvery === 0 && (
+              <text x={x + barWidth / 2} y={height - PAD.bottom + 14} textAnchor="middle" fontSize="10" fill="#94a3b8">
+                {point.label.length > 14 ? `${point.label.slice(0, 13)}…` : point.label}
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
@@ -0,0 +1,227 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BatchSettings, BusinessProfile as BusinessProfileData, PdfTemplate, TaxSettings, User } from '../types';
+import { businessProfileService, DEFAULT_BUSINESS_PROFILE } from '../services/businessProfileService';
+import { PDF_TEMPLATES } from '../services/pdfService';
+import { Button } from './Button';
+import { NumberingSettings } from './NumberingSettings';
+import { ArrowLeft, Building2, CalendarClock, ImagePlus, Percent, Save, Trash2 } from 'lucide-react';
+
+interface BusinessProfileProps {
+  user: User;
+  onBack: () => void;
+}
+
+const inputClass = "w-full bg-slate-900 border border-slate-600 rounded px-3 py-2 text-sm text-white focus:outline-none focus:border-blue-500";
+
+export const BusinessProfile: React.FC<BusinessProfileProps> = ({ user, onBack }) => {
+  const [profile, setProfile] = useState<BusinessProfileData>(DEFAULT_BUSINESS_PROFILE);
+  const [saving, setSaving] = useState(false);
+  const logoInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    businessProfileService.getProfile(user.shopId).then(setProfile);
+  }, [user.shopId]);
+
+  const update = (changes: Partial<BusinessProfileData>) => setProfile({ ...profile, ...changes });
+  const updateTax = (changes: Partial<TaxSettings>) => update({ tax: { ...profile.tax, ...changes } });
+  const updateBatches = (changes: Partial<BatchSettings>) => update({ batches: { ...profile.batches, ...changes } });
+
+  const handleLogo = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      update({ logo: await businessProfileService.readLogo(file) });
+    } catch (err) {
+      alert((err as Error).message);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await businessProfileService.saveProfile(user.shopId, profile);
+      alert('Business profile saved');
+    } catch (err) {
+      alert((err as Error).message);
+    }
+    setSaving(false);
+  };
+
+  const field = (label: string, key: 'name' | 'phone' | 'email' | 'licenseNo' | 'ntn' | 'strn' | 'signatureLabel', placeholder = '') => (
+    <label className="block space-y-1">
+      <span className="text-sm text-slate-400">{label}</span>
+      <input className={inputClass} value={profile[key]} placeholder={placeholder} onChange={(e) => update({ [key]: e.target.value })} />
+    </label>
+  );
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-100 p-4 md:p-8">
+      <div className="max-w-7xl mx-auto">
+        <header className="flex items-center gap-3 mb-8">
+          <Button variant="secondary" size="sm" onClick={onBack}>
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold text-white">Business Profile</h1>
+            <p className="text-slate-400">Printed at the top of every invoice, and how documents are numbered</p>
+          </div>
+        </header>
+
+        <form onSubmit={handleSave} className="bg-slate-800 rounded-lg border border-slate-700 p-6 shadow-lg max-w-3xl space-y-6">
+          <h3 className="text-lg font-bold text-white flex items-center">
+            <Building2 className="w-5 h-5 mr-2 text-blue-400" /> Business Details
+          </h3>
+
+          <div className="flex items-center gap-4">
+            <div className="w-20 h-20 rounded border border-slate-600 bg-white flex items-center justify-center overflow-hidden">
+              {profile.logo ? (
+                <img src={profile.logo} alt="Logo" className="max-w-full max-h-full" />
+              ) : (
+                <Building2 className="w-8 h-8 text-slate-400" />
+              )}
+            </div>
+            <input ref={logoInputRef} type="file" accept="image/png,image/jpeg" className="hidden" onChange={handleLogo} />
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" size="sm" onClick={() => logoInputRef.current?.click()}>
+                <ImagePlus className="w-4 h-4 mr-2" /> {profile.logo ? 'Change Logo' : 'Add Logo'}
+              </Button>
+              {profile.logo && (
+                <Button type="button" variant="outline" size="sm" onClick={() => update({ logo: undefined })}>
+                  <Trash2 className="w-4 h-4 mr-2" /> Remove
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {field('Business Name', 'name')}
+            {field('Phone', 'phone')}
+            {field('Email', 'email')}
+            {field('Drug License No', 'licenseNo')}
+            {field('NTN', 'ntn', 'e.g. 1234567-8')}
+            {field('Sales Tax Registration No (STRN)', 'strn')}
+            {field('Signature Label', 'signatureLabel')}
+          </div>
+
+          <label className="block space-y-1">
+            <span className="text-sm text-slate-400">Address</span>
+            <textarea rows={2} className={inputClass} value={profile.address} onChange={(e) => update({ address: e.target.value })} />
+          </label>
+
+          <label className="block space-y-1">
+            <span className="text-sm text-slate-400">Footer Note</span>
+            <textarea
+              rows={2}
+              className={inputClass}
+              value={profile.footerNote}
+              placeholder="Terms, bank account details..."
+              onChange={(e) => update({ footerNote: e.target.value })}
+            />
+          </label>
+
+          <label className="block space-y-1 max-w-xs">
+            <span className="text-sm text-slate-400">Default PDF Template</span>
+            <select
+              className={inputClass}
+              value={profile.defaultTemplate}
+              onChange={(e) => update({ defaultTemplate: e.target.value as PdfTemplate })}
+            >
+              {Object.values(PdfTemplate).map(template => (
+                <option key={template} value={template}>{PDF_TEMPLATES[template].label}</option>
+              ))}
+            </select>
+          </label>
+
+          <div className="border-t border-slate-700 pt-6 space-y-4">
+            <h3 className="text-lg font-bold text-white flex items-center">
+              <Percent className="w-5 h-5 mr-2 text-blue-400" /> Sales Tax
+            </h3>
+            <label className="flex items-center gap-2 text-sm text-slate-300">
+              <input type="checkbox" checked={profile.tax.enabled} onChange={(e) => updateTax({ enabled: e.target.checked })} />
+              Charge sales tax on new invoices
+            </label>
+            {profile.tax.enabled && (
+              <>
+                <label className="flex items-center gap-2 text-sm text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={profile.tax.pricesIncludeTax}
+                    onChange={(e) => updateTax({ pricesIncludeTax: e.target.checked })}
+                  />
+                  Prices already include tax
+                </label>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <label className="block space-y-1">
+                    <span className="text-sm text-slate-400">Sales Tax % (unless the product has its own)</span>
+                    <input
+                      type="number"
+                      min="0"
+                      step="any"
+                      className={inputClass}
+                      value={profile.tax.salesTaxRate}
+                      onChange={(e) => updateTax({ salesTaxRate: parseFloat(e.target.value) || 0 })}
+                    />
+                  </label>
+                  <label className="block space-y-1">
+                    <span className="text-sm text-slate-400">Further Tax % (buyers without an STRN)</span>
+                    <input
+                      type="number"
+                      min="0"
+                      step="any"
+                      className={inputClass}
+                      value={profile.tax.furtherTaxRate}
+                      onChange={(e) => updateTax({ furtherTaxRate: parseFloat(e.target.value) || 0 })}
+                    />
+                  </label>
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="border-t border-slate-700 pt-6 space-y-4">
+            <h3 className="text-lg font-bold text-white flex items-center">
+              <CalendarClock className="w-5 h-5 mr-2 text-blue-400" /> Batches &amp; Expiry
+            </h3>
+            <label className="flex items-center gap-2 text-sm text-slate-300">
+              <input type="checkbox" checked={profile.batches.enabled} onChange={(e) => updateBatches({ enabled: e.target.checked })} />
+              Record batch numbers and expiry dates on invoices
+            </label>
+            {profile.batches.enabled && (
+              <>
+                <label className="flex items-center gap-2 text-sm text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={profile.batches.suggestFefo}
+                    onChange={(e) => updateBatches({ suggestFefo: e.target.checked })}
+                  />
+                  Suggest the batch that expires first when selling (FEFO)
+                </label>
+                <label className="block space-y-1 max-w-xs">
+                  <span className="text-sm text-slate-400">Warn when expiring within (days)</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="1"
+                    className={inputClass}
+                    value={profile.batches.nearExpiryDays}
+                    onChange={(e) => updateBatches({ nearExpiryDays: parseInt(e.target.value) || 0 })}
+                  />
+                </label>
+              </>
+            )}
+          </div>
+
+          <div className="flex justify-end">
+            <Button type="submit" variant="success" disabled={saving}>
+              <Save className="w-4 h-4 mr-2" /> {saving ? 'Saving...' : 'Save Profile'}
+            </Button>
+          </div>
+        </form>
+
+        <NumberingSettings user={user} />
+      </div>
+    </div>
+  );
+};
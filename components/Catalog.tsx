@@ -0,0 +1,341 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Invoice, Product, User } from '../types';
+import { catalogService } from '../services/catalogService';
+import { storageService } from '../services/storageService';
+import { inventoryService } from '../services/inventoryService';
+import { schemeService } from '../services/schemeService';
+import { moneyService } from '../services/moneyService';
+import { permissionService } from '../services/permissionService';
+import { generateId } from '../utils/generateId';
+import { Button } from './Button';
+import { ArrowLeft, Plus, Save, Search, Trash2, Upload, Package, X } from 'lucide-react';
+
+interface CatalogProps {
+  user: User;
+  onBack: () => void;
+}
+
+const inputClass = "w-full bg-slate-900 border border-slate-600 rounded px-3 py-2 text-sm text-white focus:outline-none focus:border-blue-500";
+
+const emptyProduct = (): Product => ({
+  id: generateId(),
+  name: '',
+  packSize: '',
+  defaultRate: 0,
+  company: '',
+  pricingCategory: '',
+  barcode: '',
+  createdAt: Date.now(),
+});
+
+export const Catalog: React.FC<CatalogProps> = ({ user, onBack }) => {
+  const [products, setProducts] = useState<Product[]>([]);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [lowOnly, setLowOnly] = useState(false);
+  const [editing, setEditing] = useState<Product | null>(null);
+  // The scheme is typed as text and only read when the product is saved
+  const [schemeText, setSchemeText] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const reload = async () => {
+    const [productList, invoiceList] = await Promise.all([
+      catalogService.getProducts(user.shopId),
+      storageService.getInvoices(user.shopId),
+    ]);
+    setProducts(productList);
+    setInvoices(invoiceList);
+  };
+
+  useEffect(() => {
+    reload();
+  }, [user.shopId]);
+
+  const levels = new Map(inventoryService.getLevels(products, invoices).map(level => [level.product.id, level]));
+  const stockOf = (product: Product) => levels.get(product.id)!;
+  const lowCount = [...levels.values()].filter(inventoryService.isLow).length;
+
+  const term = searchTerm.trim().toLowerCase();
+  const filteredProducts = products
+    .filter(p => !lowOnly || inventoryService.isLow(stockOf(p)))
+    .filter(p =>
+      !term ||
+      p.name.toLowerCase().includes(term) ||
+      p.company.toLowerCase().includes(term) ||
+      p.barcode.toLowerCase().includes(term)
+    );
+
+  const startEditing = (product: Product) => {
+    setEditing(product);
+    setSchemeText(schemeService.label(product.scheme));
+  };
+
+  const updateEditing = (field: keyof Product, value: string | number | undefined) => {
+    if (!editing) return;
+    setEditing({ ...editing, [field]: value });
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    if (!editing.name.trim()) {
+      alert('Please enter a product name');
+      return;
+    }
+    const duplicateBarcode = editing.barcode.trim() &&
+      products.find(p => p.id !== editing.id && p.barcode === editing.barcode.trim());
+    if (duplicateBarcode) {
+      alert(`Barcode already used by "${duplicateBarcode.name}"`);
+      return;
+    }
+    let scheme: Product['scheme'];
+    try {
+      scheme = schemeService.parse(schemeText);
+    } catch (err) {
+      alert((err as Error).message);
+      return;
+    }
+    await catalogService.saveProduct(user.shopId, {
+      ...editing,
+      scheme,
+      name: editing.name.trim(),
+      company: editing.company.trim(),
+      barcode: editing.barcode.trim(),
+      defaultRate: moneyService.normalize(editing.defaultRate),
+    });
+    setEditing(null);
+    reload();
+  };
+
+  const canEdit = permissionService.can(user, 'catalog.edit');
+
+  const handleDelete = async (product: Product) => {
+    if (!confirm(`Delete "${product.name}" from the catalog?`)) return;
+    await catalogService.deleteProduct(user.shopId, product.id);
+    if (editing?.id === product.id) setEditing(null);
+    reload();
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const result = await catalogService.importCsv(user.shopId, await file.text());
+    await reload();
+
+    const summary = `Imported ${result.added} new and updated ${result.updated} existing products.`;
+    const errors = result.errors.length > 0
+      ? `\n\n${result.errors.length} row(s) skipped:\n${result.errors.slice(0, 10).join('\n')}`
+      : '';
+    alert(summary + errors);
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-100 p-4 md:p-8">
+      <div className="max-w-7xl mx-auto">
+        <header className="flex flex-col md:flex-row justify-between items-center mb-8 gap-4">
+          <div className="flex items-center gap-3">
+            <Button variant="secondary" size="sm" onClick={onBack}>
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+            <div>
+              <h1 className="text-3xl font-bold text-white">Product Catalog</h1>
+              <p className="text-slate-400">{products.length} products</p>
+            </div>
+          </div>
+          {canEdit && (
+            <div className="flex gap-3">
+              <input ref={fileInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleImport} />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => fileInputRef.current?.click()}
+                title="Columns: Name, Pack Size, Rate, Company, Category, Barcode, Tax Rate, Opening Stock, Reorder Level, Scheme"
+              >
+                <Upload className="w-4 h-4 mr-2" /> Import CSV
+              </Button>
+              <Button onClick={() => startEditing(emptyProduct())}>
+                <Plus className="w-4 h-4 mr-2" /> Add Product
+              </Button>
+            </div>
+          )}
+        </header>
+
+        {editing && (
+          <div className="bg-slate-800 rounded-lg border border-slate-700 p-6 shadow-lg mb-6">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-bold text-white">
+                {products.some(p => p.id === editing.id) ? 'Edit Product' : 'New Product'}
+              </h3>
+              <button onClick={() => setEditing(null)} className="text-slate-500 hover:text-white">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <label className="space-y-1 md:col-span-2">
+                <span className="text-sm text-slate-400">Name</span>
+                <input className={inputClass} value={editing.name} onChange={(e) => updateEditing('name', e.target.value)} autoFocus />
+              </label>
+              <label className="space-y-1">
+                <span className="text-sm text-slate-400">Pack Size</span>
+                <input className={inputClass} value={editing.packSize} onChange={(e) => updateEditing('packSize', e.target.value)} placeholder="e.g. 10x10" />
+              </label>
+              <label className="space-y-1">
+                <span className="text-sm text-slate-400">Default Rate</span>
+                <input
+                  type="number"
+                  className={inputClass}
+                  value={editing.defaultRate === 0 ? '' : editing.defaultRate}
+                  onChange={(e) => updateEditing('defaultRate', Number(e.target.value))}
+                  placeholder="0"
+                />
+              </label>
+              <label className="space-y-1">
+                <span className="text-sm text-slate-400">Company / Manufacturer</span>
+                <input className={inputClass} value={editing.company} onChange={(e) => updateEditing('company', e.target.value)} />
+              </label>
+              <label className="space-y-1">
+                <span className="text-sm text-slate-400">Pricing Category</span>
+                <input className={inputClass} value={editing.pricingCategory} onChange={(e) => updateEditing('pricingCategory', e.target.value)} />
+              </label>
+              <label className="space-y-1">
+                <span className="text-sm text-slate-400">Barcode</span>
+                <input className={inputClass} value={editing.barcode} onChange={(e) => updateEditing('barcode', e.target.value)} />
+              </label>
+              <label className="space-y-1">
+                <span className="text-sm text-slate-400">Sales Tax %</span>
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  className={inputClass}
+                  value={editing.taxRate ?? ''}
+                  onChange={(e) => updateEditing('taxRate', e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)))}
+                  placeholder="Shop default"
+                />
+              </label>
+              <label className="space-y-1">
+                <span className="text-sm text-slate-400">Opening Stock (pieces)</span>
+                <input
+                  type="number"
+                  min="0"
+                  className={inputClass}
+                  value={editing.openingStock ?? ''}
+                  onChange={(e) => updateEditing('openingStock', e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)))}
+                  placeholder="Stock not kept"
+                />
+              </label>
+              <label className="space-y-1">
+                <span className="text-sm text-slate-400">Reorder Level (pieces)</span>
+                <input
+                  type="number"
+                  min="0"
+                  className={inputClass}
+                  value={editing.reorderLevel ?? ''}
+                  onChange={(e) => updateEditing('reorderLevel', e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)))}
+                  placeholder="No alert"
+                />
+              </label>
+              <label className="space-y-1 md:col-span-2">
+                <span className="text-sm text-slate-400">Scheme</span>
+                <input
+                  className={inputClass}
+                  value={schemeText}
+                  onChange={(e) => setSchemeText(e.target.value)}
+                  placeholder="10+1 bonus, Rs. 5 off, or slabs like 10: 2%, 50: 5%"
+                />
+              </label>
+            </div>
+            <div className="flex justify-end mt-4">
+              <Button variant="success" onClick={handleSave}>
+                <Save className="w-4 h-4 mr-2" /> Save Product
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="mb-6 relative">
+          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+            <Search className="h-5 w-5 text-slate-500" />
+          </div>
+          <input
+            type="text"
+            className="block w-full pl-10 pr-3 py-2 border border-slate-700 rounded-md leading-5 bg-slate-800 placeholder-slate-500 text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            placeholder="Search by name, company or barcode..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+          />
+        </div>
+
+        {(lowCount > 0 || lowOnly) && (
+          <label className="flex items-center gap-2 mb-4 text-sm text-amber-300">
+            <input type="checkbox" checked={lowOnly} onChange={(e) => setLowOnly(e.target.checked)} />
+            Only the {lowCount} product{lowCount === 1 ? '' : 's'} low on stock
+          </label>
+        )}
+
+        {filteredProducts.length === 0 ? (
+          <div className="text-center py-20 bg-slate-800 rounded-lg border border-slate-700">
+            <Package className="mx-auto h-12 w-12 text-slate-600 mb-4" />
+            <h3 className="text-lg font-medium text-slate-300">No products found</h3>
+            <p className="mt-1 text-slate-500">Add products one by one or import them from a CSV file.</p>
+          </div>
+        ) : (
+          <div className="bg-slate-800 rounded-lg border border-slate-700 overflow-x-auto shadow-lg">
+            <table className="w-full text-left border-collapse">
+              <thead>
+                <tr className="bg-slate-700 text-slate-300 text-xs uppercase tracking-wider">
+                  <th className="p-3">Name</th>
+                  <th className="p-3">Pack</th>
+                  <th className="p-3">Company</th>
+                  <th className="p-3">Category</th>
+                  <th className="p-3">Barcode</th>
+                  <th className="p-3 text-right">Rate</th>
+                  <th className="p-3">Scheme</th>
+                  <th className="p-3 text-right">Stock</th>
+                  <th className="p-3 w-10"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-700">
+                {filteredProducts.map(product => (
+                  <tr
+                    key={product.id}
+                    className="hover:bg-slate-750 cursor-pointer text-sm"
+                    onClick={() => canEdit && startEditing(product)}
+                  >
+                    <td className="p-3 font-medium text-white">{product.name}</td>
+                    <td className="p-3 text-slate-400">{product.packSize}</td>
+                    <td className="p-3 text-slate-300">{product.company}</td>
+                    <td className="p-3 text-slate-400">{product.pricingCategory}</td>
+                    <td className="p-3 text-slate-400 font-mono">{product.barcode}</td>
+                    <td className="p-3 text-right font-mono text-blue-300">{moneyService.format(product.defaultRate)}</td>
+                    <td className="p-3 text-green-400">{schemeService.label(product.scheme)}</td>
+                    <td
+                      className={`p-3 text-right font-mono ${inventoryService.isLow(stockOf(product)) ? 'text-amber-400 font-semibold' : 'text-slate-300'}`}
+                      title={product.reorderLevel !== undefined ? `Reorder at ${product.reorderLevel}` : undefined}
+                    >
+                      {inventoryService.isTracked(stockOf(product)) ? stockOf(product).onHand : '-'}
+                    </td>
+                    <td className="p-3 text-center">
+                      {canEdit && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleDelete(product);
+                          }}
+                          className="text-slate-500 hover:text-red-400 transition-colors p-1"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
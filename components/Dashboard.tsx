@@ -1,47 +1,172 @@
-import React, { useState, useEffect } from 'react';
-import { Invoice, User, InvoiceStatus } from '../types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { AppView, Invoice, InvoiceStatus, Party, Product, QuarantinedRecord, User } from '../types';
 import { storageService } from '../services/storageService';
+import { moneyService } from '../services/moneyService';
+import { partyService } from '../services/partyService';
+import { statusService } from '../services/statusService';
+import { documentService } from '../services/documentService';
+import { schemaService } from '../services/schemaService';
+import { catalogService } from '../services/catalogService';
+import { inventoryService } from '../services/inventoryService';
+import { permissionService } from '../services/permissionService';
+import { DateRange, exportService } from '../services/exportService';
+import { ExportFormat } from '../services/spreadsheetService';
+import { InvoiceFilter, QUERY_HELP, searchService, SortKey, SortOrder } from '../services/searchService';
 import { Button } from './Button';
-import { Plus, FileText, Search, LogOut, Loader } from 'lucide-react';
+import { StatusBadge } from './StatusBadge';
+import { ExportButtons } from './ExportButtons';
+import { InvoiceTable } from './InvoiceTable';
+import { SyncIndicator, useSyncSnapshot } from './SyncIndicator';
+import { Plus, FileText, Search, LogOut, Loader, Tag, Package, Users, Wallet, AlertTriangle, Download, Trash2, KeyRound, DatabaseBackup, Building2, BarChart3, UserCog, LayoutGrid, List, ArrowDown, ArrowUp, ChevronLeft, ChevronRight, HelpCircle, X } from 'lucide-react';
 
 interface DashboardProps {
   user: User;
   onLogout: () => void;
   onSelectInvoice: (invoiceId: string | null) => void;
+  onNavigate: (view: AppView) => void;
+  onOpenLedger: (partyId: string) => void;
 }
 
-export const Dashboard: React.FC<DashboardProps> = ({ user, onLogout, onSelectInvoice }) => {
+const dateInputClass = "bg-slate-800 border border-slate-700 rounded-md px-2 py-1.5 text-slate-100 focus:outline-none focus:border-blue-500";
+
+// Cards per page; the table view virtualizes instead
+const PAGE_SIZE = 48;
+
+const SORT_LABELS: Record<SortKey, string> = {
+  date: 'Date',
+  number: 'Number',
+  name: 'Name',
+  party: 'Party',
+  amount: 'Amount',
+  balance: 'Balance',
+  status: 'Status',
+};
+
+// The filter controls above the list; empty strings mean "any"
+interface ListFilters {
+  status: string;
+  partyId: string;
+  minAmount: string;
+  maxAmount: string;
+  item: string;
+  balanceDue: boolean;
+}
+
+const NO_FILTERS: ListFilters = { status: '', partyId: '', minAmount: '', maxAmount: '', item: '', balanceDue: false };
+
+const toInvoiceFilter = (f: ListFilters): InvoiceFilter => {
+  const filter = searchService.emptyFilter();
+  if (f.status === 'pending') filter.statuses = searchService.parse('status:pending').filter.statuses;
+  else if (f.status) filter.statuses = [f.status as InvoiceStatus];
+  if (f.partyId) filter.partyId = f.partyId;
+  if (f.item.trim()) filter.item = f.item.trim().toLowerCase();
+  if (f.minAmount !== '') filter.comparisons.push({ field: 'amount', op: '>=', value: Number(f.minAmount) });
+  if (f.maxAmount !== '') filter.comparisons.push({ field: 'amount', op: '<=', value: Number(f.maxAmount) });
+  if (f.balanceDue) filter.comparisons.push({ field: 'balance', op: '>', value: 0 });
+  return filter;
+};
+
+export const Dashboard: React.FC<DashboardProps> = ({ user, onLogout, onSelectInvoice, onNavigate, onOpenLedger }) => {
   const [invoices, setInvoices] = useState<Invoice[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
+  const [dateRange, setDateRange] = useState<DateRange>({});
+  const [filters, setFilters] = useState<ListFilters>(NO_FILTERS);
+  const [sort, setSort] = useState<SortOrder>({ key: 'date', descending: true });
+  const [viewMode, setViewMode] = useState<'cards' | 'table'>('cards');
+  const [page, setPage] = useState(0);
   const [loading, setLoading] = useState(true);
+  const [parties, setParties] = useState<Party[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [quarantine, setQuarantine] = useState<QuarantinedRecord[]>([]);
+  // Changes another device made show up after each sync
+  const { lastSyncAt } = useSyncSnapshot();
 
   useEffect(() => {
-    const loadData = () => {
-      setLoading(true);
-      const data = storageService.getInvoices(user.username);
-      // Sort by date descending
-      data.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+    const loadData = async () => {
+      const [data, partyList, rejected, productList] = await Promise.all([
+        storageService.getInvoices(user.shopId),
+        partyService.getParties(user.shopId),
+        schemaService.getQuarantine(user.shopId),
+        catalogService.getProducts(user.shopId),
+      ]);
       setInvoices(data);
+      setParties(partyList);
+      setProducts(productList);
+      setQuarantine(rejected);
       setLoading(false);
     };
     loadData();
-  }, [user.username]);
+  }, [user.shopId, lastSyncAt]);
 
-  const filteredInvoices = invoices.filter(inv => 
-    inv.name.toLowerCase().includes(searchTerm.toLowerCase()) || 
-    inv.date.includes(searchTerm)
-  );
+  const partyNames = useMemo(() => new Map<string, string>(parties.map((p: Party) => [p.id, p.name])), [parties]);
+  const partyName = (partyId?: string): string => (partyId && partyNames.get(partyId)) || '';
 
-  const toggleStatus = (e: React.MouseEvent, invoice: Invoice) => {
-    e.stopPropagation();
-    const updatedInvoice = {
-      ...invoice,
-      status: invoice.status === InvoiceStatus.PAID ? InvoiceStatus.PENDING : InvoiceStatus.PAID
-    };
-    storageService.saveInvoice(user.username, updatedInvoice);
-    setInvoices(invoices.map(inv => inv.id === invoice.id ? updatedInvoice : inv));
+  // The typed query and the filter controls both apply
+  const query = useMemo(() => searchService.parse(searchTerm), [searchTerm]);
+  const filteredInvoices: Invoice[] = useMemo(() => {
+    const filter = searchService.combine(query.filter, toInvoiceFilter(filters));
+    const matching = searchService.filter(exportService.filterByDate<Invoice>(invoices, dateRange), filter, partyName);
+    return searchService.sort(matching, sort, partyName);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [invoices, query, filters, dateRange, sort, partyNames]);
+
+  // Back to the first page whenever the list changes underneath
+  useEffect(() => setPage(0), [query, filters, dateRange, sort]);
+
+  const pageCount = Math.max(1, Math.ceil(filteredInvoices.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageInvoices = filteredInvoices.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  const updateFilters = (changes: Partial<ListFilters>) => setFilters({ ...filters, ...changes });
+  const hasFilters = JSON.stringify(filters) !== JSON.stringify(NO_FILTERS) || !!searchTerm || !!dateRange.from || !!dateRange.to;
+
+  const clearFilters = () => {
+    setFilters(NO_FILTERS);
+    setSearchTerm('');
+    setDateRange({});
+  };
+
+  // Clicking the sorted column again flips it; a new column starts with the biggest/newest first
+  const handleSort = (key: SortKey) => {
+    setSort(sort.key === key ? { key, descending: !sort.descending } : { key, descending: key !== 'name' && key !== 'party' && key !== 'number' });
   };
 
+  // Exports exactly what the list is showing, oldest first as the accountant reads it
+  const handleExportList = (format: ExportFormat) => {
+    const rows = [...filteredInvoices].sort((a, b) => a.date.localeCompare(b.date));
+    exportService.download(
+      exportService.invoiceListTable(rows, parties),
+      format,
+      exportService.fileName(`invoices_${user.shopId}`, format, dateRange)
+    );
+  };
+
+  // Saves the unreadable records as JSON so they can be repaired by hand
+  const handleExportQuarantine = () => {
+    const blob = new Blob([JSON.stringify(quarantine, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `quarantined_invoices_${user.shopId}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDiscardQuarantine = async () => {
+    if (!confirm(`Permanently discard ${quarantine.length} unreadable invoice(s)? Export them first if you may need them.`)) return;
+    await schemaService.clearQuarantine(user.shopId);
+    setQuarantine([]);
+  };
+
+  const overdueInvoices = invoices.filter(inv => statusService.isOverdue(inv));
+  const overdueTotal = moneyService.sum(overdueInvoices.map(inv => inv.remainingBalance));
+  const lowStock = useMemo(
+    () => inventoryService.getLevels(products, invoices).filter(inventoryService.isLow),
+    [products, invoices]
+  );
+
+  const canView = (view: AppView) => permissionService.canView(user, view);
+
   return (
     <div className="min-h-screen bg-slate-900 text-slate-100 p-4 md:p-8">
       <div className="max-w-7xl mx-auto">
@@ -50,29 +175,235 @@ export const Dashboard: React.FC<DashboardProps> = ({ user, onLogout, onSelectIn
             <h1 className="text-3xl font-bold text-white">Dashboard</h1>
             <p className="text-slate-400">Welcome back, {user.username}</p>
           </div>
-          <div className="flex gap-3">
+          <div className="flex flex-wrap justify-end gap-3">
              <Button variant="outline" onClick={onLogout} size="sm">
               <LogOut className="w-4 h-4 mr-2" /> Logout
             </Button>
+            <SyncIndicator onClick={() => onNavigate('sync')} />
+            <Button variant="secondary" onClick={() => onNavigate('account')} size="sm">
+              <KeyRound className="w-4 h-4 mr-2" /> Account
+            </Button>
+            {canView('users') && (
+              <Button variant="secondary" onClick={() => onNavigate('users')} size="sm">
+                <UserCog className="w-4 h-4 mr-2" /> Users
+              </Button>
+            )}
+            {canView('business') && (
+              <Button variant="secondary" onClick={() => onNavigate('business')} size="sm">
+                <Building2 className="w-4 h-4 mr-2" /> Business
+              </Button>
+            )}
+            {canView('backup') && (
+              <Button variant="secondary" onClick={() => onNavigate('backup')} size="sm">
+                <DatabaseBackup className="w-4 h-4 mr-2" /> Backup
+              </Button>
+            )}
+            {canView('pricing') && (
+              <Button variant="secondary" onClick={() => onNavigate('pricing')} size="sm">
+                <Tag className="w-4 h-4 mr-2" /> Pricing
+              </Button>
+            )}
+            <Button variant="secondary" onClick={() => onNavigate('parties')} size="sm">
+              <Users className="w-4 h-4 mr-2" /> Parties
+            </Button>
+            {canView('payments') && (
+              <Button variant="secondary" onClick={() => onNavigate('payments')} size="sm">
+                <Wallet className="w-4 h-4 mr-2" /> Payments
+              </Button>
+            )}
+            <Button variant="secondary" onClick={() => onNavigate('catalog')} size="sm">
+              <Package className="w-4 h-4 mr-2" /> Catalog
+            </Button>
+            {canView('reports') && (
+              <Button variant="secondary" onClick={() => onNavigate('reports')} size="sm">
+                <BarChart3 className="w-4 h-4 mr-2" /> Reports
+              </Button>
+            )}
             <Button onClick={() => onSelectInvoice(null)}>
               <Plus className="w-4 h-4 mr-2" /> Create Invoice
             </Button>
           </div>
         </header>
 
-        <div className="mb-6 relative">
-          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-            <Search className="h-5 w-5 text-slate-500" />
+        <div className="mb-6 flex flex-col lg:flex-row gap-3">
+          <div className="relative flex-1">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+              <Search className="h-5 w-5 text-slate-500" />
+            </div>
+            <input
+              type="text"
+              className="block w-full pl-10 pr-3 py-2 border border-slate-700 rounded-md leading-5 bg-slate-800 placeholder-slate-500 text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              placeholder='Search, e.g. status:pending balance>1000 party:"Ali Traders"'
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+            />
+            <div className="absolute inset-y-0 right-0 pr-3 flex items-center text-slate-500" title={QUERY_HELP}>
+              <HelpCircle className="h-4 w-4" />
+            </div>
+            {query.errors.length > 0 && (
+              <p className="mt-1 text-xs text-amber-400">{query.errors.join(' · ')}</p>
+            )}
+          </div>
+          <div className="flex flex-wrap items-center gap-2 text-sm text-slate-400">
+            <label className="flex items-center gap-2">
+              From
+              <input
+                type="date"
+                className={dateInputClass}
+                value={dateRange.from || ''}
+                onChange={(e) => setDateRange({ ...dateRange, from: e.target.value || undefined })}
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              To
+              <input
+                type="date"
+                className={dateInputClass}
+                value={dateRange.to || ''}
+                onChange={(e) => setDateRange({ ...dateRange, to: e.target.value || undefined })}
+              />
+            </label>
+            <ExportButtons onExport={handleExportList} disabled={filteredInvoices.length === 0} />
           </div>
+        </div>
+
+        <div className="mb-6 flex flex-wrap items-center gap-2 text-sm text-slate-400">
+          <select className={dateInputClass} value={filters.status} onChange={(e) => updateFilters({ status: e.target.value })} title="Status">
+            <option value="">Any status</option>
+            <option value="pending">Pending (unpaid, partial, overdue)</option>
+            {Object.values(InvoiceStatus).map(status => (
+              <option key={status} value={status}>{status}</option>
+            ))}
+          </select>
+          <select className={dateInputClass} value={filters.partyId} onChange={(e) => updateFilters({ partyId: e.target.value })} title="Party">
+            <option value="">All parties</option>
+            {parties.map(p => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            className={`${dateInputClass} w-28`}
+            placeholder="Min Rs."
+            value={filters.minAmount}
+            onChange={(e) => updateFilters({ minAmount: e.target.value })}
+            title="Smallest invoice total"
+          />
+          <input
+            type="number"
+            className={`${dateInputClass} w-28`}
+            placeholder="Max Rs."
+            value={filters.maxAmount}
+            onChange={(e) => updateFilters({ maxAmount: e.target.value })}
+            title="Largest invoice total"
+          />
           <input
             type="text"
-            className="block w-full pl-10 pr-3 py-2 border border-slate-700 rounded-md leading-5 bg-slate-800 placeholder-slate-500 text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
-            placeholder="Search invoices by name or date..."
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
+            className={`${dateInputClass} w-40`}
+            placeholder="Contains item..."
+            value={filters.item}
+            onChange={(e) => updateFilters({ item: e.target.value })}
           />
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input type="checkbox" checked={filters.balanceDue} onChange={(e) => updateFilters({ balanceDue: e.target.checked })} />
+            Balance due
+          </label>
+          {hasFilters && (
+            <Button variant="outline" size="sm" onClick={clearFilters}>
+              <X className="w-4 h-4 mr-2" /> Clear
+            </Button>
+          )}
+
+          <div className="flex items-center gap-2 ml-auto">
+            <span>{filteredInvoices.length} of {invoices.length}</span>
+            <select className={dateInputClass} value={sort.key} onChange={(e) => handleSort(e.target.value as SortKey)} title="Sort by">
+              {(Object.keys(SORT_LABELS) as SortKey[]).map(key => (
+                <option key={key} value={key}>Sort: {SORT_LABELS[key]}</option>
+              ))}
+            </select>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setSort({ ...sort, descending: !sort.descending })}
+              title={sort.descending ? 'Descending' : 'Ascending'}
+            >
+              {sort.descending ? <ArrowDown className="w-4 h-4" /> : <ArrowUp className="w-4 h-4" />}
+            </Button>
+            <div className="flex rounded-md border border-slate-600 overflow-hidden">
+              <button
+                className={`px-2 py-1.5 ${viewMode === 'cards' ? 'bg-slate-700 text-white' : 'hover:bg-slate-800'}`}
+                onClick={() => setViewMode('cards')}
+                title="Cards"
+              >
+                <LayoutGrid className="w-4 h-4" />
+              </button>
+              <button
+                className={`px-2 py-1.5 ${viewMode === 'table' ? 'bg-slate-700 text-white' : 'hover:bg-slate-800'}`}
+                onClick={() => setViewMode('table')}
+                title="Table"
+              >
+                <List className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
         </div>
 
+        {quarantine.length > 0 && (
+          <div className="mb-6 bg-amber-950/50 border border-amber-800 text-amber-200 rounded-md px-4 py-3">
+            <div className="flex flex-col md:flex-row md:items-center gap-3">
+              <AlertTriangle className="w-5 h-5 text-amber-400 flex-shrink-0" />
+              <span className="flex-1">
+                {quarantine.length} saved invoice{quarantine.length === 1 ? '' : 's'} could not be read and {quarantine.length === 1 ? 'was' : 'were'} set aside
+              </span>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={handleExportQuarantine}>
+                  <Download className="w-4 h-4 mr-2" /> Export
+                </Button>
+                {permissionService.can(user, 'backup.manage') && (
+                  <Button variant="danger" size="sm" onClick={handleDiscardQuarantine}>
+                    <Trash2 className="w-4 h-4 mr-2" /> Discard
+                  </Button>
+                )}
+              </div>
+            </div>
+            <details className="mt-2 text-sm text-amber-300/80">
+              <summary className="cursor-pointer">Details</summary>
+              <ul className="mt-2 space-y-1 list-disc pl-5">
+                {quarantine.map((entry, i) => (
+                  <li key={`${entry.id}-${i}`}>
+                    {(entry.record as { name?: string })?.name || entry.id || 'Unnamed record'}: {entry.errors.join('; ')}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          </div>
+        )}
+
+        {overdueInvoices.length > 0 && (
+          <div className="mb-6 flex items-center gap-3 bg-red-950/50 border border-red-800 text-red-200 rounded-md px-4 py-3">
+            <AlertTriangle className="w-5 h-5 text-red-400 flex-shrink-0" />
+            <span>
+              {overdueInvoices.length} overdue invoice{overdueInvoices.length === 1 ? '' : 's'} with Rs. {moneyService.format(overdueTotal)} outstanding
+            </span>
+          </div>
+        )}
+
+        {lowStock.length > 0 && (
+          <div className="mb-6 flex flex-col md:flex-row md:items-center gap-3 bg-amber-950/50 border border-amber-800 text-amber-200 rounded-md px-4 py-3">
+            <Package className="w-5 h-5 text-amber-400 flex-shrink-0" />
+            <span className="flex-1" title={lowStock.map(level => `${level.product.name}: ${level.onHand}`).join('\n')}>
+              {lowStock.length} product{lowStock.length === 1 ? '' : 's'} low on stock:{' '}
+              {lowStock.slice(0, 3).map(level => `${level.product.name} (${level.onHand})`).join(', ')}
+              {lowStock.length > 3 ? ` and ${lowStock.length - 3} more` : ''}
+            </span>
+            {canView('catalog') && (
+              <Button variant="outline" size="sm" onClick={() => onNavigate('catalog')}>
+                View Catalog
+              </Button>
+            )}
+          </div>
+        )}
+
         {loading ? (
           <div className="flex justify-center py-20">
             <Loader className="w-8 h-8 animate-spin text-blue-500" />
@@ -81,52 +412,96 @@ export const Dashboard: React.FC<DashboardProps> = ({ user, onLogout, onSelectIn
           <div className="text-center py-20 bg-slate-800 rounded-lg border border-slate-700">
             <FileText className="mx-auto h-12 w-12 text-slate-600 mb-4" />
             <h3 className="text-lg font-medium text-slate-300">No invoices found</h3>
-            <p className="mt-1 text-slate-500">Get started by creating a new invoice.</p>
+            <p className="mt-1 text-slate-500">
+              {invoices.length > 0 ? 'Nothing matches these filters.' : 'Get started by creating a new invoice.'}
+            </p>
           </div>
+        ) : viewMode === 'table' ? (
+          <InvoiceTable invoices={filteredInvoices} partyName={partyName} sort={sort} onSort={handleSort} onSelect={onSelectInvoice} />
         ) : (
-          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-            {filteredInvoices.map((invoice) => (
-              <div 
-                key={invoice.id} 
-                className="bg-slate-800 rounded-lg border border-slate-700 p-5 hover:border-blue-500 transition-colors cursor-pointer group shadow-lg"
-                onClick={() => onSelectInvoice(invoice.id)}
-              >
-                <div className="flex justify-between items-start mb-4">
-                  <div>
-                    <h3 className="text-lg font-semibold text-white group-hover:text-blue-400 transition-colors">{invoice.name}</h3>
-                    <p className="text-sm text-slate-400">{new Date(invoice.date).toLocaleDateString()}</p>
-                  </div>
-                  <button 
-                    onClick={(e) => toggleStatus(e, invoice)}
-                    className={`px-2 py-1 rounded-full text-xs font-semibold uppercase tracking-wide ${
-                      invoice.status === InvoiceStatus.PAID 
-                        ? 'bg-green-900 text-green-200 border border-green-700' 
-                        : 'bg-yellow-900 text-yellow-200 border border-yellow-700'
+          <>
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+              {pageInvoices.map((invoice) => {
+                const status = statusService.getStatus(invoice);
+                const overdueDays = statusService.daysOverdue(invoice);
+                return (
+                  <div 
+                    key={invoice.id} 
+                    className={`bg-slate-800 rounded-lg border p-5 hover:border-blue-500 transition-colors cursor-pointer group shadow-lg ${
+                      statusService.isOverdue(invoice) ? 'border-red-700 ring-1 ring-red-900' : 'border-slate-700'
                     }`}
+                    onClick={() => onSelectInvoice(invoice.id)}
                   >
-                    {invoice.status}
-                  </button>
-                </div>
-                
-                <div className="space-y-2 text-sm text-slate-300">
-                  <div className="flex justify-between">
-                    <span>Items:</span>
-                    <span>{invoice.items.length}</span>
-                  </div>
-                  <div className="flex justify-between font-medium">
-                    <span>Total Amount:</span>
-                    <span className="text-white">Rs. {invoice.totalAmount.toLocaleString()}</span>
+                    <div className="flex justify-between items-start mb-4">
+                      <div>
+                        <h3 className="text-lg font-semibold text-white group-hover:text-blue-400 transition-colors">{invoice.name}</h3>
+                        {invoice.number && invoice.number !== invoice.name && (
+                          <p className="text-xs font-mono text-slate-500">{invoice.number}</p>
+                        )}
+                        <p className="text-sm text-slate-400">{new Date(invoice.date).toLocaleDateString()}</p>
+                        {invoice.partyId && partyName(invoice.partyId) && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onOpenLedger(invoice.partyId!);
+                            }}
+                            className="text-sm text-blue-400 hover:text-blue-300 hover:underline flex items-center mt-1"
+                            title="Open party ledger"
+                          >
+                            <Users className="w-3 h-3 mr-1" /> {partyName(invoice.partyId)}
+                          </button>
+                        )}
+                      </div>
+                      <div className="flex flex-col items-end gap-1">
+                        {documentService.isSale(invoice) ? (
+                          <StatusBadge status={status} overridden={!!invoice.statusOverride} />
+                        ) : (
+                          <span className="px-2 py-1 rounded-full text-xs font-semibold uppercase tracking-wide whitespace-nowrap bg-purple-900 text-purple-200 border border-purple-700">
+                            {documentService.getInfo(invoice).label}
+                          </span>
+                        )}
+                        {statusService.isOverdue(invoice) && overdueDays > 0 && (
+                          <span className="text-xs text-red-400">{overdueDays} day{overdueDays === 1 ? '' : 's'} late</span>
+                        )}
+                      </div>
+                    </div>
+                  
+                    <div className="space-y-2 text-sm text-slate-300">
+                      <div className="flex justify-between">
+                        <span>Items:</span>
+                        <span>{invoice.items.length}</span>
+                      </div>
+                      <div className="flex justify-between font-medium">
+                        <span>Total Amount:</span>
+                        <span className="text-white">Rs. {moneyService.format(invoice.totalAmount)}</span>
+                      </div>
+                      {documentService.isSale(invoice) && (
+                        <div className="flex justify-between pt-2 border-t border-slate-700 mt-2">
+                          <span className="font-bold text-slate-200">Balance:</span>
+                          <span className={`font-bold ${invoice.remainingBalance > 0 ? 'text-red-400' : 'text-green-400'}`}>
+                            Rs. {moneyService.format(invoice.remainingBalance)}
+                          </span>
+                        </div>
+                      )}
+                    </div>
                   </div>
-                  <div className="flex justify-between pt-2 border-t border-slate-700 mt-2">
-                    <span className="font-bold text-slate-200">Balance:</span>
-                    <span className={`font-bold ${invoice.remainingBalance > 0 ? 'text-red-400' : 'text-green-400'}`}>
-                      Rs. {invoice.remainingBalance.toLocaleString()}
-                    </span>
-                  </div>
-                </div>
+                );
+              })}
+            </div>
+            {pageCount > 1 && (
+              <div className="mt-6 flex items-center justify-center gap-3 text-sm text-slate-400">
+                <Button variant="outline" size="sm" onClick={() => setPage(currentPage - 1)} disabled={currentPage === 0}>
+                  <ChevronLeft className="w-4 h-4" />
+                </Button>
+                <span>
+                  {currentPage * PAGE_SIZE + 1}–{Math.min((currentPage + 1) * PAGE_SIZE, filteredInvoices.length)} of {filteredInvoices.length}
+                </span>
+                <Button variant="outline" size="sm" onClick={() => setPage(currentPage + 1)} disabled={currentPage >= pageCount - 1}>
+                  <ChevronRight className="w-4 h-4" />
+                </Button>
               </div>
-            ))}
-          </div>
+            )}
+          </>
         )}
       </div>
     </div>
@@ -0,0 +1,22 @@
+import React from 'react';
+import { ExportFormat } from '../services/spreadsheetService';
+import { Button } from './Button';
+import { FileDown } from 'lucide-react';
+
+interface ExportButtonsProps {
+  onExport: (format: ExportFormat) => void;
+  disabled?: boolean;
+  size?: 'sm' | 'md';
+}
+
+// CSV and Excel download buttons, side by side
+export const ExportButtons: React.FC<ExportButtonsProps> = ({ onExport, disabled, size = 'sm' }) => (
+  <div className="flex gap-2">
+    <Button variant="outline" size={size} onClick={() => onExport('csv')} disabled={disabled} title="Download as CSV">
+      <FileDown className="w-4 h-4 mr-2" /> CSV
+    </Button>
+    <Button variant="outline" size={size} onClick={() => onExport('xlsx')} disabled={disabled} title="Download as Excel workbook">
+      <FileDown className="w-4 h-4 mr-2" /> Excel
+    </Button>
+  </div>
+);
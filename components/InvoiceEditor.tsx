@@ -1,13 +1,35 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Invoice, InvoiceItem, PaymentRow, InvoiceStatus, User } from '../types';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { BusinessProfile, ChequeStatus, DocumentType, EditorSnapshot, Invoice, InvoiceDraft, InvoiceItem, Party, PaymentMethod, PaymentRow, PdfTemplate, InvoiceStatus, PricingProfile, Product, StatusChange, StatusOverride, User } from '../types';
 import { storageService } from '../services/storageService';
+import { pricingService } from '../services/pricingService';
+import { moneyService } from '../services/moneyService';
+import { catalogService } from '../services/catalogService';
+import { partyService } from '../services/partyService';
+import { paymentService } from '../services/paymentService';
+import { statusService } from '../services/statusService';
+import { ExportFormat, spreadsheetService } from '../services/spreadsheetService';
+import { exportService } from '../services/exportService';
+import { businessProfileService } from '../services/businessProfileService';
+import { PDF_TEMPLATES, pdfService } from '../services/pdfService';
+import { historyService, EditHistory } from '../services/historyService';
+import { CellPosition, GridColumn, gridService } from '../services/gridService';
+import { DEFAULT_TAX_SETTINGS, taxService } from '../services/taxService';
+import { inventoryService } from '../services/inventoryService';
+import { DEFAULT_BATCH_SETTINGS, batchService } from '../services/batchService';
+import { schemeService } from '../services/schemeService';
+import { AUTOSAVE_INTERVAL_MS, draftService } from '../services/draftService';
+import { DOCUMENT_TYPES, documentService } from '../services/documentService';
+import { invoiceService } from '../services/invoiceService';
+import { permissionService } from '../services/permissionService';
+import { generateId } from '../utils/generateId';
 import { Button } from './Button';
-import { ArrowLeft, Save, Plus, Download, Trash2, Copy, DollarSign } from 'lucide-react';
-import jsPDF from 'jspdf';
-import autoTable from 'jspdf-autotable';
-import { v4 as uuidv4 } from 'uuid'; // We'll implement a simple ID generator since uuid package isn't guaranteed
-// Simple UUID fallback
-const generateId = () => Math.random().toString(36).substring(2, 9);
+import { ProductAutocomplete } from './ProductAutocomplete';
+import { StatusBadge } from './StatusBadge';
+import { LineItemImport } from './LineItemImport';
+import { ExportButtons } from './ExportButtons';
+import { ShortcutHelp } from './ShortcutHelp';
+import { InvoiceHistory } from './InvoiceHistory';
+import { ArrowLeft, Save, Plus, Download, Trash2, Copy, DollarSign, RefreshCw, FileSpreadsheet, Undo2, Redo2, GripVertical, Keyboard, ClipboardCopy, X, History, AlertTriangle, Tag } from 'lucide-react';
 
 interface InvoiceEditorProps {
   user: User;
@@ -15,87 +37,440 @@ interface InvoiceEditorProps {
   onBack: () => void;
 }
 
+// What a draft holds and the unsaved-changes check compares
+type EditorFields = Omit<InvoiceDraft, 'invoiceId' | 'isNew' | 'savedAt'>;
+
+const fingerprint = (f: EditorFields) =>
+  JSON.stringify([f.docType || DocumentType.SALE, f.originalInvoiceId, f.name, f.partyId, f.date, f.dueDate, f.statusOverride, f.statusLog, f.items, f.payments, f.pricingProfileId, f.pricingProfileVersion, !!f.taxInclusive]);
+
+const emptyItem = (): InvoiceItem => ({
+  id: generateId(),
+  name: '',
+  company: '',
+  qty: 0,
+  rate: 0,
+  tp: 0,
+  discount: 0,
+  totalPerPiece: 0,
+  totalAmount: 0
+});
+
 export const InvoiceEditor: React.FC<InvoiceEditorProps> = ({ user, existingInvoiceId, onBack }) => {
   // --- State ---
+  const [invoiceId, setInvoiceId] = useState(() => existingInvoiceId || generateId());
+  const [isNew, setIsNew] = useState(!existingInvoiceId);
+  const [docType, setDocType] = useState<DocumentType>(DocumentType.SALE);
+  const [docNumber, setDocNumber] = useState<string | undefined>(undefined);
+  const [createdAt, setCreatedAt] = useState<number | undefined>(undefined);
+  const [originalInvoiceId, setOriginalInvoiceId] = useState<string | undefined>(undefined);
   const [invoiceName, setInvoiceName] = useState('');
+  const [partyId, setPartyId] = useState<string | undefined>(undefined);
   const [invoiceDate, setInvoiceDate] = useState(new Date().toISOString().split('T')[0]);
   const [items, setItems] = useState<InvoiceItem[]>([]);
   const [payments, setPayments] = useState<PaymentRow[]>([]);
-  const [status, setStatus] = useState<InvoiceStatus>(InvoiceStatus.PENDING);
+  const [dueDate, setDueDate] = useState<string | undefined>(undefined);
+  const [statusOverride, setStatusOverride] = useState<StatusOverride | undefined>(undefined);
+  const [statusLog, setStatusLog] = useState<StatusChange[]>([]);
+  const [pricingProfileId, setPricingProfileId] = useState<string | undefined>(undefined);
+  const [pricingProfileVersion, setPricingProfileVersion] = useState<number | undefined>(undefined);
+  const [taxInclusive, setTaxInclusive] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  // Set straight away, so a second Ctrl+Enter before the next render doesn't save twice
+  const savingRef = useRef(false);
+  const [importRows, setImportRows] = useState<{ rows: string[][]; source: string; insertAfter?: string } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // Undo/redo, and what was last saved so unsaved changes can be detected
+  const [history, setHistory] = useState<EditHistory>(historyService.empty());
+  const [savedFingerprint, setSavedFingerprint] = useState<string | null>(null);
+  const [draftSavedAt, setDraftSavedAt] = useState<number | null>(null);
+
+  // Grid selection (row ids), drag-to-reorder and the shortcut list
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const selectionAnchor = useRef<string | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  // Cell to focus once a newly added row has rendered
+  const pendingFocus = useRef<CellPosition | null>(null);
+
+  const [profiles, setProfiles] = useState<PricingProfile[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [parties, setParties] = useState<Party[]>([]);
+  const [business, setBusiness] = useState<BusinessProfile | undefined>(undefined);
+  const [pdfTemplate, setPdfTemplate] = useState<PdfTemplate>(PdfTemplate.A4);
+  // Every saved invoice, for picking the sale a return is against and totalling returns on a sale
+  const [allInvoices, setAllInvoices] = useState<Invoice[]>([]);
+  const pricingRules = useMemo(
+    () => pricingService.getRules(profiles, pricingProfileId, pricingProfileVersion),
+    [profiles, pricingProfileId, pricingProfileVersion]
+  );
+  const currentProfile = profiles.find(p => p.id === pricingProfileId);
+  const latestVersion = currentProfile ? pricingService.getCurrentVersion(currentProfile).version : undefined;
 
   // --- Initialization ---
   useEffect(() => {
-    if (existingInvoiceId) {
-      const allInvoices = storageService.getInvoices(user.username);
-      const found = allInvoices.find(i => i.id === existingInvoiceId);
-      if (found) {
-        setInvoiceName(found.name);
-        setInvoiceDate(found.date);
-        setItems(found.items);
-        setPayments(found.payments);
-        setStatus(found.status);
+    const loadInvoice = async () => {
+      const [profileList, productList, partyList, businessProfile, invoiceList] = await Promise.all([
+        pricingService.getProfiles(user.shopId),
+        catalogService.getProducts(user.shopId),
+        partyService.getParties(user.shopId),
+        businessProfileService.getProfile(user.shopId),
+        storageService.getInvoices(user.shopId),
+      ]);
+      setAllInvoices(invoiceList);
+      setProfiles(profileList);
+      setProducts(productList);
+      setParties(partyList);
+      setBusiness(businessProfile);
+      setPdfTemplate(businessProfile.defaultTemplate);
+
+      let loaded: EditorFields;
+      if (existingInvoiceId) {
+        const found = await storageService.getInvoice(user.shopId, existingInvoiceId);
+        if (!found) return;
+        setDocNumber(found.number);
+        setCreatedAt(found.createdAt);
+        loaded = {
+          docType: documentService.getType(found),
+          originalInvoiceId: found.originalInvoiceId,
+          name: found.name,
+          partyId: found.partyId,
+          date: found.date,
+          dueDate: found.dueDate,
+          statusOverride: found.statusOverride,
+          statusLog: found.statusLog || [],
+          items: found.items,
+          payments: await paymentService.getInvoicePaymentRows(user.shopId, found.id),
+          pricingProfileId: found.pricingProfileId,
+          pricingProfileVersion: found.pricingProfileVersion,
+          taxInclusive: found.taxInclusive,
+        };
+      } else {
+        // New invoices are priced with the current version of the default profile, and start with one empty row
+        const profile = pricingService.getDefaultProfile(profileList);
+        loaded = {
+          docType: DocumentType.SALE,
+          name: '',
+          date: new Date().toISOString().split('T')[0],
+          statusLog: [],
+          items: [{ ...emptyItem(), ...taxService.ratesFor(businessProfile.tax) }],
+          payments: [],
+          pricingProfileId: profile.id,
+          pricingProfileVersion: pricingService.getCurrentVersion(profile).version,
+          taxInclusive: businessProfile.tax.enabled && businessProfile.tax.pricesIncludeTax,
+        };
       }
-    } else {
-      // Start with one empty row
-      addNewRow();
-    }
+      setSavedFingerprint(fingerprint(loaded));
+
+      // Offer back whatever was left unsaved last time
+      const draft = await draftService.getDraft(user, existingInvoiceId);
+      if (draft && fingerprint(draft) !== fingerprint(loaded)) {
+        if (confirm(`Restore unsaved changes from ${new Date(draft.savedAt).toLocaleString()}?`)) {
+          if (draft.isNew) setInvoiceId(draft.invoiceId);
+          applyFields(draft);
+          return;
+        }
+        await draftService.discardDraft(user, draft.invoiceId);
+      }
+      applyFields(loaded);
+    };
+    loadInvoice();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [existingInvoiceId, user.username]);
+  }, [existingInvoiceId, user.shopId]);
 
-  // --- Calculations ---
+  const applyFields = (f: EditorFields) => {
+    setDocType(f.docType || DocumentType.SALE);
+    setOriginalInvoiceId(f.originalInvoiceId);
+    setInvoiceName(f.name);
+    setPartyId(f.partyId);
+    setInvoiceDate(f.date);
+    setDueDate(f.dueDate);
+    setStatusOverride(f.statusOverride);
+    setStatusLog(f.statusLog);
+    setItems(f.items);
+    setPayments(f.payments);
+    setPricingProfileId(f.pricingProfileId);
+    setPricingProfileVersion(f.pricingProfileVersion);
+    setTaxInclusive(!!f.taxInclusive);
+  };
 
-  const calculateRow = (item: InvoiceItem): InvoiceItem => {
-    // 1. Calculate TP: Rate - 14.5%
-    const tp = item.rate > 0 ? item.rate * (1 - 0.145) : 0;
-    
-    // 2. Logic for Discount/Extra Charge
-    let finalUnit = tp;
-    
-    if (item.discount !== 0) {
-      // Base for Discount logic = TP - 15% (fixed)
-      const baseForDiscount = tp * (1 - 0.15);
-      
-      // If Discount is negative (-X%), implies EXTRA DISCOUNT on the base.
-      // If Discount is positive (+X%), implies EXTRA CHARGE on the base.
-      // Math: Base * (1 + (X/100)) handles both signs correctly relative to addition/subtraction algebra, 
-      // BUT Prompt says: "Subtract... negative %" and "Add... positive %".
-      // Usually, discount of 5% means Price * 0.95. 
-      // Prompt says: "Negative value (-X%) = Extra Discount... subtract user's additional negative %"
-      // Let's stick to strict algebraic interpretation of the prompt's steps:
-      
-      const percentageDecimal = item.discount / 100;
-      
-      // If discount is -5, we want to subtract 5% magnitude.
-      // If discount is +5, we want to add 5% magnitude.
-      // Math: Base + (Base * (percentageDecimal))
-      // e.g. -5%: Base + (Base * -0.05) = Base - 0.05*Base. Correct.
-      // e.g. +5%: Base + (Base * 0.05). Correct.
-      
-      finalUnit = baseForDiscount + (baseForDiscount * percentageDecimal);
-    } else {
-      // "Discount column must remain 0 until user inputs a value. No calculations should run until..."
-      // If discount is 0, we just assume standard TP applies without the special "-15%" rule invoked by the discount logic.
-      finalUnit = tp;
+  const editorFields = (): EditorFields => ({
+    docType,
+    originalInvoiceId,
+    name: invoiceName,
+    partyId,
+    date: invoiceDate,
+    dueDate,
+    statusOverride,
+    statusLog,
+    items,
+    payments,
+    pricingProfileId,
+    pricingProfileVersion,
+    taxInclusive,
+  });
+
+  const isDirty = savedFingerprint !== null && fingerprint(editorFields()) !== savedFingerprint;
+
+  // --- Undo / Redo ---
+  const snapshot = (): EditorSnapshot => ({ items, payments, pricingProfileId, pricingProfileVersion, taxInclusive });
+
+  const restoreSnapshot = (s: EditorSnapshot) => {
+    setItems(s.items);
+    setPayments(s.payments);
+    setPricingProfileId(s.pricingProfileId);
+    setPricingProfileVersion(s.pricingProfileVersion);
+    setTaxInclusive(!!s.taxInclusive);
+  };
+
+  // Call before every item or payment change. Edits sharing a key (one cell) undo together.
+  const recordEdit = (label: string, key?: string) => {
+    setHistory(historyService.record(history, snapshot(), label, key));
+  };
+
+  const handleUndo = () => {
+    const result = historyService.undo(history, snapshot());
+    if (!result) return;
+    setHistory(result.history);
+    restoreSnapshot(result.snapshot);
+  };
+
+  const handleRedo = () => {
+    const result = historyService.redo(history, snapshot());
+    if (!result) return;
+    setHistory(result.history);
+    restoreSnapshot(result.snapshot);
+  };
+
+  useEffect(() => {
+    const handleShortcut = (e: KeyboardEvent) => {
+      if (e.key === 'F1' || ((e.ctrlKey || e.metaKey) && e.key === '/')) {
+        e.preventDefault();
+        setShowShortcuts(open => !open);
+        return;
+      }
+      if (e.key === 'Escape' && showShortcuts) {
+        setShowShortcuts(false);
+        return;
+      }
+      if (!(e.ctrlKey || e.metaKey) || importRows) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleShortcut);
+    return () => window.removeEventListener('keydown', handleShortcut);
+  });
+
+  // --- Drafts ---
+  const buildDraft = (): InvoiceDraft => ({ ...editorFields(), invoiceId, isNew, savedAt: Date.now() });
+
+  // The interval reads the latest state through these
+  const draftRef = useRef<{ draft: () => InvoiceDraft; dirty: boolean }>({ draft: buildDraft, dirty: false });
+  draftRef.current = { draft: buildDraft, dirty: isDirty };
+  const lastDraftRef = useRef<string | null>(null);
+
+  const saveDraft = async () => {
+    if (!draftRef.current.dirty) return;
+    const draft = draftRef.current.draft();
+    if (fingerprint(draft) === lastDraftRef.current) return;
+    try {
+      await draftService.saveDraft(user, draft);
+      lastDraftRef.current = fingerprint(draft);
+      setDraftSavedAt(draft.savedAt);
+    } catch {
+      // Storage is locked; the next tick after unlocking will catch up
     }
+  };
 
-    // 3. Total Amount
-    const totalAmt = finalUnit * item.qty;
+  useEffect(() => {
+    const timer = setInterval(saveDraft, AUTOSAVE_INTERVAL_MS);
+    return () => clearInterval(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user.shopId]);
 
-    return {
-      ...item,
-      tp: Number(tp.toFixed(2)),
-      totalPerPiece: Number(finalUnit.toFixed(2)),
-      totalAmount: Number(totalAmt.toFixed(2))
+  // The browser's own warning when closing or reloading the tab
+  useEffect(() => {
+    if (!isDirty) return;
+    const warn = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = '';
     };
+    window.addEventListener('beforeunload', warn);
+    return () => window.removeEventListener('beforeunload', warn);
+  }, [isDirty]);
+
+  const handleBack = async () => {
+    if (isDirty) {
+      if (!confirm('You have unsaved changes. Leave anyway? They are kept as a draft you can restore next time.')) return;
+      await saveDraft();
+    }
+    onBack();
+  };
+
+  // The party's credit terms set the due date
+  const applyCreditTerms = (forPartyId: string | undefined, date: string) => {
+    const party = parties.find(p => p.id === forPartyId);
+    if (party?.creditDays) setDueDate(statusService.dueDateFor(date, party.creditDays));
+  };
+
+  // Further tax depends on whether the buyer is registered, so a new party can change it on every taxed row
+  const applyPartyTax = (party: Party | undefined) => {
+    if (!taxSettings.enabled) return;
+    const { furtherTaxRate } = taxService.ratesFor(taxSettings, undefined, party);
+    if (items.every(item => !item.taxRate || (item.furtherTaxRate || 0) === furtherTaxRate)) return;
+    recordEdit('Update further tax');
+    setItems(items.map(item => (item.taxRate ? calculateRow({ ...item, furtherTaxRate }) : item)));
+  };
+
+  const handlePartyChange = async (value: string) => {
+    if (value !== '__new') {
+      setPartyId(value || undefined);
+      applyCreditTerms(value, invoiceDate);
+      applyPartyTax(parties.find(p => p.id === value));
+      return;
+    }
+    const name = prompt('New party name');
+    if (!name || !name.trim()) return;
+    const party = await partyService.createParty(user.shopId, name);
+    setParties(await partyService.getParties(user.shopId));
+    setPartyId(party.id);
+    applyPartyTax(party);
+  };
+
+  const handleDateChange = (value: string) => {
+    setInvoiceDate(value);
+    applyCreditTerms(partyId, value);
+  };
+
+  // --- Tax ---
+  // Invoices already carrying tax keep showing it after tax is switched off
+  const taxSettings = business?.tax || DEFAULT_TAX_SETTINGS;
+  const party = parties.find(p => p.id === partyId);
+  const showTax = taxSettings.enabled || taxService.hasTax(items);
+
+  // Empty rows start with the shop's rates for this party
+  const newItem = (): InvoiceItem => ({ ...emptyItem(), ...taxService.ratesFor(taxSettings, undefined, party) });
+
+  // --- Stock ---
+  // Products this document takes out more of than is left, counting every other saved invoice
+  const shortfalls = useMemo(
+    () => inventoryService.getShortfalls({ id: invoiceId, docType, items }, products, allInvoices),
+    [invoiceId, docType, items, products, allInvoices]
+  );
+  const shortfallFor = (itemId: string) => shortfalls.find(s => s.itemIds.includes(itemId));
+
+  // --- Batches ---
+  // Like tax, the columns stay for invoices that already have batches
+  const batchSettings = business?.batches || DEFAULT_BATCH_SETTINGS;
+  const showBatches = batchSettings.enabled || items.some(item => item.batch || item.expiry);
+  const gridColumns = gridService.columns({ batches: showBatches, tax: showTax });
+  // Only rows with bonus pieces have a rate different from the unit total
+  const showEffectiveRate = items.some(item => item.effectiveRate !== undefined);
+  const takesStock = DOCUMENT_TYPES[docType].stockEffect < 0;
+  const findProduct = useMemo(() => inventoryService.productFinder(products), [products]);
+  const batchLevels = useMemo(
+    () => batchService.getLevels(products, allInvoices, { excludeInvoiceId: invoiceId }),
+    [products, allInvoices, invoiceId]
+  );
+  const batchesFor = (item: InvoiceItem) => {
+    const product = findProduct(item);
+    return product ? batchService.available(batchLevels, product.id, invoiceDate) : [];
+  };
+  // Expiry is judged on the invoice date, so back-dated bills aren't flagged for batches that expired since
+  const expiryStatus = (item: InvoiceItem) => batchService.status(item.expiry, invoiceDate, batchSettings.nearExpiryDays);
+  const expiredItems = items.filter(item => item.name.trim() && expiryStatus(item) === 'expired');
+  const nearExpiryItems = items.filter(item => item.name.trim() && expiryStatus(item) === 'near');
+  const describeBatch = (item: InvoiceItem) =>
+    `${item.name}${item.batch ? ` (${item.batch})` : ''} ${batchService.format(item.expiry)}`;
+
+  // --- Document Type ---
+  const typeInfo = DOCUMENT_TYPES[docType];
+  const isSale = docType === DocumentType.SALE;
+  const canEditPayments = permissionService.can(user, 'payments.edit');
+  const canSetStatus = permissionService.can(user, 'invoices.status');
+  const canDelete = permissionService.can(user, 'invoices.delete');
+  const original = allInvoices.find(inv => inv.id === originalInvoiceId);
+  // Sales a return or credit note can be raised against, newest first
+  const returnableSales = allInvoices
+    .filter(inv => documentService.isSale(inv) && !statusService.isCancelled(inv) && inv.id !== invoiceId)
+    .filter(inv => !partyId || inv.partyId === partyId || inv.id === originalInvoiceId)
+    .sort((a, b) => b.date.localeCompare(a.date));
+
+  const handleDocTypeChange = (value: DocumentType) => {
+    if (value !== DocumentType.SALE && payments.length > 0) {
+      alert('Payments are only recorded against sales. Remove the payments first.');
+      return;
+    }
+    setDocType(value);
+    if (!DOCUMENT_TYPES[value].referencesOriginal) setOriginalInvoiceId(undefined);
+  };
+
+  // A return is for the original's party, and usually for (some of) its items
+  const handleOriginalChange = (value: string) => {
+    const sale = allInvoices.find(inv => inv.id === value);
+    setOriginalInvoiceId(sale?.id);
+    if (!sale) return;
+    if (sale.partyId) setPartyId(sale.partyId);
+    const blank = items.every(item => !item.name.trim() && !item.qty);
+    if (blank && confirm(`Copy the items of ${documentService.displayName(sale)}? Remove or reduce whatever was not returned.`)) {
+      recordEdit('Copy items from original');
+      setPricingProfileId(sale.pricingProfileId);
+      setPricingProfileVersion(sale.pricingProfileVersion);
+      setItems(sale.items.filter(item => item.name.trim()).map(item => ({ ...item, id: generateId() })));
+    }
+  };
+
+  // --- Calculations ---
+
+  const calculateRow = (item: InvoiceItem): InvoiceItem => pricingService.calculateRow(item, pricingRules, taxInclusive);
+
+  // Switching profile (or moving to its latest version) reprices every row
+  const applyPricingProfile = (profileId: string) => {
+    const profile = profiles.find(p => p.id === profileId);
+    if (!profile) return;
+    const version = pricingService.getCurrentVersion(profile);
+    recordEdit('Reprice items');
+    setPricingProfileId(profile.id);
+    setPricingProfileVersion(version.version);
+    setItems(items.map(item => pricingService.calculateRow(item, version, taxInclusive)));
+  };
+
+  // The same rates either go on top of the prices or are taken out of them
+  const handleTaxInclusiveChange = (inclusive: boolean) => {
+    recordEdit(inclusive ? 'Prices include tax' : 'Prices exclude tax');
+    setTaxInclusive(inclusive);
+    setItems(items.map(item => pricingService.calculateRow(item, pricingRules, inclusive)));
   };
 
   const updateItem = (index: number, field: keyof InvoiceItem, value: any) => {
+    recordEdit('Edit item', `item:${items[index].id}:${field}`);
     const newItems = [...items];
     const currentItem = { ...newItems[index], [field]: value };
+    // A retyped name no longer refers to the catalog product it was picked from, nor its scheme
+    if (field === 'name') {
+      currentItem.productId = undefined;
+      currentItem.scheme = undefined;
+    }
+    if (schemeService.overrides(currentItem, field)) currentItem.scheme = undefined;
+    // A batch already on the books brings its expiry along
+    if (field === 'batch' && value) {
+      const product = findProduct(currentItem);
+      const known = product && batchLevels.find(level =>
+        level.product.id === product.id && level.batch.toUpperCase() === value.trim().toUpperCase()
+      );
+      if (known?.expiry) currentItem.expiry = known.expiry;
+    }
     
     // Recalculate logic if relevant fields change
-    if (['rate', 'qty', 'discount'].includes(field)) {
+    if (['rate', 'qty', 'bonusQty', 'discount', 'company', 'taxRate', 'furtherTaxRate', 'name'].includes(field)) {
         newItems[index] = calculateRow(currentItem);
     } else {
         newItems[index] = currentItem;
@@ -104,29 +479,62 @@ export const InvoiceEditor: React.FC<InvoiceEditorProps> = ({ user, existingInvo
     setItems(newItems);
   };
 
+  // Picking a catalog product fills the row and prices it. When selling, the batch that
+  // expires first is suggested if the shop wants that.
+  const selectProduct = (index: number, product: Product) => {
+    recordEdit('Pick product');
+    const newItems = [...items];
+    const suggested = showBatches && batchSettings.suggestFefo && takesStock
+      ? batchService.suggest(batchLevels, product.id, invoiceDate)
+      : undefined;
+    newItems[index] = calculateRow({
+      ...newItems[index],
+      productId: product.id,
+      name: product.name,
+      company: product.company,
+      rate: product.defaultRate,
+      ...taxService.ratesFor(taxSettings, product, party),
+      batch: suggested?.batch,
+      expiry: suggested?.expiry,
+      scheme: product.scheme,
+    });
+    setItems(newItems);
+    document.getElementById(`cell-${index}-qty`)?.focus();
+  };
+
+  const removeScheme = (index: number) => {
+    recordEdit('Remove scheme');
+    const newItems = [...items];
+    newItems[index] = calculateRow(schemeService.remove(newItems[index]));
+    setItems(newItems);
+  };
+
   const addNewRow = () => {
-    const newItem: InvoiceItem = {
-      id: generateId(),
-      name: '',
-      qty: 0,
-      rate: 0,
-      tp: 0,
-      discount: 0,
-      totalPerPiece: 0,
-      totalAmount: 0
-    };
-    setItems(prev => [...prev, newItem]);
+    recordEdit('Add row');
+    setItems([...items, newItem()]);
   };
 
   const deleteRow = (index: number) => {
     if (items.length > 1) {
+      recordEdit('Delete row');
       const newItems = [...items];
       newItems.splice(index, 1);
       setItems(newItems);
     }
   };
 
+  // Deletes the selection, or just this row when it isn't selected. One empty row always stays.
+  const deleteRows = (index: number) => {
+    const ids = selectedIds.includes(items[index].id) ? selectedIds : [items[index].id];
+    const kept = items.filter(item => !ids.includes(item.id));
+    recordEdit(ids.length > 1 ? `Delete ${ids.length} rows` : 'Delete row');
+    setItems(kept.length > 0 ? kept : [newItem()]);
+    setSelectedIds([]);
+    return Math.min(index, Math.max(0, kept.length - 1));
+  };
+
   const duplicateRow = (index: number) => {
+    recordEdit('Duplicate row');
     const itemToCopy = items[index];
     const newItem = { ...itemToCopy, id: generateId() };
     const newItems = [...items];
@@ -134,154 +542,340 @@ export const InvoiceEditor: React.FC<InvoiceEditorProps> = ({ user, existingInvo
     setItems(newItems);
   };
 
+  // --- Selection ---
+  const selectRow = (e: React.MouseEvent, index: number) => {
+    const id = items[index].id;
+    if (e.shiftKey && selectionAnchor.current) {
+      setSelectedIds(gridService.rangeIds(items, selectionAnchor.current, id));
+      return;
+    }
+    selectionAnchor.current = id;
+    if (e.ctrlKey || e.metaKey) {
+      setSelectedIds(selectedIds.includes(id) ? selectedIds.filter(s => s !== id) : [...selectedIds, id]);
+    } else {
+      setSelectedIds(selectedIds.length === 1 && selectedIds[0] === id ? [] : [id]);
+    }
+  };
+
+  const fillDown = (column: GridColumn) => {
+    if (selectedIds.length < 2) return;
+    recordEdit('Fill down');
+    setItems(gridService.fillDown(items, selectedIds, column, calculateRow));
+  };
+
+  // Selected rows leave as tab-separated text, unless text inside a cell is being copied
+  const handleGridCopy = (e: React.ClipboardEvent) => {
+    if (selectedIds.length === 0) return;
+    const target = e.target as HTMLInputElement;
+    if (typeof target.selectionStart === 'number' && target.selectionStart !== target.selectionEnd) return;
+    e.preventDefault();
+    e.clipboardData.setData('text/plain', gridService.toTsv(items.filter(item => selectedIds.includes(item.id))));
+  };
+
+  // --- Drag to reorder ---
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null && dragIndex !== index) {
+      const draggedId = items[dragIndex].id;
+      const ids = selectedIds.includes(draggedId) ? selectedIds : [draggedId];
+      const moved = gridService.moveRows(items, ids, items[index].id, dragIndex < index);
+      if (moved !== items) {
+        recordEdit(ids.length > 1 ? `Move ${ids.length} rows` : 'Move row');
+        setItems(moved);
+      }
+    }
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  // --- Import ---
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setImportRows({ rows: await spreadsheetService.readFile(file), source: file.name });
+    } catch (err) {
+      alert(`Could not read ${file.name}: ${(err as Error).message}`);
+    }
+  };
+
+  // A block of cells pasted anywhere in the grid goes through the same import preview
+  const handleGridPaste = (e: React.ClipboardEvent) => {
+    const text = e.clipboardData.getData('text/plain');
+    if (!spreadsheetService.isCellBlock(text)) return;
+    e.preventDefault();
+    const lastSelected = items.filter(item => selectedIds.includes(item.id)).pop();
+    setImportRows({ rows: spreadsheetService.parseClipboard(text), source: 'pasted cells', insertAfter: lastSelected?.id });
+  };
+
+  // Imported rows replace the empty rows at the end of the table, or go after the
+  // selected rows when pasting over a selection
+  const appendImportedItems = (rows: InvoiceItem[]) => {
+    const imported = rows.map(item => {
+      const product = products.find(p => p.id === item.productId);
+      return calculateRow({ ...item, ...taxService.ratesFor(taxSettings, product, party), scheme: product?.scheme });
+    });
+    const after = items.findIndex(item => item.id === importRows?.insertAfter);
+    if (after >= 0) {
+      recordEdit('Paste rows');
+      setItems([...items.slice(0, after + 1), ...imported, ...items.slice(after + 1)]);
+      setImportRows(null);
+      return;
+    }
+    const kept = [...items];
+    while (kept.length > 0 && !kept[kept.length - 1].name.trim() && !kept[kept.length - 1].qty && !kept[kept.length - 1].rate) {
+      kept.pop();
+    }
+    recordEdit('Import items');
+    setItems([...kept, ...imported]);
+    setImportRows(null);
+  };
+
   // --- Payment Logic ---
   const addPaymentRow = () => {
-    setPayments(prev => [...prev, { id: generateId(), narration: '', amount: 0 }]);
+    recordEdit('Add payment');
+    setPayments([...payments, paymentService.newPaymentRow()]);
   };
 
   const updatePayment = (index: number, field: keyof PaymentRow, value: any) => {
+    recordEdit('Edit payment', `payment:${payments[index].id}:${field}`);
     const newPayments = [...payments];
     newPayments[index] = { ...newPayments[index], [field]: value };
     setPayments(newPayments);
   };
 
   const deletePayment = (index: number) => {
+    recordEdit('Delete payment');
     const newPayments = [...payments];
     newPayments.splice(index, 1);
     setPayments(newPayments);
   };
 
   // --- Totals ---
-  const grandTotal = items.reduce((sum, item) => sum + item.totalAmount, 0);
-  const totalPaid = payments.reduce((sum, p) => sum + Number(p.amount), 0);
-  const remainingBalance = grandTotal - totalPaid;
+  const taxSummary = taxService.summarize(items, taxInclusive, pricingService.calculateTotal(items, pricingRules));
+  const grandTotal = taxSummary.total;
+  const totalPaid = moneyService.sum(
+    payments.filter(p => p.chequeStatus !== ChequeStatus.BOUNCED).map(p => p.amount)
+  );
+  // Returns against this sale come off what's due. Other documents are not collected on.
+  const returned = isSale ? documentService.getReturned(allInvoices, invoiceId) : 0;
+  const remainingBalance = isSale ? moneyService.subtract(grandTotal, moneyService.sum([totalPaid, returned])) : 0;
+
+  const statusInputs = { items, totalAmount: grandTotal, remainingBalance, dueDate, statusOverride, statusLog };
+  const derivedStatus = statusService.derive(statusInputs);
+  const status = statusService.getStatus(statusInputs);
+
+  // Manual overrides need a reason and are logged on the invoice
+  const handleStatusChange = (value: string) => {
+    const next = value === 'auto' ? null : (value as InvoiceStatus);
+    const reason = prompt(next ? `Reason for marking this invoice "${next}"` : 'Reason for going back to the automatic status');
+    if (!reason || !reason.trim()) return;
+    const updated = statusService.applyOverride(statusInputs, next, reason.trim(), user.username);
+    setStatusOverride(updated.statusOverride);
+    setStatusLog(updated.statusLog || []);
+  };
 
   // --- Shortcuts & Navigation ---
-  const handleKeyDown = (e: React.KeyboardEvent, index: number, field?: string) => {
-    // Ctrl + D: Duplicate
-    if (e.ctrlKey && e.key === 'd') {
-      e.preventDefault();
-      duplicateRow(index);
+  useEffect(() => {
+    if (!pendingFocus.current) return;
+    const { row, column } = pendingFocus.current;
+    pendingFocus.current = null;
+    document.getElementById(gridService.cellId(row, column))?.focus();
+  });
+
+  const focusCell = (row: number, column: GridColumn) => {
+    if (row >= items.length) {
+      addNewRow();
+      pendingFocus.current = { row, column };
+      return;
     }
+    document.getElementById(gridService.cellId(row, column))?.focus();
+  };
 
-    // Arrows
-    if (['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight'].includes(e.key) && field) {
-      // Basic grid navigation
-      const cols = ['name', 'qty', 'rate', 'tp', 'discount', 'totalPerPiece', 'totalAmount'];
-      const colIndex = cols.indexOf(field);
-      
-      let nextRow = index;
-      let nextCol = colIndex;
-
-      if (e.key === 'ArrowUp') nextRow = Math.max(0, index - 1);
-      if (e.key === 'ArrowDown') nextRow = Math.min(items.length - 1, index + 1);
-      if (e.key === 'ArrowLeft') nextCol = Math.max(0, colIndex - 1);
-      if (e.key === 'ArrowRight') nextCol = Math.min(cols.length - 1, colIndex + 1);
-
-      // We skip TP, TotalPerPiece, TotalAmount in manual navigation if strictly inputs are desired, 
-      // but users might want to copy from calculated fields. Let's allow focus on all inputs.
-      // However, calculated fields should probably be read-only inputs to allow focus but not edit.
-      
-      const elementId = `cell-${nextRow}-${cols[nextCol]}`;
-      const el = document.getElementById(elementId);
-      if (el) el.focus();
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, index: number, column: GridColumn) => {
+    const mod = e.ctrlKey || e.metaKey;
+    const key = e.key.toLowerCase();
+
+    if (mod && e.key === 'Enter') {
+      e.preventDefault();
+      handleSave();
+    } else if (mod && e.key === 'Delete') {
+      e.preventDefault();
+      pendingFocus.current = { row: deleteRows(index), column };
+    } else if (mod && e.shiftKey && key === 'd') {
+      e.preventDefault();
+      fillDown(column);
+    } else if (mod && key === 'd') {
+      e.preventDefault();
+      duplicateRow(index);
+    } else if (e.key === 'Escape' && selectedIds.length > 0) {
+      setSelectedIds([]);
+    } else if (e.shiftKey && (e.key === 'ArrowUp' || e.key === 'ArrowDown')) {
+      // Extend the selection from where it started
+      e.preventDefault();
+      const next = e.key === 'ArrowUp' ? Math.max(0, index - 1) : Math.min(items.length - 1, index + 1);
+      if (!selectionAnchor.current || !selectedIds.includes(items[index].id)) selectionAnchor.current = items[index].id;
+      setSelectedIds(gridService.rangeIds(items, selectionAnchor.current, items[next].id));
+      focusCell(next, column);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (e.shiftKey) focusCell(Math.max(0, index - 1), column);
+      else focusCell(index + 1, column);
+    } else if (e.key === 'Tab') {
+      const next = gridService.nextTabStop({ row: index, column }, e.shiftKey, items.length, gridColumns);
+      if (!next) return; // Let Shift+Tab leave the grid
+      e.preventDefault();
+      focusCell(next.row, next.column);
+    } else if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+      e.preventDefault();
+      focusCell(e.key === 'ArrowUp' ? Math.max(0, index - 1) : Math.min(items.length - 1, index + 1), column);
+    } else if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+      // Inside text, the arrows move the caret until it reaches the edge
+      const input = e.currentTarget;
+      const caret = typeof input.selectionStart === 'number' ? input.selectionStart : null;
+      if (caret !== null && input.selectionStart !== input.selectionEnd) return;
+      if (caret !== null && (e.key === 'ArrowLeft' ? caret > 0 : caret < input.value.length)) return;
+      const col = gridColumns.indexOf(column) + (e.key === 'ArrowLeft' ? -1 : 1);
+      if (col < 0 || col >= gridColumns.length) return;
+      e.preventDefault();
+      focusCell(index, gridColumns[col]);
     }
   };
 
   // --- Persistence ---
+  // The invoice as it stands in the editor
+  const buildInvoice = (): Invoice => ({
+    id: invoiceId,
+    docType,
+    number: docNumber,
+    originalInvoiceId,
+    name: invoiceName,
+    partyId,
+    date: invoiceDate,
+    dueDate,
+    items,
+    status,
+    statusOverride,
+    statusLog,
+    totalAmount: grandTotal,
+    remainingBalance: remainingBalance,
+    createdAt: createdAt ?? Date.now(),
+    pricingProfileId,
+    pricingProfileVersion,
+    taxInclusive: taxInclusive || undefined,
+  });
+
   const handleSave = async () => {
-    if (!invoiceName) {
-      alert("Please enter an Invoice Name");
+    if (savingRef.current) return;
+    if (docType === DocumentType.SALES_RETURN && !original) {
+      alert('Pick the invoice this return is against');
       return;
     }
+    if (original) {
+      const otherReturns = documentService.getReturned(allInvoices.filter(inv => inv.id !== invoiceId), original.id);
+      const returnedTotal = moneyService.sum([otherReturns, grandTotal]);
+      if (returnedTotal > original.totalAmount) {
+        alert(`Returns against ${documentService.displayName(original)} would come to Rs. ${moneyService.format(returnedTotal)}, more than its total of Rs. ${moneyService.format(original.totalAmount)}`);
+        return;
+      }
+    }
+    if (shortfalls.length > 0) {
+      const lines = shortfalls.map(s => `${s.name}: ${s.requested} on this ${typeInfo.label.toLowerCase()}, ${s.available} in stock`);
+      if (!confirm(`Not enough stock for:\n${lines.join('\n')}\n\nSave anyway?`)) return;
+    }
+    if (takesStock && expiredItems.length > 0) {
+      if (!confirm(`Past their expiry:\n${expiredItems.map(describeBatch).join('\n')}\n\nSave anyway?`)) return;
+    }
+    savingRef.current = true;
     setIsSaving(true);
-    
-    const invoiceData: Invoice = {
-      id: existingInvoiceId || generateId(),
-      name: invoiceName,
-      date: invoiceDate,
-      items,
-      payments,
-      status,
-      totalAmount: grandTotal,
-      remainingBalance: remainingBalance,
-      createdAt: Date.now()
-    };
 
-    storageService.saveInvoice(user.username, invoiceData);
-    
-    // Simulate slight delay for UX
-    await new Promise(r => setTimeout(r, 400));
-    setIsSaving(false);
-    alert('Invoice saved successfully!');
-  };
+    const previousOriginalId = allInvoices.find(inv => inv.id === invoiceId)?.originalInvoiceId;
+    let invoiceData: Invoice;
+    try {
+      // The number is taken on first save, as the invoice is written
+      invoiceData = await invoiceService.saveInvoice(user.shopId, buildInvoice());
+      setCreatedAt(invoiceData.createdAt);
+      setDocNumber(invoiceData.number);
+      setInvoiceName(invoiceData.name);
+      // Members who can't touch payments leave them as they are
+      if (isSale && canEditPayments) await paymentService.saveInvoicePayments(user.shopId, invoiceData, payments);
+      else if (isSale) await paymentService.refreshInvoiceBalances(user.shopId, [invoiceId]);
+      // A return changes what's due on the sale it's against
+      const originals = [originalInvoiceId, previousOriginalId].filter((id): id is string => !!id);
+      if (originals.length > 0) await paymentService.refreshInvoiceBalances(user.shopId, originals);
 
-  // --- PDF Export ---
-  const handleExportPDF = () => {
-    const doc = new jsPDF();
+      await draftService.discardDraft(user, invoiceId);
+      setAllInvoices(await storageService.getInvoices(user.shopId));
+      setSavedFingerprint(fingerprint({ ...editorFields(), name: invoiceData.name }));
+      setIsNew(false);
+      setDraftSavedAt(null);
 
-    // Header
-    doc.setFontSize(22);
-    doc.setTextColor(40, 40, 40);
-    doc.text('Hisaab Kitaab', 14, 20);
-    
-    doc.setFontSize(12);
-    doc.text(`Invoice: ${invoiceName}`, 14, 30);
-    doc.text(`Date: ${new Date(invoiceDate).toLocaleDateString()}`, 14, 36);
-    doc.text(`Status: ${status}`, 14, 42);
-
-    // Items Table
-    const tableHead = [['Item Name', 'Qty', 'Rate', 'T.P', 'Disc %', 'Unit Total', 'Total Amt']];
-    const tableBody = items.map(item => [
-      item.name,
-      item.qty.toString(),
-      item.rate.toFixed(2),
-      item.tp.toFixed(2),
-      item.discount === 0 ? '-' : `${item.discount}%`,
-      item.totalPerPiece.toFixed(2),
-      item.totalAmount.toFixed(2)
-    ]);
-
-    autoTable(doc, {
-      head: tableHead,
-      body: tableBody,
-      startY: 50,
-      theme: 'grid',
-      headStyles: { fillColor: [30, 41, 59] }, // Slate 800
-      styles: { fontSize: 9 }
-    });
+      // Simulate slight delay for UX
+      await new Promise(r => setTimeout(r, 400));
+    } catch (err) {
+      alert((err as Error).message);
+      return;
+    } finally {
+      savingRef.current = false;
+      setIsSaving(false);
+    }
+    alert(`${typeInfo.label} ${invoiceData.number} saved successfully!`);
+  };
 
-    // Totals logic
-    let finalY = (doc as any).lastAutoTable.finalY + 10;
-    
-    doc.setFontSize(10);
-    doc.text(`Total Amount: Rs. ${grandTotal.toLocaleString()}`, 140, finalY);
-    finalY += 6;
-
-    // Payments
-    if (payments.length > 0) {
-      doc.text('Payments:', 14, finalY);
-      finalY += 5;
-      
-      const payHead = [['Narration', 'Amount']];
-      const payBody = payments.map(p => [p.narration, `Rs. ${p.amount}`]);
-      
-      autoTable(doc, {
-        head: payHead,
-        body: payBody,
-        startY: finalY,
-        theme: 'plain',
-        margin: { left: 14, right: 100 },
-      });
-      
-      finalY = (doc as any).lastAutoTable.finalY + 10;
+  const handleDelete = async () => {
+    if (!confirm(`Delete ${typeInfo.label.toLowerCase()} ${docNumber || invoiceName}? This can't be undone.`)) return;
+    try {
+      await invoiceService.deleteInvoice(user.shopId, invoiceId);
+      onBack();
+    } catch (err) {
+      alert((err as Error).message);
     }
+  };
+
+  // Loads an earlier version from the history. Payments and the status stay as they are;
+  // nothing is kept until the invoice is saved.
+  const handleRestoreVersion = (version: Invoice) => {
+    const when = version.updatedAt || version.createdAt;
+    if (!confirm(`Load the version from ${new Date(when).toLocaleString()} into the editor? Save to keep it.`)) return;
+    recordEdit('Restore version');
+    applyFields({
+      ...editorFields(),
+      originalInvoiceId: version.originalInvoiceId,
+      name: version.name,
+      partyId: version.partyId,
+      date: version.date,
+      dueDate: version.dueDate,
+      items: version.items,
+      pricingProfileId: version.pricingProfileId,
+      pricingProfileVersion: version.pricingProfileVersion,
+      taxInclusive: version.taxInclusive,
+    });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
 
-    doc.setFontSize(12);
-    doc.setTextColor(0, 0, 0);
-    doc.text(`Balance Due: Rs. ${remainingBalance.toLocaleString()}`, 140, finalY);
+  // --- Spreadsheet Export ---
+  const handleExportSheet = (format: ExportFormat) => {
+    const table = exportService.invoiceTable(buildInvoice());
+    exportService.download(table, format, exportService.fileName(invoiceName || docNumber || 'invoice', format));
+  };
 
-    doc.save(`${invoiceName.replace(/\s+/g, '_')}_${invoiceDate}.pdf`);
+  // --- PDF Export ---
+  const handleExportPDF = () => {
+    const invoice = buildInvoice();
+    const bytes = pdfService.render(invoice, {
+      template: pdfTemplate,
+      business,
+      party: parties.find(p => p.id === partyId),
+      payments: isSale ? payments : [],
+      original,
+      returned,
+    });
+    const url = URL.createObjectURL(new Blob([bytes], { type: 'application/pdf' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = pdfService.fileName(invoice, pdfTemplate);
+    link.click();
+    URL.revokeObjectURL(url);
   };
 
   return (
@@ -290,41 +884,188 @@ export const InvoiceEditor: React.FC<InvoiceEditorProps> = ({ user, existingInvo
       <div className="sticky top-0 z-20 bg-slate-800 border-b border-slate-700 p-4 shadow-md">
         <div className="max-w-7xl mx-auto flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
           <div className="flex items-center gap-3 w-full md:w-auto">
-            <Button variant="secondary" size="sm" onClick={onBack}>
+            <Button variant="secondary" size="sm" onClick={handleBack}>
               <ArrowLeft className="w-4 h-4" />
             </Button>
             <div className="flex-1 md:flex-none space-y-2 md:space-y-0 md:flex md:gap-4">
+              <div className="flex items-center gap-2">
+                <select
+                  value={docType}
+                  onChange={(e) => handleDocTypeChange(e.target.value as DocumentType)}
+                  disabled={!!docNumber}
+                  className="bg-slate-700 border border-slate-600 rounded px-3 py-2 text-white focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:opacity-70"
+                  title={docNumber ? 'The type is fixed once a number is assigned' : 'Document type'}
+                >
+                  {Object.values(DocumentType).map(type => (
+                    <option key={type} value={type}>{DOCUMENT_TYPES[type].label}</option>
+                  ))}
+                </select>
+                {docNumber && (
+                  <span className="px-2 py-1 rounded bg-slate-900 border border-slate-600 font-mono text-sm text-slate-200 whitespace-nowrap" title="Document number">
+                    {docNumber}
+                  </span>
+                )}
+              </div>
               <input 
                 type="text" 
-                placeholder="Invoice Name"
+                placeholder={docNumber ? 'Name' : 'Name (optional)'}
                 className="bg-slate-700 border border-slate-600 rounded px-3 py-2 text-white placeholder-slate-400 focus:outline-none focus:ring-1 focus:ring-blue-500 w-full md:w-64"
                 value={invoiceName}
                 onChange={(e) => setInvoiceName(e.target.value)}
               />
+              <select
+                value={partyId || ''}
+                onChange={(e) => handlePartyChange(e.target.value)}
+                className="bg-slate-700 border border-slate-600 rounded px-3 py-2 text-white focus:outline-none focus:ring-1 focus:ring-blue-500 w-full md:w-48"
+                title="Party"
+              >
+                <option value="">No party</option>
+                {parties.map(p => (
+                  <option key={p.id} value={p.id}>{p.name}</option>
+                ))}
+                <option value="__new">+ New party...</option>
+              </select>
+              {typeInfo.referencesOriginal && (
+                <select
+                  value={originalInvoiceId || ''}
+                  onChange={(e) => handleOriginalChange(e.target.value)}
+                  className="bg-slate-700 border border-slate-600 rounded px-3 py-2 text-white focus:outline-none focus:ring-1 focus:ring-blue-500 w-full md:w-56"
+                  title="Against invoice"
+                >
+                  <option value="">{docType === DocumentType.SALES_RETURN ? 'Against invoice...' : 'Not against an invoice'}</option>
+                  {returnableSales.map(inv => (
+                    <option key={inv.id} value={inv.id}>
+                      {documentService.displayName(inv)} · {inv.date} · Rs. {moneyService.format(inv.totalAmount)}
+                    </option>
+                  ))}
+                </select>
+              )}
               <input 
                 type="date" 
                 className="bg-slate-700 border border-slate-600 rounded px-3 py-2 text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
                 value={invoiceDate}
-                onChange={(e) => setInvoiceDate(e.target.value)}
+                onChange={(e) => handleDateChange(e.target.value)}
               />
-               <select 
-                value={status} 
-                onChange={(e) => setStatus(e.target.value as InvoiceStatus)}
+              <input
+                type="date"
                 className="bg-slate-700 border border-slate-600 rounded px-3 py-2 text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+                value={dueDate || ''}
+                onChange={(e) => setDueDate(e.target.value || undefined)}
+                title="Due date"
+              />
+              {isSale && (
+                <select
+                  value={statusOverride ? statusOverride.status : 'auto'}
+                  onChange={(e) => handleStatusChange(e.target.value)}
+                  disabled={!canSetStatus}
+                  className="bg-slate-700 border border-slate-600 rounded px-3 py-2 text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  title="Status"
+                >
+                  <option value="auto">Auto ({derivedStatus})</option>
+                  {Object.values(InvoiceStatus).map(s => (
+                    <option key={s} value={s}>Mark {s}</option>
+                  ))}
+                </select>
+              )}
+              <select
+                value={pricingProfileId || ''}
+                onChange={(e) => applyPricingProfile(e.target.value)}
+                className="bg-slate-700 border border-slate-600 rounded px-3 py-2 text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+                title="Pricing profile"
               >
-                <option value={InvoiceStatus.PENDING}>Pending</option>
-                <option value={InvoiceStatus.PAID}>Paid</option>
+                {!pricingProfileId && <option value="">Legacy pricing</option>}
+                {profiles
+                  .filter(p => !p.archived || p.id === pricingProfileId)
+                  .map(p => (
+                    <option key={p.id} value={p.id}>{p.name}</option>
+                  ))}
               </select>
+              {pricingProfileId && latestVersion !== undefined && pricingProfileVersion !== latestVersion && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-10"
+                  onClick={() => applyPricingProfile(pricingProfileId)}
+                  title={`Priced with v${pricingProfileVersion}. Reprice with v${latestVersion}.`}
+                >
+                  <RefreshCw className="w-4 h-4 mr-2" /> Reprice v{latestVersion}
+                </Button>
+              )}
             </div>
           </div>
           
-          <div className="flex gap-2 w-full md:w-auto justify-end">
-            <Button variant="success" onClick={handleSave} disabled={isSaving}>
+          <div className="flex gap-2 w-full md:w-auto justify-end items-center">
+            {isDirty && (
+              <span className="text-xs text-amber-400 whitespace-nowrap" title="Unsaved changes are autosaved as a draft">
+                Unsaved{draftSavedAt ? ` · draft ${new Date(draftSavedAt).toLocaleTimeString()}` : ''}
+              </span>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-10"
+              onClick={handleUndo}
+              disabled={history.past.length === 0}
+              title={history.past.length ? `Undo ${history.past[history.past.length - 1].label} (Ctrl+Z)` : 'Nothing to undo'}
+            >
+              <Undo2 className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-10"
+              onClick={handleRedo}
+              disabled={history.future.length === 0}
+              title={history.future.length ? `Redo ${history.future[0].label} (Ctrl+Y)` : 'Nothing to redo'}
+            >
+              <Redo2 className="w-4 h-4" />
+            </Button>
+            {!isNew && (
+              <Button
+                variant={showHistory ? 'primary' : 'outline'}
+                size="sm"
+                className="h-10"
+                onClick={() => setShowHistory(!showHistory)}
+                title="History of changes"
+              >
+                <History className="w-4 h-4" />
+              </Button>
+            )}
+            <Button variant="outline" size="sm" className="h-10" onClick={() => setShowShortcuts(true)} title="Keyboard shortcuts (Ctrl+/)">
+              <Keyboard className="w-4 h-4" />
+            </Button>
+            <Button variant="success" onClick={handleSave} disabled={isSaving} title="Save (Ctrl+Enter)">
               <Save className="w-4 h-4 mr-2" /> {isSaving ? 'Saving...' : 'Save'}
             </Button>
+            {!isNew && canDelete && (
+              <Button variant="danger" onClick={handleDelete} title={`Delete this ${typeInfo.label.toLowerCase()}`}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            )}
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".csv,.xlsx,.xls,.ods,text/csv"
+              className="hidden"
+              onChange={handleImportFile}
+            />
+            <Button variant="outline" onClick={() => importInputRef.current?.click()} title="Import items from CSV or Excel">
+              <FileSpreadsheet className="w-4 h-4 mr-2" /> Import
+            </Button>
+            <select
+              className="bg-slate-900 border border-slate-600 rounded-md px-2 text-sm text-slate-300 focus:outline-none focus:border-blue-500"
+              value={pdfTemplate}
+              onChange={(e) => setPdfTemplate(e.target.value as PdfTemplate)}
+              title="PDF template"
+            >
+              {Object.values(PdfTemplate).map(template => (
+                <option key={template} value={template}>{PDF_TEMPLATES[template].label}</option>
+              ))}
+            </select>
             <Button variant="outline" onClick={handleExportPDF}>
               <Download className="w-4 h-4 mr-2" /> PDF
             </Button>
+            <ExportButtons size="md" onExport={handleExportSheet} />
           </div>
         </div>
       </div>
@@ -335,47 +1076,215 @@ export const InvoiceEditor: React.FC<InvoiceEditorProps> = ({ user, existingInvo
           
           {/* Items Table */}
           <div className="bg-slate-800 rounded-lg border border-slate-700 overflow-hidden shadow-lg flex flex-col">
+            {selectedIds.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2 px-4 py-2 bg-blue-950/40 border-b border-blue-900 text-sm text-blue-200">
+                <span className="mr-2">{selectedIds.length} row{selectedIds.length === 1 ? '' : 's'} selected</span>
+                <Button variant="outline" size="sm" onClick={() => navigator.clipboard?.writeText(gridService.toTsv(items.filter(item => selectedIds.includes(item.id))))}>
+                  <ClipboardCopy className="w-4 h-4 mr-2" /> Copy
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => deleteRows(items.findIndex(item => item.id === selectedIds[0]))}>
+                  <Trash2 className="w-4 h-4 mr-2" /> Delete
+                </Button>
+                {selectedIds.length > 1 && (
+                  <select
+                    className="h-8 bg-slate-900 border border-slate-600 rounded-md px-2 text-sm text-slate-300"
+                    value=""
+                    onChange={(e) => fillDown(e.target.value as GridColumn)}
+                    title="Copy the first selected row's value down"
+                  >
+                    <option value="" disabled>Fill down...</option>
+                    <option value="name">Item Name</option>
+                    <option value="company">Company</option>
+                    {showBatches && <option value="batch">Batch</option>}
+                    {showBatches && <option value="expiry">Expiry</option>}
+                    <option value="qty">Qty</option>
+                    <option value="bonusQty">Bonus</option>
+                    <option value="rate">Rate</option>
+                    <option value="discount">Disc %</option>
+                    {showTax && <option value="taxRate">Tax %</option>}
+                    {showTax && <option value="furtherTaxRate">F.Tax %</option>}
+                  </select>
+                )}
+                <button onClick={() => setSelectedIds([])} className="ml-auto text-blue-300 hover:text-white" title="Clear selection (Esc)">
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            )}
             <div className="overflow-x-auto">
-              <table className="w-full text-left border-collapse">
+              <table className="w-full text-left border-collapse" onPaste={handleGridPaste} onCopy={handleGridCopy}>
                 <thead>
                   <tr className="bg-slate-700 text-slate-300 text-xs uppercase tracking-wider">
-                    <th className="p-3 w-8">#</th>
+                    <th className="p-3 w-14">#</th>
                     <th className="p-3 min-w-[200px]">Item Name</th>
+                    <th className="p-3 w-32">Company</th>
+                    {showBatches && (
+                      <>
+                        <th className="p-3 w-28">Batch</th>
+                        <th className="p-3 w-36">Expiry</th>
+                      </>
+                    )}
                     <th className="p-3 w-20">Qty</th>
+                    <th className="p-3 w-20" title="Free pieces, not charged for">Bonus</th>
                     <th className="p-3 w-24">Rate</th>
-                    <th className="p-3 w-24">T.P (-14.5%)</th>
+                    <th className="p-3 w-24">T.P (-{pricingRules.tpPercent}%)</th>
                     <th className="p-3 w-24">Disc %</th>
                     <th className="p-3 w-28">Unit Total</th>
+                    {showEffectiveRate && <th className="p-3 w-24" title="Row total over paid and bonus pieces">Eff. Rate</th>}
+                    {showTax && (
+                      <>
+                        <th className="p-3 w-20">Tax %</th>
+                        <th className="p-3 w-20" title="Further tax, for buyers without an STRN">F.Tax %</th>
+                        <th className="p-3 w-28 text-right">Tax</th>
+                      </>
+                    )}
                     <th className="p-3 w-32 text-right">Row Total</th>
                     <th className="p-3 w-10"></th>
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-slate-700">
                   {items.map((item, index) => (
-                    <tr key={item.id} className="hover:bg-slate-750 group">
-                      <td className="p-3 text-slate-500 text-sm text-center">{index + 1}</td>
+                    <tr
+                      key={item.id}
+                      className={`group ${selectedIds.includes(item.id) ? 'bg-blue-950/40' : 'hover:bg-slate-750'} ${
+                        dropIndex === index && dragIndex !== null && dragIndex !== index
+                          ? (dragIndex < index ? 'border-b-2 border-b-blue-500' : 'border-t-2 border-t-blue-500')
+                          : ''
+                      } ${dragIndex === index ? 'opacity-50' : ''}`}
+                      onDragOver={(e) => {
+                        if (dragIndex === null) return;
+                        e.preventDefault();
+                        setDropIndex(index);
+                      }}
+                      onDrop={(e) => {
+                        e.preventDefault();
+                        handleDrop(index);
+                      }}
+                    >
+                      <td className="p-2 text-slate-500 text-sm">
+                        <div className="flex items-center gap-1">
+                          <span
+                            draggable
+                            onDragStart={(e) => {
+                              e.dataTransfer.setData('text/plain', item.id);
+                              e.dataTransfer.effectAllowed = 'move';
+                              setDragIndex(index);
+                            }}
+                            onDragEnd={() => {
+                              setDragIndex(null);
+                              setDropIndex(null);
+                            }}
+                            className="cursor-grab text-slate-600 hover:text-slate-300"
+                            title="Drag to reorder"
+                          >
+                            <GripVertical className="w-4 h-4" />
+                          </span>
+                          <button
+                            onClick={(e) => selectRow(e, index)}
+                            className={`w-6 text-center rounded ${selectedIds.includes(item.id) ? 'bg-blue-600 text-white' : 'hover:text-white'}`}
+                            title="Select row (Shift/Ctrl+Click for more)"
+                            tabIndex={-1}
+                          >
+                            {index + 1}
+                          </button>
+                        </div>
+                      </td>
                       <td className="p-2">
-                        <input
+                        <ProductAutocomplete
                           id={`cell-${index}-name`}
-                          type="text"
                           className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1.5 focus:border-blue-500 focus:outline-none text-white text-sm"
                           value={item.name}
-                          onChange={(e) => updateItem(index, 'name', e.target.value)}
+                          products={products}
+                          onChange={(value) => updateItem(index, 'name', value)}
+                          onSelect={(product) => selectProduct(index, product)}
                           onKeyDown={(e) => handleKeyDown(e, index, 'name')}
                           placeholder="Item Name"
                         />
+                        {item.scheme && (
+                          <span className="mt-1 inline-flex items-center gap-1 text-xs text-green-400" title="Scheme from the catalog">
+                            <Tag className="w-3 h-3" /> {schemeService.label(item.scheme)}
+                            <button onClick={() => removeScheme(index)} className="text-slate-500 hover:text-red-400" title="Remove scheme" tabIndex={-1}>
+                              <X className="w-3 h-3" />
+                            </button>
+                          </span>
+                        )}
                       </td>
+                      <td className="p-2">
+                        <input
+                          id={`cell-${index}-company`}
+                          type="text"
+                          className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1.5 focus:border-blue-500 focus:outline-none text-white text-sm"
+                          value={item.company || ''}
+                          onChange={(e) => updateItem(index, 'company', e.target.value)}
+                          onKeyDown={(e) => handleKeyDown(e, index, 'company')}
+                          placeholder="Company"
+                        />
+                      </td>
+                      {showBatches && (
+                        <>
+                          <td className="p-2">
+                            <input
+                              id={`cell-${index}-batch`}
+                              type="text"
+                              list={`batches-${item.id}`}
+                              className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1.5 focus:border-blue-500 focus:outline-none text-white text-sm"
+                              value={item.batch || ''}
+                              onChange={(e) => updateItem(index, 'batch', e.target.value || undefined)}
+                              onKeyDown={(e) => handleKeyDown(e, index, 'batch')}
+                              placeholder="Batch"
+                            />
+                            <datalist id={`batches-${item.id}`}>
+                              {batchesFor(item).map(level => (
+                                <option key={level.batch} value={level.batch}>
+                                  {[batchService.format(level.expiry), `${level.onHand} in stock`].filter(Boolean).join(' · ')}
+                                </option>
+                              ))}
+                            </datalist>
+                          </td>
+                          <td className="p-2">
+                            <input
+                              id={`cell-${index}-expiry`}
+                              type="month"
+                              className={`w-full bg-slate-900 border rounded px-2 py-1.5 focus:border-blue-500 focus:outline-none text-sm ${
+                                expiryStatus(item) === 'expired' ? 'border-red-500 text-red-400'
+                                  : expiryStatus(item) === 'near' ? 'border-amber-500 text-amber-300'
+                                  : 'border-slate-600 text-white'
+                              }`}
+                              title={
+                                expiryStatus(item) === 'expired' ? 'Expired'
+                                  : expiryStatus(item) === 'near' ? `Expires in ${batchService.daysLeft(item.expiry!, invoiceDate)} days`
+                                  : undefined
+                              }
+                              value={item.expiry || ''}
+                              onChange={(e) => updateItem(index, 'expiry', e.target.value || undefined)}
+                              onKeyDown={(e) => handleKeyDown(e, index, 'expiry')}
+                            />
+                          </td>
+                        </>
+                      )}
                       <td className="p-2">
                          <input
                           id={`cell-${index}-qty`}
                           type="number"
-                          className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1.5 focus:border-blue-500 focus:outline-none text-white text-sm text-center"
+                          className={`w-full bg-slate-900 border rounded px-2 py-1.5 focus:border-blue-500 focus:outline-none text-white text-sm text-center ${shortfallFor(item.id) ? 'border-amber-500' : 'border-slate-600'}`}
+                          title={shortfallFor(item.id) ? `Only ${shortfallFor(item.id)!.available} in stock` : undefined}
                           value={item.qty === 0 ? '' : item.qty}
                           onChange={(e) => updateItem(index, 'qty', Number(e.target.value))}
                           onKeyDown={(e) => handleKeyDown(e, index, 'qty')}
                           placeholder="0"
                         />
                       </td>
+                      <td className="p-2">
+                        <input
+                          id={`cell-${index}-bonusQty`}
+                          type="number"
+                          min="0"
+                          className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1.5 focus:border-blue-500 focus:outline-none text-green-400 text-sm text-center"
+                          value={item.bonusQty || ''}
+                          onChange={(e) => updateItem(index, 'bonusQty', Math.max(0, Math.floor(Number(e.target.value))) || undefined)}
+                          onKeyDown={(e) => handleKeyDown(e, index, 'bonusQty')}
+                          placeholder="0"
+                        />
+                      </td>
                       <td className="p-2">
                          <input
                           id={`cell-${index}-rate`}
@@ -418,12 +1327,49 @@ export const InvoiceEditor: React.FC<InvoiceEditorProps> = ({ user, existingInvo
                           tabIndex={-1}
                         />
                       </td>
+                      {showEffectiveRate && (
+                        <td className="p-2 text-center font-mono text-sm text-green-400">
+                          {item.effectiveRate !== undefined ? moneyService.format(item.effectiveRate) : ''}
+                        </td>
+                      )}
+                      {showTax && (
+                        <>
+                          <td className="p-2">
+                            <input
+                              id={`cell-${index}-taxRate`}
+                              type="number"
+                              min="0"
+                              className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1.5 focus:border-blue-500 focus:outline-none text-white text-sm text-center"
+                              value={item.taxRate || ''}
+                              onChange={(e) => updateItem(index, 'taxRate', Math.max(0, Number(e.target.value)))}
+                              onKeyDown={(e) => handleKeyDown(e, index, 'taxRate')}
+                              placeholder="0"
+                            />
+                          </td>
+                          <td className="p-2">
+                            <input
+                              id={`cell-${index}-furtherTaxRate`}
+                              type="number"
+                              min="0"
+                              className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1.5 focus:border-blue-500 focus:outline-none text-white text-sm text-center"
+                              value={item.furtherTaxRate || ''}
+                              onChange={(e) => updateItem(index, 'furtherTaxRate', Math.max(0, Number(e.target.value)))}
+                              onKeyDown={(e) => handleKeyDown(e, index, 'furtherTaxRate')}
+                              placeholder="0"
+                            />
+                          </td>
+                          <td className="p-2 text-right font-mono text-slate-300">
+                            {moneyService.format(moneyService.sum([item.salesTax || 0, item.furtherTax || 0]))}
+                          </td>
+                        </>
+                      )}
                       <td className="p-2 text-right font-mono text-blue-300">
-                        {item.totalAmount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                        {moneyService.format(item.totalAmount)}
                       </td>
                        <td className="p-2 text-center">
                         <button 
                           onClick={() => deleteRow(index)}
+                          title="Delete row (Ctrl+Delete)"
                           className="text-slate-500 hover:text-red-400 transition-colors p-1"
                           tabIndex={-1}
                         >
@@ -439,76 +1385,250 @@ export const InvoiceEditor: React.FC<InvoiceEditorProps> = ({ user, existingInvo
                <Button variant="secondary" size="sm" onClick={addNewRow} className="w-full md:w-auto">
                 <Plus className="w-4 h-4 mr-2" /> Add Item Row
               </Button>
+              <span className="hidden md:inline ml-4 text-xs text-slate-500">Enter adds a row at the end · Ctrl+/ for all shortcuts</span>
+              {shortfalls.length > 0 && (
+                <p className="mt-3 text-sm text-amber-400 flex items-center">
+                  <AlertTriangle className="w-4 h-4 mr-2 flex-shrink-0" />
+                  Not enough stock: {shortfalls.map(s => `${s.name} (${s.requested} wanted, ${s.available} in stock)`).join(', ')}
+                </p>
+              )}
+              {expiredItems.length > 0 && (
+                <p className="mt-3 text-sm text-red-400 flex items-center">
+                  <AlertTriangle className="w-4 h-4 mr-2 flex-shrink-0" />
+                  Expired: {expiredItems.map(describeBatch).join(', ')}
+                </p>
+              )}
+              {nearExpiryItems.length > 0 && (
+                <p className="mt-3 text-sm text-amber-400 flex items-center">
+                  <AlertTriangle className="w-4 h-4 mr-2 flex-shrink-0" />
+                  Expiring within {batchSettings.nearExpiryDays} days: {nearExpiryItems.map(describeBatch).join(', ')}
+                </p>
+              )}
+              {showTax && (
+                <label className="float-right flex items-center gap-2 text-sm text-slate-300 mt-1" title="Rates and row totals already include sales and further tax">
+                  <input type="checkbox" checked={taxInclusive} onChange={(e) => handleTaxInclusiveChange(e.target.checked)} />
+                  Prices include tax
+                </label>
+              )}
             </div>
           </div>
 
           {/* Totals & Payments Section */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
-            {/* Payments */}
-            <div className="bg-slate-800 rounded-lg border border-slate-700 p-6 shadow-lg">
-              <div className="flex justify-between items-center mb-4">
-                <h3 className="text-lg font-bold text-white flex items-center">
-                  <DollarSign className="w-5 h-5 mr-2 text-green-500" /> Payments
-                </h3>
+            {/* Payments, which only sales take */}
+            {isSale ? (
+              <div className="bg-slate-800 rounded-lg border border-slate-700 p-6 shadow-lg">
+                <div className="flex justify-between items-center mb-4">
+                  <h3 className="text-lg font-bold text-white flex items-center">
+                    <DollarSign className="w-5 h-5 mr-2 text-green-500" /> Payments
+                  </h3>
+                </div>
+                
+                <div className="space-y-3 mb-4">
+                  {payments.map((payment, idx) => {
+                    // Payments covering several invoices are edited on the Payments screen
+                    const isSplit = payment.paymentTotal !== 0 && payment.paymentTotal !== payment.amount;
+                    const locked = isSplit || !canEditPayments;
+                    const fieldClass = `bg-slate-900 border border-slate-600 rounded px-3 py-2 text-sm text-white focus:outline-none focus:border-blue-500 ${locked ? 'opacity-60' : ''}`;
+                    return (
+                      <div key={payment.id} className={`space-y-2 pb-3 border-b border-slate-700 last:border-0 ${payment.chequeStatus === ChequeStatus.BOUNCED ? 'line-through decoration-red-500' : ''}`}>
+                        <div className="flex gap-2 items-center">
+                          <input
+                            type="date"
+                            className={`${fieldClass} w-40`}
+                            value={payment.date}
+                            disabled={locked}
+                            onChange={(e) => updatePayment(idx, 'date', e.target.value)}
+                          />
+                          <select
+                            className={`${fieldClass} w-36`}
+                            value={payment.method}
+                            disabled={locked}
+                            onChange={(e) => updatePayment(idx, 'method', e.target.value as PaymentMethod)}
+                          >
+                            {Object.values(PaymentMethod).map(m => (
+                              <option key={m} value={m}>{m}</option>
+                            ))}
+                          </select>
+                          <input
+                            type="number"
+                            placeholder="Amount"
+                            className={`${fieldClass} w-32 text-right`}
+                            value={payment.amount === 0 ? '' : payment.amount}
+                            disabled={locked}
+                            onChange={(e) => updatePayment(idx, 'amount', moneyService.normalize(Number(e.target.value)))}
+                          />
+                          {canEditPayments && (
+                            <button onClick={() => deletePayment(idx)} className="text-slate-500 hover:text-red-500" title={isSplit ? 'Remove from this invoice' : 'Delete payment'}>
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          )}
+                        </div>
+                        <div className="flex gap-2 items-center">
+                          {payment.method !== PaymentMethod.CASH && (
+                            <input
+                              type="text"
+                              placeholder={payment.method === PaymentMethod.CHEQUE ? 'Cheque No.' : 'Reference'}
+                              className={`${fieldClass} w-40`}
+                              value={payment.reference}
+                              disabled={locked}
+                              onChange={(e) => updatePayment(idx, 'reference', e.target.value)}
+                            />
+                          )}
+                          {payment.method === PaymentMethod.CHEQUE && (
+                            <select
+                              className={`${fieldClass} w-36`}
+                              value={payment.chequeStatus || ChequeStatus.PENDING}
+                              disabled={locked}
+                              onChange={(e) => updatePayment(idx, 'chequeStatus', e.target.value as ChequeStatus)}
+                            >
+                              {Object.values(ChequeStatus).map(s => (
+                                <option key={s} value={s}>{s}</option>
+                              ))}
+                            </select>
+                          )}
+                          <input
+                            type="text"
+                            placeholder="Narration"
+                            className={`${fieldClass} flex-1`}
+                            value={payment.narration}
+                            disabled={locked}
+                            onChange={(e) => updatePayment(idx, 'narration', e.target.value)}
+                          />
+                        </div>
+                        {isSplit && (
+                          <p className="text-xs text-slate-500">
+                            Share of a Rs. {moneyService.format(payment.paymentTotal)} payment. Edit it from the Payments screen.
+                          </p>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+                
+                {canEditPayments ? (
+                  <Button variant="outline" size="sm" onClick={addPaymentRow} className="w-full border-dashed">
+                    <Plus className="w-4 h-4 mr-2" /> Add Payment
+                  </Button>
+                ) : (
+                  <p className="text-xs text-slate-500">Payments are recorded by the owner or accountant.</p>
+                )}
               </div>
-              
-              <div className="space-y-3 mb-4">
-                {payments.map((payment, idx) => (
-                  <div key={payment.id} className="flex gap-2 items-center">
-                    <input
-                      type="text"
-                      placeholder="Narration"
-                      className="flex-1 bg-slate-900 border border-slate-600 rounded px-3 py-2 text-sm text-white focus:outline-none focus:border-blue-500"
-                      value={payment.narration}
-                      onChange={(e) => updatePayment(idx, 'narration', e.target.value)}
-                    />
-                     <input
-                      type="number"
-                      placeholder="Amount"
-                      className="w-32 bg-slate-900 border border-slate-600 rounded px-3 py-2 text-sm text-white focus:outline-none focus:border-blue-500 text-right"
-                      value={payment.amount === 0 ? '' : payment.amount}
-                      onChange={(e) => updatePayment(idx, 'amount', Number(e.target.value))}
-                    />
-                    <button onClick={() => deletePayment(idx)} className="text-slate-500 hover:text-red-500">
-                      <Trash2 className="w-4 h-4" />
-                    </button>
-                  </div>
-                ))}
+            ) : (
+              <div className="bg-slate-800 rounded-lg border border-slate-700 p-6 shadow-lg text-sm text-slate-400 space-y-2">
+                <h3 className="text-lg font-bold text-white">{typeInfo.label}</h3>
+                <p>
+                  {docType === DocumentType.PURCHASE
+                    ? 'Recorded as owed to the supplier in their ledger.'
+                    : 'Reduces what the party owes. Raised against a sale, it also comes off that sale\'s balance.'}
+                </p>
+                {original && (
+                  <p>
+                    Against {documentService.displayName(original)} of {original.date}, Rs. {moneyService.format(original.totalAmount)}.
+                  </p>
+                )}
               </div>
-              
-              <Button variant="outline" size="sm" onClick={addPaymentRow} className="w-full border-dashed">
-                <Plus className="w-4 h-4 mr-2" /> Add Payment
-              </Button>
-            </div>
+            )}
 
             {/* Summary */}
             <div className="bg-slate-800 rounded-lg border border-slate-700 p-6 shadow-lg flex flex-col justify-center space-y-4">
+               {showTax && (
+                 <div className="space-y-1 text-sm text-slate-400 border-b border-slate-700 pb-3">
+                   <div className="flex justify-between">
+                     <span>Value excl. Tax:</span>
+                     <span>Rs. {moneyService.format(taxSummary.taxable)}</span>
+                   </div>
+                   {taxSummary.byRate.map(line => (
+                     <div key={`${line.kind}-${line.rate}`} className="flex justify-between">
+                       <span>{taxService.rateLabel(line)} on Rs. {moneyService.format(line.taxable)}:</span>
+                       <span>Rs. {moneyService.format(line.tax)}</span>
+                     </div>
+                   ))}
+                 </div>
+               )}
+
                <div className="flex justify-between items-center text-slate-400 text-lg">
-                 <span>Sub Total:</span>
-                 <span>Rs. {grandTotal.toLocaleString(undefined, { minimumFractionDigits: 2 })}</span>
-               </div>
-               
-               <div className="flex justify-between items-center text-green-400 text-lg">
-                 <span>Total Paid:</span>
-                 <span>- Rs. {totalPaid.toLocaleString(undefined, { minimumFractionDigits: 2 })}</span>
+                 <span>{showTax ? 'Total incl. Tax:' : 'Sub Total:'}</span>
+                 <span>Rs. {moneyService.format(grandTotal)}</span>
                </div>
                
-               <div className="h-px bg-slate-600 my-2"></div>
-               
-               <div className="flex justify-between items-center text-2xl font-bold text-white">
-                 <span>Balance Due:</span>
-                 <span className={remainingBalance > 0 ? 'text-blue-400' : 'text-green-400'}>
-                   Rs. {remainingBalance.toLocaleString(undefined, { minimumFractionDigits: 2 })}
-                 </span>
-               </div>
+               {isSale ? (
+                 <>
+                   {returned > 0 && (
+                     <div className="flex justify-between items-center text-amber-400 text-lg">
+                       <span>Returned:</span>
+                       <span>- Rs. {moneyService.format(returned)}</span>
+                     </div>
+                   )}
+
+                   <div className="flex justify-between items-center text-green-400 text-lg">
+                     <span>Total Paid:</span>
+                     <span>- Rs. {moneyService.format(totalPaid)}</span>
+                   </div>
+
+                   <div className="h-px bg-slate-600 my-2"></div>
+
+                   <div className="flex justify-between items-center text-2xl font-bold text-white">
+                     <span>Balance Due:</span>
+                     <span className={remainingBalance > 0 ? 'text-blue-400' : 'text-green-400'}>
+                       Rs. {moneyService.format(remainingBalance)}
+                     </span>
+                   </div>
+
+                   <div className="flex justify-between items-center text-sm text-slate-400">
+                     <span>Status:</span>
+                     <StatusBadge status={status} overridden={!!statusOverride} />
+                   </div>
+                 </>
+               ) : (
+                 <>
+                   <div className="h-px bg-slate-600 my-2"></div>
+                   <div className="flex justify-between items-center text-2xl font-bold text-white">
+                     <span>{docType === DocumentType.PURCHASE ? 'Payable:' : 'Credited to Party:'}</span>
+                     <span className="text-amber-400">Rs. {moneyService.format(grandTotal)}</span>
+                   </div>
+                 </>
+               )}
+               {statusLog.length > 0 && (
+                 <div className="text-xs text-slate-500 space-y-1 border-t border-slate-700 pt-3">
+                   {statusLog.map((entry, idx) => (
+                     <div key={idx}>
+                       {new Date(entry.at).toLocaleString()} · {entry.by}: {entry.from} → {entry.to} ({entry.reason})
+                     </div>
+                   ))}
+                 </div>
+               )}
             </div>
           </div>
           
+          {showHistory && !isNew && (
+            <InvoiceHistory
+              shopId={user.shopId}
+              invoiceId={invoiceId}
+              parties={parties}
+              refreshKey={savedFingerprint}
+              onRestore={handleRestoreVersion}
+            />
+          )}
+
           <div className="text-center text-slate-500 text-sm mt-12 pb-8">
             All Rights Reserved 2025 — Yasir
           </div>
         </div>
       </div>
+
+      {importRows && (
+        <LineItemImport
+          rows={importRows.rows}
+          source={importRows.source}
+          rules={pricingRules}
+          products={products}
+          onImport={appendImportedItems}
+          onClose={() => setImportRows(null)}
+        />
+      )}
+
+      {showShortcuts && <ShortcutHelp onClose={() => setShowShortcuts(false)} />}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import { AuditAction, AuditEntry, Invoice, Party, Payment } from '../types';
+import { AUDIT_ACTION_LABELS, auditService } from '../services/auditService';
+import { moneyService } from '../services/moneyService';
+import { Button } from './Button';
+import { Eye, History, RotateCcw } from 'lucide-react';
+
+interface InvoiceHistoryProps {
+  shopId: string;
+  invoiceId: string;
+  parties: Party[];
+  refreshKey: string | null; // Changes whenever the invoice is saved
+  onRestore: (version: Invoice) => void;
+}
+
+const actionStyles: Record<AuditAction, string> = {
+  [AuditAction.CREATE]: 'text-green-400',
+  [AuditAction.UPDATE]: 'text-blue-400',
+  [AuditAction.DELETE]: 'text-red-400',
+  [AuditAction.STATUS]: 'text-amber-400',
+  [AuditAction.RESTORE]: 'text-purple-400',
+};
+
+// Money fields read better formatted
+const MONEY_FIELDS = ['rate', 'tp', 'totalPerPiece', 'totalAmount', 'remainingBalance', 'amount'];
+
+const formatChange = (field: string, value: unknown) => {
+  const last = field.split(' › ').pop() || '';
+  return MONEY_FIELDS.includes(last) && typeof value === 'number' ? moneyService.format(value) : auditService.formatValue(value);
+};
+
+const entryTitle = (entry: AuditEntry) => {
+  if (entry.entity === 'invoice') return AUDIT_ACTION_LABELS[entry.action];
+  const payment = entry.snapshot as Payment;
+  return `Payment ${AUDIT_ACTION_LABELS[entry.action].toLowerCase()} · Rs. ${moneyService.format(payment.amount)} ${payment.method}`;
+};
+
+export const InvoiceHistory: React.FC<InvoiceHistoryProps> = ({ shopId, invoiceId, parties, refreshKey, onRestore }) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [viewing, setViewing] = useState<string | null>(null);
+
+  useEffect(() => {
+    auditService.getInvoiceHistory(shopId, invoiceId).then(setEntries);
+  }, [shopId, invoiceId, refreshKey]);
+
+  const partyName = (id?: string) => parties.find(p => p.id === id)?.name || 'No party';
+
+  return (
+    <div className="bg-slate-800 rounded-lg border border-slate-700 p-6 shadow-lg">
+      <h3 className="text-lg font-bold text-white flex items-center mb-4">
+        <History className="w-5 h-5 mr-2 text-blue-400" /> History
+      </h3>
+      {entries.length === 0 ? (
+        <p className="text-sm text-slate-500">No changes recorded yet. Changes are logged from the next save.</p>
+      ) : (
+        <ol className="space-y-3">
+          {entries.map(entry => {
+            const version = entry.entity === 'invoice' && entry.action !== AuditAction.DELETE ? (entry.snapshot as Invoice) : null;
+            return (
+              <li key={entry.id} className="border-b border-slate-700 pb-3 last:border-0">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className={`font-semibold ${actionStyles[entry.action]}`}>{entryTitle(entry)}</span>
+                  <span className="text-slate-500">by {entry.by} · {new Date(entry.at).toLocaleString()}</span>
+                  {version && (
+                    <span className="ml-auto flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => setViewing(viewing === entry.id ? null : entry.id)}>
+                        <Eye className="w-4 h-4 mr-1" /> {viewing === entry.id ? 'Hide' : 'View'}
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => onRestore(version)} title="Load this version into the editor">
+                        <RotateCcw className="w-4 h-4 mr-1" /> Restore
+                      </Button>
+                    </span>
+                  )}
+                </div>
+                {entry.changes.length > 0 && (
+                  <ul className="mt-1 text-xs text-slate-400 space-y-0.5">
+                    {entry.changes.map((change, i) => (
+                      <li key={i}>
+                        <span className="text-slate-300">{change.field}</span>: {formatChange(change.field, change.before)} → {formatChange(change.field, change.after)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {version && viewing === entry.id && (
+                  <div className="mt-2 bg-slate-900 rounded p-3 text-xs text-slate-300 space-y-2">
+                    <p>
+                      {version.name} · {version.date} · {partyName(version.partyId)}
+                      {version.dueDate && ` · due ${version.dueDate}`}
+                    </p>
+                    <table className="w-full">
+                      <tbody>
+                        {version.items.filter(item => item.name.trim() !== '').map(item => (
+                          <tr key={item.id} className="border-t border-slate-800">
+                            <td className="py-1">{item.name}</td>
+                            <td className="py-1 text-right tabular-nums">{item.qty}</td>
+                            <td className="py-1 text-right tabular-nums">{moneyService.format(item.rate)}</td>
+                            <td className="py-1 text-right tabular-nums">{moneyService.format(item.totalAmount)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    <p className="text-right font-semibold text-white">Total Rs. {moneyService.format(version.totalAmount)}</p>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { Invoice } from '../types';
+import { moneyService } from '../services/moneyService';
+import { statusService } from '../services/statusService';
+import { documentService } from '../services/documentService';
+import { PartyNameLookup, SortKey, SortOrder } from '../services/searchService';
+import { StatusBadge } from './StatusBadge';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+
+interface InvoiceTableProps {
+  invoices: Invoice[];
+  partyName: PartyNameLookup;
+  sort: SortOrder;
+  onSort: (key: SortKey) => void;
+  onSelect: (invoiceId: string) => void;
+}
+
+// Only the rows in view (plus a few either side) are rendered, so thousands of
+// invoices scroll as smoothly as a handful
+const ROW_HEIGHT = 44;
+const VIEWPORT_HEIGHT = 640;
+const OVERSCAN = 10;
+
+const COLUMNS: { key: SortKey; label: string; numeric?: boolean; className?: string }[] = [
+  { key: 'date', label: 'Date', className: 'w-28' },
+  { key: 'number', label: 'No', className: 'w-36' },
+  { key: 'name', label: 'Name' },
+  { key: 'party', label: 'Party' },
+  { key: 'status', label: 'Status', className: 'w-36' },
+  { key: 'amount', label: 'Amount', numeric: true, className: 'w-32' },
+  { key: 'balance', label: 'Balance', numeric: true, className: 'w-32' },
+];
+
+export const InvoiceTable: React.FC<InvoiceTableProps> = ({ invoices, partyName, sort, onSort, onSelect }) => {
+  const [scrollTop, setScrollTop] = useState(0);
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(invoices.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+  const visible = invoices.slice(first, last);
+
+  return (
+    <div
+      className="bg-slate-800 rounded-lg border border-slate-700 shadow-lg overflow-auto"
+      style={{ maxHeight: VIEWPORT_HEIGHT }}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+    >
+      <table className="w-full text-sm table-fixed">
+        <thead className="sticky top-0 z-10 bg-slate-900">
+          <tr className="text-slate-400 text-left">
+            {COLUMNS.map(col => (
+              <th key={col.key} className={`p-0 font-medium ${col.className || ''}`}>
+                <button
+                  onClick={() => onSort(col.key)}
+                  className={`w-full px-3 py-3 flex items-center gap-1 hover:text-white ${col.numeric ? 'justify-end' : ''} ${sort.key === col.key ? 'text-white' : ''}`}
+                >
+                  {col.label}
+                  {sort.key === col.key && (sort.descending ? <ArrowDown className="w-3 h-3" /> : <ArrowUp className="w-3 h-3" />)}
+                </button>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {first > 0 && <tr style={{ height: first * ROW_HEIGHT }} />}
+          {visible.map(invoice => {
+            const isSale = documentService.isSale(invoice);
+            return (
+              <tr
+                key={invoice.id}
+                style={{ height: ROW_HEIGHT }}
+                onClick={() => onSelect(invoice.id)}
+                className={`border-t border-slate-700 cursor-pointer hover:bg-slate-700/50 ${statusService.isOverdue(invoice) ? 'bg-red-950/30' : ''}`}
+              >
+                <td className="px-3 text-slate-300 whitespace-nowrap">{invoice.date}</td>
+                <td className="px-3 font-mono text-xs text-slate-400 truncate">{invoice.number || ''}</td>
+                <td className="px-3 text-white truncate">{invoice.name}</td>
+                <td className="px-3 text-slate-300 truncate">{partyName(invoice.partyId)}</td>
+                <td className="px-3">
+                  {isSale ? (
+                    <StatusBadge status={statusService.getStatus(invoice)} overridden={!!invoice.statusOverride} />
+                  ) : (
+                    <span className="text-xs uppercase tracking-wide text-purple-300">{documentService.getInfo(invoice).label}</span>
+                  )}
+                </td>
+                <td className="px-3 text-right tabular-nums text-white">{moneyService.format(invoice.totalAmount)}</td>
+                <td className={`px-3 text-right tabular-nums ${invoice.remainingBalance > 0 ? 'text-red-400' : 'text-slate-500'}`}>
+                  {isSale ? moneyService.format(invoice.remainingBalance) : ''}
+                </td>
+              </tr>
+            );
+          })}
+          {last < invoices.length && <tr style={{ height: (invoices.length - last) * ROW_HEIGHT }} />}
+        </tbody>
+      </table>
+    </div>
+  );
+};
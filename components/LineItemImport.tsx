@@ -0,0 +1,147 @@
+import React, { useMemo, useState } from 'react';
+import { InvoiceItem, PricingRules, Product } from '../types';
+import { ColumnMapping, IMPORT_FIELDS, ImportField, lineItemImportService } from '../services/lineItemImportService';
+import { spreadsheetService } from '../services/spreadsheetService';
+import { moneyService } from '../services/moneyService';
+import { Button } from './Button';
+import { AlertTriangle, FileSpreadsheet, X } from 'lucide-react';
+
+interface LineItemImportProps {
+  rows: string[][];
+  source: string; // File name, or a note that the cells were pasted
+  rules: PricingRules;
+  products: Product[];
+  onImport: (items: InvoiceItem[]) => void;
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<ImportField, string> = {
+  name: 'Item Name',
+  company: 'Company',
+  qty: 'Qty',
+  rate: 'Rate',
+  discount: 'Disc %',
+};
+
+const selectClass = "w-full bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white focus:outline-none focus:border-blue-500";
+
+export const LineItemImport: React.FC<LineItemImportProps> = ({ rows, source, rules, products, onImport, onClose }) => {
+  const [hasHeader, setHasHeader] = useState(() => lineItemImportService.hasHeader(rows));
+  const [mapping, setMapping] = useState<ColumnMapping>(() =>
+    lineItemImportService.guessMapping(rows, lineItemImportService.hasHeader(rows))
+  );
+
+  const width = Math.max(0, ...rows.map(r => r.length));
+  const columnName = (index: number) => {
+    const letter = spreadsheetService.columnLetter(index);
+    const header = hasHeader ? rows[0][index]?.trim() : '';
+    return header ? `${letter}: ${header}` : `Column ${letter}`;
+  };
+
+  const preview = useMemo(
+    () => lineItemImportService.buildPreview(rows, hasHeader, mapping, rules, products),
+    [rows, hasHeader, mapping, rules, products]
+  );
+  const valid = preview.filter(row => row.errors.length === 0);
+  const invalidCount = preview.length - valid.length;
+
+  const handleHeaderToggle = (checked: boolean) => {
+    setHasHeader(checked);
+    setMapping(lineItemImportService.guessMapping(rows, checked));
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/60 flex items-center justify-center p-4">
+      <div className="bg-slate-800 rounded-lg border border-slate-700 shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-4 border-b border-slate-700">
+          <h3 className="text-lg font-bold text-white flex items-center">
+            <FileSpreadsheet className="w-5 h-5 mr-2 text-blue-400" /> Import Items
+            <span className="ml-2 text-sm font-normal text-slate-400">from {source}</span>
+          </h3>
+          <button onClick={onClose} className="text-slate-500 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 border-b border-slate-700">
+          <label className="flex items-center gap-2 text-sm text-slate-300">
+            <input type="checkbox" checked={hasHeader} onChange={(e) => handleHeaderToggle(e.target.checked)} />
+            First row is a header
+          </label>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            {IMPORT_FIELDS.map(field => (
+              <label key={field} className="space-y-1">
+                <span className="text-xs text-slate-400 uppercase tracking-wider">{FIELD_LABELS[field]}</span>
+                <select
+                  className={selectClass}
+                  value={mapping[field]}
+                  onChange={(e) => setMapping({ ...mapping, [field]: Number(e.target.value) })}
+                >
+                  <option value={-1}>Not in file</option>
+                  {Array.from({ length: width }, (_, i) => (
+                    <option key={i} value={i}>{columnName(i)}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="overflow-auto flex-1">
+          <table className="w-full text-left border-collapse text-sm">
+            <thead className="sticky top-0">
+              <tr className="bg-slate-700 text-slate-300 text-xs uppercase tracking-wider">
+                <th className="p-2 w-12">Row</th>
+                <th className="p-2">Item Name</th>
+                <th className="p-2">Company</th>
+                <th className="p-2 text-right">Qty</th>
+                <th className="p-2 text-right">Rate</th>
+                <th className="p-2 text-right">T.P</th>
+                <th className="p-2 text-right">Disc %</th>
+                <th className="p-2 text-right">Row Total</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-700">
+              {preview.map(({ line, item, errors }) => (
+                <React.Fragment key={line}>
+                  <tr className={errors.length > 0 ? 'bg-red-950/40 text-red-200' : 'text-slate-200'}>
+                    <td className="p-2 text-slate-500">{line}</td>
+                    <td className="p-2">{item.name || <span className="text-slate-500">-</span>}</td>
+                    <td className="p-2 text-slate-400">{item.company}</td>
+                    <td className="p-2 text-right font-mono">{item.qty}</td>
+                    <td className="p-2 text-right font-mono">{moneyService.format(item.rate)}</td>
+                    <td className="p-2 text-right font-mono text-slate-400">{moneyService.format(item.tp)}</td>
+                    <td className="p-2 text-right font-mono">{item.discount}</td>
+                    <td className="p-2 text-right font-mono text-blue-300">{moneyService.format(item.totalAmount)}</td>
+                  </tr>
+                  {errors.length > 0 && (
+                    <tr className="bg-red-950/40">
+                      <td></td>
+                      <td colSpan={7} className="px-2 pb-2 text-xs text-red-400">
+                        <AlertTriangle className="w-3 h-3 inline mr-1" /> {errors.join('; ')}
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+          {preview.length === 0 && <p className="p-6 text-center text-slate-500">No rows to import.</p>}
+        </div>
+
+        <div className="flex flex-col md:flex-row justify-between items-center gap-3 p-4 border-t border-slate-700">
+          <span className="text-sm text-slate-400">
+            {valid.length} row(s) ready
+            {invalidCount > 0 && <span className="text-red-400"> · {invalidCount} with errors will be skipped</span>}
+          </span>
+          <div className="flex gap-2">
+            <Button variant="secondary" onClick={onClose}>Cancel</Button>
+            <Button variant="success" disabled={valid.length === 0} onClick={() => onImport(valid.map(row => row.item))}>
+              Add {valid.length} Item{valid.length === 1 ? '' : 's'}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,40 +1,117 @@
 import React, { useState } from 'react';
-import { storageService } from '../services/storageService';
+import { authService } from '../services/authService';
+import { syncService } from '../services/syncService';
 import { User } from '../types';
 import { Button } from './Button';
-import { BookOpen } from 'lucide-react';
+import { BookOpen, Lock } from 'lucide-react';
 
 interface LoginProps {
   onLogin: (user: User) => void;
+  // Set when a session is locked: only the password is asked for
+  lockedUsername?: string;
+  onSwitchUser?: () => void;
 }
 
-export const Login: React.FC<LoginProps> = ({ onLogin }) => {
-  const [username, setUsername] = useState('');
+export const Login: React.FC<LoginProps> = ({ onLogin, lockedUsername, onSwitchUser }) => {
+  const [username, setUsername] = useState(lockedUsername || '');
   const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isRegistering, setIsRegistering] = useState(false);
+  // Setting up this device from a shop that already syncs elsewhere
+  const [isJoining, setIsJoining] = useState(false);
+  const [serverUrl, setServerUrl] = useState('');
+  const [token, setToken] = useState('');
+  const [shop, setShop] = useState('');
+  const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!username || !password) return;
-    
+    if (isRegistering && password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
     setLoading(true);
-    const user = await storageService.login(username, password);
-    setLoading(false);
-    onLogin(user);
+    setError('');
+    try {
+      const user = isJoining
+        ? await syncService.join(serverUrl, token, shop, username, password)
+        : isRegistering
+          ? await authService.register(username, password)
+          : await authService.login(username, password);
+      onLogin(user);
+    } catch (err) {
+      setError((err as Error).message);
+      setLoading(false);
+    }
+  };
+
+  const toggleMode = () => {
+    setIsRegistering(!isRegistering && !isJoining);
+    setIsJoining(false);
+    setError('');
+    setConfirmPassword('');
+  };
+
+  const toggleJoin = () => {
+    setIsJoining(!isJoining);
+    setIsRegistering(false);
+    setError('');
   };
 
+  const submitLabel = lockedUsername
+    ? (loading ? 'Unlocking...' : 'Unlock')
+    : isJoining
+      ? (loading ? 'Fetching the shop...' : 'Join and sign in')
+      : isRegistering
+        ? (loading ? 'Creating account...' : 'Create account')
+        : (loading ? 'Signing in...' : 'Sign in');
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-slate-900 p-4">
       <div className="max-w-md w-full space-y-8 bg-slate-800 p-8 rounded-xl shadow-2xl border border-slate-700">
         <div className="text-center">
           <div className="mx-auto h-16 w-16 bg-blue-600 rounded-full flex items-center justify-center mb-4">
-            <BookOpen className="h-8 w-8 text-white" />
+            {lockedUsername ? <Lock className="h-8 w-8 text-white" /> : <BookOpen className="h-8 w-8 text-white" />}
           </div>
           <h2 className="text-3xl font-extrabold text-white">Hisaab Kitaab</h2>
-          <p className="mt-2 text-sm text-slate-400">Manage your medical invoices efficiently</p>
+          <p className="mt-2 text-sm text-slate-400">
+            {lockedUsername
+              ? `Locked after inactivity. Enter the password for ${lockedUsername}.`
+              : 'Manage your medical invoices efficiently'}
+          </p>
         </div>
         
         <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+          {isJoining && (
+            <div className="space-y-2">
+              <input
+                type="url"
+                required
+                className="appearance-none relative block w-full px-3 py-3 border border-slate-600 placeholder-slate-400 text-white bg-slate-700 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                placeholder="Sync server, e.g. http://192.168.1.10:8787"
+                value={serverUrl}
+                onChange={(e) => setServerUrl(e.target.value)}
+              />
+              <input
+                type="password"
+                className="appearance-none relative block w-full px-3 py-3 border border-slate-600 placeholder-slate-400 text-white bg-slate-700 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                placeholder="Access token"
+                value={token}
+                onChange={(e) => setToken(e.target.value)}
+              />
+              <input
+                type="text"
+                className="appearance-none relative block w-full px-3 py-3 border border-slate-600 placeholder-slate-400 text-white bg-slate-700 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                placeholder="Shop owner's username (blank if it's you)"
+                value={shop}
+                onChange={(e) => setShop(e.target.value)}
+              />
+              <p className="text-xs text-slate-500">Sign in with an existing user of the shop. Their books are copied to this device.</p>
+            </div>
+          )}
           <div className="rounded-md shadow-sm -space-y-px">
             <div>
               <label htmlFor="username" className="sr-only">Username</label>
@@ -43,7 +120,8 @@ export const Login: React.FC<LoginProps> = ({ onLogin }) => {
                 name="username"
                 type="text"
                 required
-                className="appearance-none rounded-none relative block w-full px-3 py-3 border border-slate-600 placeholder-slate-400 text-white bg-slate-700 rounded-t-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 focus:z-10 sm:text-sm"
+                readOnly={!!lockedUsername}
+                className="appearance-none rounded-none relative block w-full px-3 py-3 border border-slate-600 placeholder-slate-400 text-white bg-slate-700 rounded-t-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 focus:z-10 sm:text-sm read-only:text-slate-400"
                 placeholder="Username"
                 value={username}
                 onChange={(e) => setUsername(e.target.value)}
@@ -56,23 +134,60 @@ export const Login: React.FC<LoginProps> = ({ onLogin }) => {
                 name="password"
                 type="password"
                 required
-                className="appearance-none rounded-none relative block w-full px-3 py-3 border border-slate-600 placeholder-slate-400 text-white bg-slate-700 rounded-b-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 focus:z-10 sm:text-sm"
+                autoFocus={!!lockedUsername}
+                className={`appearance-none rounded-none relative block w-full px-3 py-3 border border-slate-600 placeholder-slate-400 text-white bg-slate-700 ${isRegistering ? '' : 'rounded-b-md'} focus:outline-none focus:ring-blue-500 focus:border-blue-500 focus:z-10 sm:text-sm`}
                 placeholder="Password"
                 value={password}
                 onChange={(e) => setPassword(e.target.value)}
               />
             </div>
+            {isRegistering && (
+              <div>
+                <label htmlFor="confirmPassword" className="sr-only">Confirm password</label>
+                <input
+                  id="confirmPassword"
+                  name="confirmPassword"
+                  type="password"
+                  required
+                  className="appearance-none rounded-none relative block w-full px-3 py-3 border border-slate-600 placeholder-slate-400 text-white bg-slate-700 rounded-b-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 focus:z-10 sm:text-sm"
+                  placeholder="Confirm password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                />
+              </div>
+            )}
           </div>
 
+          {error && <p className="text-sm text-red-400 text-center">{error}</p>}
+
           <div>
             <Button 
               type="submit" 
               className="w-full" 
               disabled={loading}
             >
-              {loading ? 'Signing in...' : 'Sign in'}
+              {submitLabel}
             </Button>
           </div>
+
+          <div className="text-center text-sm">
+            {lockedUsername ? (
+              <button type="button" onClick={onSwitchUser} className="text-blue-400 hover:text-blue-300">
+                Sign in as someone else
+              </button>
+            ) : (
+              <div className="space-y-2">
+                <button type="button" onClick={toggleMode} className="block w-full text-blue-400 hover:text-blue-300">
+                  {isRegistering || isJoining ? 'Already have an account? Sign in' : 'New here? Create an account'}
+                </button>
+                {!isJoining && (
+                  <button type="button" onClick={toggleJoin} className="block w-full text-blue-400 hover:text-blue-300">
+                    Join from sync server
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
         </form>
       </div>
     </div>
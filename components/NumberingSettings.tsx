@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { DocumentType, NumberingSeries, User } from '../types';
+import { numberingService } from '../services/numberingService';
+import { DOCUMENT_TYPES } from '../services/documentService';
+import { Button } from './Button';
+import { Hash, Save } from 'lucide-react';
+
+interface NumberingSettingsProps {
+  user: User;
+}
+
+const inputClass = "w-full bg-slate-900 border border-slate-600 rounded px-3 py-2 text-sm text-white focus:outline-none focus:border-blue-500";
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export const NumberingSettings: React.FC<NumberingSettingsProps> = ({ user }) => {
+  const [series, setSeries] = useState<Record<DocumentType, NumberingSeries> | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [device, setDevice] = useState<string | undefined>(undefined);
+
+  useEffect(() => {
+    numberingService.getSeries(user.shopId).then(setSeries);
+    numberingService.getDevice(user.shopId).then(setDevice);
+  }, [user.shopId]);
+
+  if (!series) return null;
+
+  const update = (type: DocumentType, changes: Partial<NumberingSeries>) => {
+    setSeries({ ...series, [type]: { ...series[type], ...changes } });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await numberingService.saveSeries(user.shopId, series);
+      alert('Numbering saved');
+    } catch (err) {
+      alert((err as Error).message);
+    }
+    setSaving(false);
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-lg border border-slate-700 p-6 shadow-lg max-w-3xl space-y-4 mt-8">
+      <h3 className="text-lg font-bold text-white flex items-center">
+        <Hash className="w-5 h-5 mr-2 text-blue-400" /> Document Numbering
+      </h3>
+      <p className="text-sm text-slate-400">
+        Numbers are given when a document is first saved and never reused, so the next number can only move forward.
+        {device && ` This device syncs as "${device}", which goes in its numbers so other devices never give the same ones.`}
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-400">
+              <th className="p-2">Type</th>
+              <th className="p-2">Prefix</th>
+              <th className="p-2">Digits</th>
+              <th className="p-2">Yearly Reset</th>
+              <th className="p-2" title="For this year, or overall without yearly reset">Next No.</th>
+              <th className="p-2">Preview</th>
+            </tr>
+          </thead>
+          <tbody>
+            {Object.values(DocumentType).map(type => {
+              const s = series[type];
+              return (
+                <tr key={type} className="border-t border-slate-700">
+                  <td className="p-2 text-white whitespace-nowrap">{DOCUMENT_TYPES[type].label}</td>
+                  <td className="p-2">
+                    <input className={`${inputClass} w-24`} value={s.prefix} onChange={(e) => update(type, { prefix: e.target.value })} />
+                  </td>
+                  <td className="p-2">
+                    <input
+                      type="number"
+                      min={1}
+                      max={10}
+                      className={`${inputClass} w-20`}
+                      value={s.padding}
+                      onChange={(e) => update(type, { padding: Math.floor(Number(e.target.value)) })}
+                    />
+                  </td>
+                  <td className="p-2 text-center">
+                    <input type="checkbox" checked={s.yearlyReset} onChange={(e) => update(type, { yearlyReset: e.target.checked })} />
+                  </td>
+                  <td className="p-2">
+                    <input
+                      type="number"
+                      min={1}
+                      className={`${inputClass} w-24`}
+                      value={numberingService.nextValue(s, today(), device)}
+                      onChange={(e) => setSeries({ ...series, [type]: numberingService.setNext(s, Number(e.target.value), today(), device) })}
+                    />
+                  </td>
+                  <td className="p-2 font-mono text-slate-300 whitespace-nowrap">{numberingService.peek(s, today(), device)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex justify-end">
+        <Button variant="success" onClick={handleSave} disabled={saving}>
+          <Save className="w-4 h-4 mr-2" /> {saving ? 'Saving...' : 'Save Numbering'}
+        </Button>
+      </div>
+    </div>
+  );
+};
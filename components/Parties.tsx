@@ -0,0 +1,250 @@
+import React, { useEffect, useState } from 'react';
+import { Invoice, Party, Payment, User } from '../types';
+import { partyService } from '../services/partyService';
+import { storageService } from '../services/storageService';
+import { moneyService } from '../services/moneyService';
+import { permissionService } from '../services/permissionService';
+import { generateId } from '../utils/generateId';
+import { Button } from './Button';
+import { ArrowLeft, Pencil, Plus, Save, Search, Trash2, Users, X } from 'lucide-react';
+
+interface PartiesProps {
+  user: User;
+  onBack: () => void;
+  onOpenLedger: (partyId: string) => void;
+}
+
+const inputClass = "w-full bg-slate-900 border border-slate-600 rounded px-3 py-2 text-sm text-white focus:outline-none focus:border-blue-500";
+
+const emptyParty = (): Party => ({
+  id: generateId(),
+  name: '',
+  phone: '',
+  address: '',
+  openingBalance: 0,
+  openingDate: new Date().toISOString().split('T')[0],
+  createdAt: Date.now(),
+});
+
+export const Parties: React.FC<PartiesProps> = ({ user, onBack, onOpenLedger }) => {
+  const [parties, setParties] = useState<Party[]>([]);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [editing, setEditing] = useState<Party | null>(null);
+
+  // Balances are built from one load of invoices and payments instead of one per card
+  const reload = async () => {
+    const [partyList, invoiceList, paymentList] = await Promise.all([
+      partyService.getParties(user.shopId),
+      storageService.getInvoices(user.shopId),
+      storageService.getPayments(user.shopId),
+    ]);
+    setParties(partyList);
+    setInvoices(invoiceList);
+    setPayments(paymentList);
+  };
+
+  useEffect(() => {
+    reload();
+  }, [user.shopId]);
+
+  const filteredParties = parties.filter(p =>
+    p.name.toLowerCase().includes(searchTerm.toLowerCase()) || p.phone.includes(searchTerm)
+  );
+
+  const updateEditing = (field: keyof Party, value: string | number) => {
+    if (!editing) return;
+    setEditing({ ...editing, [field]: value });
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    if (!editing.name.trim()) {
+      alert('Please enter a party name');
+      return;
+    }
+    await partyService.saveParty(user.shopId, {
+      ...editing,
+      name: editing.name.trim(),
+      strn: editing.strn?.trim() || undefined,
+      openingBalance: moneyService.normalize(editing.openingBalance),
+    });
+    setEditing(null);
+    reload();
+  };
+
+  const canDelete = permissionService.can(user, 'parties.delete');
+
+  const handleDelete = async (party: Party) => {
+    if (!confirm(`Delete party "${party.name}"?`)) return;
+    try {
+      await partyService.deleteParty(user.shopId, party.id);
+      await reload();
+    } catch (err) {
+      alert((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-100 p-4 md:p-8">
+      <div className="max-w-7xl mx-auto">
+        <header className="flex flex-col md:flex-row justify-between items-center mb-8 gap-4">
+          <div className="flex items-center gap-3">
+            <Button variant="secondary" size="sm" onClick={onBack}>
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+            <div>
+              <h1 className="text-3xl font-bold text-white">Parties</h1>
+              <p className="text-slate-400">Customers and their outstanding balances</p>
+            </div>
+          </div>
+          <Button onClick={() => setEditing(emptyParty())}>
+            <Plus className="w-4 h-4 mr-2" /> Add Party
+          </Button>
+        </header>
+
+        {editing && (
+          <div className="bg-slate-800 rounded-lg border border-slate-700 p-6 shadow-lg mb-6">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-bold text-white">
+                {parties.some(p => p.id === editing.id) ? 'Edit Party' : 'New Party'}
+              </h3>
+              <button onClick={() => setEditing(null)} className="text-slate-500 hover:text-white">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <label className="space-y-1">
+                <span className="text-sm text-slate-400">Name</span>
+                <input className={inputClass} value={editing.name} onChange={(e) => updateEditing('name', e.target.value)} autoFocus />
+              </label>
+              <label className="space-y-1">
+                <span className="text-sm text-slate-400">Phone</span>
+                <input className={inputClass} value={editing.phone} onChange={(e) => updateEditing('phone', e.target.value)} />
+              </label>
+              <label className="space-y-1 md:col-span-2">
+                <span className="text-sm text-slate-400">Address</span>
+                <input className={inputClass} value={editing.address} onChange={(e) => updateEditing('address', e.target.value)} />
+              </label>
+              <label className="space-y-1">
+                <span className="text-sm text-slate-400">Sales Tax Registration No (STRN)</span>
+                <input
+                  className={inputClass}
+                  value={editing.strn || ''}
+                  onChange={(e) => updateEditing('strn', e.target.value)}
+                  placeholder="Unregistered buyers pay further tax"
+                />
+              </label>
+              <label className="space-y-1">
+                <span className="text-sm text-slate-400">Opening Balance (negative for an advance)</span>
+                <input
+                  type="number"
+                  className={inputClass}
+                  value={editing.openingBalance === 0 ? '' : editing.openingBalance}
+                  onChange={(e) => updateEditing('openingBalance', Number(e.target.value))}
+                  placeholder="0"
+                />
+              </label>
+              <label className="space-y-1">
+                <span className="text-sm text-slate-400">Opening Balance Date</span>
+                <input
+                  type="date"
+                  className={inputClass}
+                  value={editing.openingDate}
+                  onChange={(e) => updateEditing('openingDate', e.target.value)}
+                />
+              </label>
+              <label className="space-y-1">
+                <span className="text-sm text-slate-400">Credit Terms (days until due)</span>
+                <input
+                  type="number"
+                  className={inputClass}
+                  value={editing.creditDays || ''}
+                  onChange={(e) => updateEditing('creditDays', Math.max(0, Math.floor(Number(e.target.value))))}
+                  placeholder="No terms"
+                />
+              </label>
+            </div>
+            <div className="flex justify-end mt-4">
+              <Button variant="success" onClick={handleSave}>
+                <Save className="w-4 h-4 mr-2" /> Save Party
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="mb-6 relative">
+          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+            <Search className="h-5 w-5 text-slate-500" />
+          </div>
+          <input
+            type="text"
+            className="block w-full pl-10 pr-3 py-2 border border-slate-700 rounded-md leading-5 bg-slate-800 placeholder-slate-500 text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            placeholder="Search parties by name or phone..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+          />
+        </div>
+
+        {filteredParties.length === 0 ? (
+          <div className="text-center py-20 bg-slate-800 rounded-lg border border-slate-700">
+            <Users className="mx-auto h-12 w-12 text-slate-600 mb-4" />
+            <h3 className="text-lg font-medium text-slate-300">No parties found</h3>
+            <p className="mt-1 text-slate-500">Add the pharmacies and shops you bill.</p>
+          </div>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {filteredParties.map(party => {
+              const balance = partyService.getBalance(party, invoices, payments);
+              return (
+                <div
+                  key={party.id}
+                  className="bg-slate-800 rounded-lg border border-slate-700 p-5 hover:border-blue-500 transition-colors cursor-pointer group shadow-lg"
+                  onClick={() => onOpenLedger(party.id)}
+                >
+                  <div className="flex justify-between items-start mb-4">
+                    <div>
+                      <h3 className="text-lg font-semibold text-white group-hover:text-blue-400 transition-colors">{party.name}</h3>
+                      <p className="text-sm text-slate-400">{party.phone || 'No phone'}</p>
+                    </div>
+                    <div className="flex gap-1">
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setEditing(party);
+                        }}
+                        className="text-slate-500 hover:text-blue-400 p-1"
+                        title="Edit"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      {canDelete && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleDelete(party);
+                          }}
+                          className="text-slate-500 hover:text-red-400 p-1"
+                          title="Delete"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex justify-between pt-2 border-t border-slate-700 text-sm">
+                    <span className="font-bold text-slate-200">Balance:</span>
+                    <span className={`font-bold ${balance > 0 ? 'text-red-400' : 'text-green-400'}`}>
+                      Rs. {moneyService.format(balance)}
+                    </span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
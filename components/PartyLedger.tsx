@@ -0,0 +1,129 @@
+import React, { useEffect, useState } from 'react';
+import { LedgerEntry, Party, User } from '../types';
+import { partyService } from '../services/partyService';
+import { moneyService } from '../services/moneyService';
+import { exportService } from '../services/exportService';
+import { ExportFormat } from '../services/spreadsheetService';
+import { Button } from './Button';
+import { ExportButtons } from './ExportButtons';
+import { ArrowLeft, BookText, Loader, Printer } from 'lucide-react';
+
+interface PartyLedgerProps {
+  user: User;
+  partyId: string;
+  onBack: () => void;
+  onSelectInvoice: (invoiceId: string) => void;
+}
+
+export const PartyLedger: React.FC<PartyLedgerProps> = ({ user, partyId, onBack, onSelectInvoice }) => {
+  const [party, setParty] = useState<Party | undefined>();
+  const [entries, setEntries] = useState<LedgerEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadLedger = async () => {
+      setLoading(true);
+      setParty(await partyService.getParty(user.shopId, partyId));
+      setEntries(await partyService.getLedger(user.shopId, partyId));
+      setLoading(false);
+    };
+    loadLedger();
+  }, [user.shopId, partyId]);
+
+  const totalDebit = moneyService.sum(entries.map(e => e.debit));
+  const totalCredit = moneyService.sum(entries.map(e => e.credit));
+  const closingBalance = entries.length > 0 ? entries[entries.length - 1].balance : 0;
+
+  const handleExport = (format: ExportFormat) => {
+    if (!party) return;
+    exportService.download(exportService.ledgerTable(party, entries), format, exportService.fileName(`ledger_${party.name}`, format));
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-slate-900 flex justify-center py-20">
+        <Loader className="w-8 h-8 animate-spin text-blue-500" />
+      </div>
+    );
+  }
+
+  if (!party) {
+    return (
+      <div className="min-h-screen bg-slate-900 text-slate-100 p-8 text-center">
+        <p className="text-slate-400 mb-4">Party not found.</p>
+        <Button variant="secondary" onClick={onBack}>Back</Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-100 p-4 md:p-8">
+      <div className="max-w-7xl mx-auto">
+        <header className="flex flex-col md:flex-row justify-between items-center mb-8 gap-4">
+          <div className="flex items-center gap-3">
+            <Button variant="secondary" size="sm" onClick={onBack} className="print:hidden">
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+            <div>
+              <h1 className="text-3xl font-bold text-white">{party.name}</h1>
+              <p className="text-slate-400">{[party.phone, party.address].filter(Boolean).join(' · ') || 'Party Ledger'}</p>
+            </div>
+          </div>
+          <div className="flex gap-2 print:hidden">
+            <ExportButtons onExport={handleExport} disabled={entries.length === 0} />
+            <Button variant="outline" size="sm" onClick={() => window.print()}>
+              <Printer className="w-4 h-4 mr-2" /> Print
+            </Button>
+          </div>
+        </header>
+
+        {entries.length === 0 ? (
+          <div className="text-center py-20 bg-slate-800 rounded-lg border border-slate-700">
+            <BookText className="mx-auto h-12 w-12 text-slate-600 mb-4" />
+            <h3 className="text-lg font-medium text-slate-300">No ledger entries</h3>
+            <p className="mt-1 text-slate-500">Invoices billed to this party will appear here.</p>
+          </div>
+        ) : (
+          <div className="bg-slate-800 rounded-lg border border-slate-700 overflow-x-auto shadow-lg">
+            <table className="w-full text-left border-collapse">
+              <thead>
+                <tr className="bg-slate-700 text-slate-300 text-xs uppercase tracking-wider">
+                  <th className="p-3 w-32">Date</th>
+                  <th className="p-3">Particulars</th>
+                  <th className="p-3 w-36 text-right">Debit</th>
+                  <th className="p-3 w-36 text-right">Credit</th>
+                  <th className="p-3 w-36 text-right">Balance</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-700 text-sm">
+                {entries.map(entry => (
+                  <tr
+                    key={`${entry.type}-${entry.id}`}
+                    className={entry.invoiceId ? 'hover:bg-slate-750 cursor-pointer' : ''}
+                    onClick={() => entry.invoiceId && onSelectInvoice(entry.invoiceId)}
+                  >
+                    <td className="p-3 text-slate-400">{new Date(entry.date).toLocaleDateString()}</td>
+                    <td className={`p-3 ${entry.type === 'payment' ? 'text-green-300' : 'text-white'}`}>{entry.description}</td>
+                    <td className="p-3 text-right font-mono">{entry.debit ? moneyService.format(entry.debit) : ''}</td>
+                    <td className="p-3 text-right font-mono text-green-400">{entry.credit ? moneyService.format(entry.credit) : ''}</td>
+                    <td className="p-3 text-right font-mono text-blue-300">{moneyService.format(entry.balance)}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr className="bg-slate-700/50 font-bold">
+                  <td className="p-3" colSpan={2}>Closing Balance</td>
+                  <td className="p-3 text-right font-mono">{moneyService.format(totalDebit)}</td>
+                  <td className="p-3 text-right font-mono text-green-400">{moneyService.format(totalCredit)}</td>
+                  <td className={`p-3 text-right font-mono ${closingBalance > 0 ? 'text-red-400' : 'text-green-400'}`}>
+                    {moneyService.format(closingBalance)}
+                  </td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
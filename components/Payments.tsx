@@ -0,0 +1,364 @@
+import React, { useEffect, useState } from 'react';
+import { ChequeStatus, Invoice, Party, Payment, PaymentMethod, User } from '../types';
+import { paymentService } from '../services/paymentService';
+import { partyService } from '../services/partyService';
+import { moneyService } from '../services/moneyService';
+import { storageService } from '../services/storageService';
+import { DateRange, exportService } from '../services/exportService';
+import { ExportFormat } from '../services/spreadsheetService';
+import { generateId } from '../utils/generateId';
+import { Button } from './Button';
+import { ExportButtons } from './ExportButtons';
+import { ArrowLeft, Plus, Save, Trash2, Wallet, Wand2, X } from 'lucide-react';
+
+interface PaymentsProps {
+  user: User;
+  onBack: () => void;
+}
+
+const inputClass = "w-full bg-slate-900 border border-slate-600 rounded px-3 py-2 text-sm text-white focus:outline-none focus:border-blue-500";
+
+const dateInputClass = "bg-slate-800 border border-slate-700 rounded-md px-2 py-1.5 text-slate-100 focus:outline-none focus:border-blue-500";
+
+const emptyPayment = (): Payment => ({
+  id: generateId(),
+  partyId: undefined,
+  date: new Date().toISOString().split('T')[0],
+  method: PaymentMethod.CASH,
+  reference: '',
+  amount: 0,
+  narration: '',
+  allocations: [],
+  createdAt: Date.now(),
+});
+
+export const Payments: React.FC<PaymentsProps> = ({ user, onBack }) => {
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [editing, setEditing] = useState<Payment | null>(null);
+  const [parties, setParties] = useState<Party[]>([]);
+  const [openInvoices, setOpenInvoices] = useState<{ invoice: Invoice; due: number }[]>([]);
+  const [dateRange, setDateRange] = useState<DateRange>({});
+
+  const partyName = (partyId?: string) => parties.find(p => p.id === partyId)?.name || '-';
+
+  const reload = async () => setPayments(await paymentService.getPayments(user.shopId));
+
+  useEffect(() => {
+    reload();
+    partyService.getParties(user.shopId).then(setParties);
+  }, [user.shopId]);
+
+  useEffect(() => {
+    if (!editing?.partyId) {
+      setOpenInvoices([]);
+      return;
+    }
+    paymentService.getOpenInvoices(user.shopId, editing.partyId, editing.id).then(setOpenInvoices);
+  }, [user.shopId, editing?.partyId, editing?.id]);
+
+  const updateEditing = (changes: Partial<Payment>) => {
+    if (!editing) return;
+    const next = { ...editing, ...changes };
+    if (changes.method !== undefined) {
+      next.chequeStatus = changes.method === PaymentMethod.CHEQUE ? (editing.chequeStatus || ChequeStatus.PENDING) : undefined;
+    }
+    // Allocations belong to the previous party's invoices
+    if (changes.partyId !== undefined && changes.partyId !== editing.partyId) {
+      next.allocations = [];
+    }
+    setEditing(next);
+  };
+
+  const setAllocation = (invoiceId: string, amount: number) => {
+    if (!editing) return;
+    const others = editing.allocations.filter(a => a.invoiceId !== invoiceId);
+    updateEditing({ allocations: amount > 0 ? [...others, { invoiceId, amount }] : others });
+  };
+
+  const handleAutoAllocate = () => {
+    if (!editing?.partyId) return;
+    updateEditing({ allocations: paymentService.autoAllocate(openInvoices, editing.amount) });
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    try {
+      await paymentService.savePayment(user.shopId, editing);
+      setEditing(null);
+      await reload();
+    } catch (err) {
+      alert((err as Error).message);
+    }
+  };
+
+  const handleDelete = async (payment: Payment) => {
+    if (!confirm(`Delete this payment of Rs. ${moneyService.format(payment.amount)}? Invoices it settled will show as due again.`)) return;
+    await paymentService.deletePayment(user.shopId, payment.id);
+    if (editing?.id === payment.id) setEditing(null);
+    await reload();
+  };
+
+  const handleChequeStatus = async (payment: Payment, chequeStatus: ChequeStatus) => {
+    try {
+      await paymentService.savePayment(user.shopId, { ...payment, chequeStatus });
+    } catch (err) {
+      alert((err as Error).message);
+    }
+    await reload();
+  };
+
+  const shownPayments = exportService.filterByDate<Payment>(payments, dateRange);
+
+  const handleExportRegister = async (format: ExportFormat) => {
+    const invoices = await storageService.getInvoices(user.shopId);
+    const rows = [...shownPayments].sort((a, b) => a.date.localeCompare(b.date));
+    exportService.download(
+      exportService.paymentsTable(rows, parties, invoices),
+      format,
+      exportService.fileName(`payments_register_${user.shopId}`, format, dateRange)
+    );
+  };
+
+  const allocated = editing ? paymentService.getAllocated(editing) : 0;
+  const unallocated = editing ? paymentService.getUnallocated(editing) : 0;
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-100 p-4 md:p-8">
+      <div className="max-w-7xl mx-auto">
+        <header className="flex flex-col md:flex-row justify-between items-center mb-8 gap-4">
+          <div className="flex items-center gap-3">
+            <Button variant="secondary" size="sm" onClick={onBack}>
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+            <div>
+              <h1 className="text-3xl font-bold text-white">Payments</h1>
+              <p className="text-slate-400">Collections and how they settle invoices</p>
+            </div>
+          </div>
+          <Button onClick={() => setEditing(emptyPayment())}>
+            <Plus className="w-4 h-4 mr-2" /> Receive Payment
+          </Button>
+        </header>
+
+        {editing && (
+          <div className="bg-slate-800 rounded-lg border border-slate-700 p-6 shadow-lg mb-6 space-y-6">
+            <div className="flex justify-between items-center">
+              <h3 className="text-lg font-bold text-white">
+                {payments.some(p => p.id === editing.id) ? 'Edit Payment' : 'Receive Payment'}
+              </h3>
+              <button onClick={() => setEditing(null)} className="text-slate-500 hover:text-white">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <label className="space-y-1">
+                <span className="text-sm text-slate-400">Party</span>
+                <select className={inputClass} value={editing.partyId || ''} onChange={(e) => updateEditing({ partyId: e.target.value || undefined })}>
+                  <option value="">Select party...</option>
+                  {parties.map(p => (
+                    <option key={p.id} value={p.id}>{p.name}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="space-y-1">
+                <span className="text-sm text-slate-400">Date</span>
+                <input type="date" className={inputClass} value={editing.date} onChange={(e) => updateEditing({ date: e.target.value })} />
+              </label>
+              <label className="space-y-1">
+                <span className="text-sm text-slate-400">Amount</span>
+                <input
+                  type="number"
+                  className={inputClass}
+                  value={editing.amount === 0 ? '' : editing.amount}
+                  onChange={(e) => updateEditing({ amount: moneyService.normalize(Number(e.target.value)) })}
+                  placeholder="0"
+                />
+              </label>
+              <label className="space-y-1">
+                <span className="text-sm text-slate-400">Method</span>
+                <select className={inputClass} value={editing.method} onChange={(e) => updateEditing({ method: e.target.value as PaymentMethod })}>
+                  {Object.values(PaymentMethod).map(m => (
+                    <option key={m} value={m}>{m}</option>
+                  ))}
+                </select>
+              </label>
+              {editing.method !== PaymentMethod.CASH && (
+                <label className="space-y-1">
+                  <span className="text-sm text-slate-400">{editing.method === PaymentMethod.CHEQUE ? 'Cheque No.' : 'Reference No.'}</span>
+                  <input className={inputClass} value={editing.reference} onChange={(e) => updateEditing({ reference: e.target.value })} />
+                </label>
+              )}
+              {editing.method === PaymentMethod.CHEQUE && (
+                <label className="space-y-1">
+                  <span className="text-sm text-slate-400">Cheque Status</span>
+                  <select
+                    className={inputClass}
+                    value={editing.chequeStatus || ChequeStatus.PENDING}
+                    onChange={(e) => updateEditing({ chequeStatus: e.target.value as ChequeStatus })}
+                  >
+                    {Object.values(ChequeStatus).map(s => (
+                      <option key={s} value={s}>{s}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              <label className="space-y-1 md:col-span-3">
+                <span className="text-sm text-slate-400">Narration</span>
+                <input className={inputClass} value={editing.narration} onChange={(e) => updateEditing({ narration: e.target.value })} />
+              </label>
+            </div>
+
+            {editing.partyId && (
+              <div>
+                <div className="flex justify-between items-center mb-3">
+                  <h4 className="font-bold text-white">Allocate to Invoices</h4>
+                  <Button variant="outline" size="sm" onClick={handleAutoAllocate} disabled={editing.amount <= 0}>
+                    <Wand2 className="w-4 h-4 mr-2" /> Oldest First
+                  </Button>
+                </div>
+                {openInvoices.length === 0 ? (
+                  <p className="text-sm text-slate-500">This party has no outstanding invoices. The payment will be kept as credit.</p>
+                ) : (
+                  <table className="w-full text-left border-collapse text-sm">
+                    <thead>
+                      <tr className="text-slate-400 text-xs uppercase tracking-wider border-b border-slate-700">
+                        <th className="py-2">Invoice</th>
+                        <th className="py-2">Date</th>
+                        <th className="py-2 text-right">Due</th>
+                        <th className="py-2 w-40 text-right">Allocate</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-700">
+                      {openInvoices.map(({ invoice, due }) => {
+                        const allocation = editing.allocations.find(a => a.invoiceId === invoice.id);
+                        return (
+                          <tr key={invoice.id}>
+                            <td className="py-2 text-white">{invoice.name}</td>
+                            <td className="py-2 text-slate-400">{new Date(invoice.date).toLocaleDateString()}</td>
+                            <td className="py-2 text-right font-mono">{moneyService.format(due)}</td>
+                            <td className="py-2 pl-4">
+                              <input
+                                type="number"
+                                className={`${inputClass} text-right`}
+                                value={allocation ? allocation.amount : ''}
+                                onChange={(e) => setAllocation(invoice.id, moneyService.normalize(Number(e.target.value)))}
+                                placeholder="0"
+                              />
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            )}
+
+            <div className="flex flex-col md:flex-row justify-between items-center gap-4">
+              <div className="text-sm text-slate-400 space-x-4">
+                <span>Allocated: <span className="text-white font-mono">Rs. {moneyService.format(allocated)}</span></span>
+                <span>
+                  Party Credit:{' '}
+                  <span className={`font-mono ${unallocated < 0 ? 'text-red-400' : 'text-green-400'}`}>Rs. {moneyService.format(unallocated)}</span>
+                </span>
+              </div>
+              <Button variant="success" onClick={handleSave}>
+                <Save className="w-4 h-4 mr-2" /> Save Payment
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {payments.length === 0 ? (
+          <div className="text-center py-20 bg-slate-800 rounded-lg border border-slate-700">
+            <Wallet className="mx-auto h-12 w-12 text-slate-600 mb-4" />
+            <h3 className="text-lg font-medium text-slate-300">No payments yet</h3>
+            <p className="mt-1 text-slate-500">Record a cheque or transfer and spread it across the bills it pays.</p>
+          </div>
+        ) : (
+          <>
+            <div className="mb-4 flex flex-wrap items-center justify-end gap-2 text-sm text-slate-400">
+              <label className="flex items-center gap-2">
+                From
+                <input
+                  type="date"
+                  className={dateInputClass}
+                  value={dateRange.from || ''}
+                  onChange={(e) => setDateRange({ ...dateRange, from: e.target.value || undefined })}
+                />
+              </label>
+              <label className="flex items-center gap-2">
+                To
+                <input
+                  type="date"
+                  className={dateInputClass}
+                  value={dateRange.to || ''}
+                  onChange={(e) => setDateRange({ ...dateRange, to: e.target.value || undefined })}
+                />
+              </label>
+              <ExportButtons onExport={handleExportRegister} disabled={shownPayments.length === 0} />
+            </div>
+            <div className="bg-slate-800 rounded-lg border border-slate-700 overflow-x-auto shadow-lg">
+              <table className="w-full text-left border-collapse">
+                <thead>
+                  <tr className="bg-slate-700 text-slate-300 text-xs uppercase tracking-wider">
+                    <th className="p-3">Date</th>
+                    <th className="p-3">Party</th>
+                    <th className="p-3">Method</th>
+                    <th className="p-3">Reference</th>
+                    <th className="p-3 text-right">Amount</th>
+                    <th className="p-3 text-right">Unallocated</th>
+                    <th className="p-3 w-10"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-700 text-sm">
+                  {shownPayments.map(payment => {
+                    const remainder = paymentService.getUnallocated(payment);
+                    return (
+                      <tr key={payment.id} className="hover:bg-slate-750 cursor-pointer" onClick={() => setEditing(payment)}>
+                        <td className="p-3 text-slate-400">{new Date(payment.date).toLocaleDateString()}</td>
+                        <td className="p-3 text-white">{partyName(payment.partyId)}</td>
+                        <td className="p-3 text-slate-300">
+                          {payment.method}
+                          {payment.method === PaymentMethod.CHEQUE && (
+                            <select
+                              className="ml-2 bg-slate-900 border border-slate-600 rounded px-1 py-0.5 text-xs"
+                              value={payment.chequeStatus || ChequeStatus.PENDING}
+                              onClick={(e) => e.stopPropagation()}
+                              onChange={(e) => handleChequeStatus(payment, e.target.value as ChequeStatus)}
+                            >
+                              {Object.values(ChequeStatus).map(s => (
+                                <option key={s} value={s}>{s}</option>
+                              ))}
+                            </select>
+                          )}
+                        </td>
+                        <td className="p-3 text-slate-400 font-mono">{payment.reference}</td>
+                        <td className={`p-3 text-right font-mono ${payment.chequeStatus === ChequeStatus.BOUNCED ? 'line-through text-red-400' : 'text-green-400'}`}>
+                          {moneyService.format(payment.amount)}
+                        </td>
+                        <td className="p-3 text-right font-mono text-slate-300">{remainder ? moneyService.format(remainder) : ''}</td>
+                        <td className="p-3 text-center">
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleDelete(payment);
+                            }}
+                            className="text-slate-500 hover:text-red-400 transition-colors p-1"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
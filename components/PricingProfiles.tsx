@@ -0,0 +1,234 @@
+import React, { useEffect, useState } from 'react';
+import { PricingOverride, PricingProfile, PricingRules, RoundingMode, RoundingScope, User } from '../types';
+import { pricingService, DEFAULT_PRICING_RULES } from '../services/pricingService';
+import { Button } from './Button';
+import { ArrowLeft, Plus, Save, Star, Trash2, Tag } from 'lucide-react';
+
+interface PricingProfilesProps {
+  user: User;
+  onBack: () => void;
+}
+
+const inputClass = "w-full bg-slate-900 border border-slate-600 rounded px-3 py-2 text-sm text-white focus:outline-none focus:border-blue-500";
+
+export const PricingProfiles: React.FC<PricingProfilesProps> = ({ user, onBack }) => {
+  const [profiles, setProfiles] = useState<PricingProfile[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [rules, setRules] = useState<PricingRules>(DEFAULT_PRICING_RULES);
+
+  const selected = profiles.find(p => p.id === selectedId);
+
+  const reload = async (focusId: string | null) => {
+    const active = pricingService.getActiveProfiles(await pricingService.getProfiles(user.shopId));
+    setProfiles(active);
+    selectProfile(active.find(p => p.id === focusId) || active[0] || null);
+  };
+
+  useEffect(() => {
+    reload(null);
+  }, [user.shopId]);
+
+  const selectProfile = (profile: PricingProfile | null) => {
+    setSelectedId(profile ? profile.id : null);
+    setName(profile ? profile.name : '');
+    setRules(profile ? pricingService.toRules(pricingService.getCurrentVersion(profile)) : DEFAULT_PRICING_RULES);
+  };
+
+  const updateOverride = (index: number, field: keyof PricingOverride, value: string | number) => {
+    const overrides = [...rules.overrides];
+    overrides[index] = { ...overrides[index], [field]: value };
+    setRules({ ...rules, overrides });
+  };
+
+  const addOverride = () => {
+    setRules({
+      ...rules,
+      overrides: [...rules.overrides, { company: '', tpPercent: rules.tpPercent, discountBasePercent: rules.discountBasePercent }],
+    });
+  };
+
+  const deleteOverride = (index: number) => {
+    setRules({ ...rules, overrides: rules.overrides.filter((_, i) => i !== index) });
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      alert('Please enter a profile name');
+      return;
+    }
+    const cleaned: PricingRules = {
+      ...rules,
+      overrides: rules.overrides.filter(o => o.company.trim() !== ''),
+    };
+    const saved = await pricingService.saveProfile(user.shopId, selectedId, name.trim(), cleaned);
+    await reload(saved.id);
+  };
+
+  const handleArchive = async () => {
+    if (!selected) return;
+    if (!confirm(`Remove pricing profile "${selected.name}"? Invoices already priced with it keep their totals.`)) return;
+    try {
+      await pricingService.archiveProfile(user.shopId, selected.id);
+      await reload(null);
+    } catch (err) {
+      alert((err as Error).message);
+    }
+  };
+
+  const handleSetDefault = async () => {
+    if (!selected) return;
+    await pricingService.setDefaultProfile(user.shopId, selected.id);
+    await reload(selected.id);
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-100 p-4 md:p-8">
+      <div className="max-w-7xl mx-auto">
+        <header className="flex items-center gap-3 mb-8">
+          <Button variant="secondary" size="sm" onClick={onBack}>
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold text-white">Pricing Profiles</h1>
+            <p className="text-slate-400">Trade price and discount rules used to calculate invoice rows</p>
+          </div>
+        </header>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          {/* Profile List */}
+          <div className="bg-slate-800 rounded-lg border border-slate-700 p-4 shadow-lg space-y-2 h-fit">
+            {profiles.map(profile => (
+              <button
+                key={profile.id}
+                onClick={() => selectProfile(profile)}
+                className={`w-full text-left px-3 py-2 rounded flex items-center justify-between ${
+                  profile.id === selectedId ? 'bg-blue-600 text-white' : 'hover:bg-slate-700 text-slate-300'
+                }`}
+              >
+                <span className="flex items-center">
+                  <Tag className="w-4 h-4 mr-2" /> {profile.name}
+                </span>
+                <span className="text-xs opacity-75">
+                  {profile.isDefault && <Star className="w-3 h-3 inline mr-1" />}
+                  v{pricingService.getCurrentVersion(profile).version}
+                </span>
+              </button>
+            ))}
+            <Button variant="outline" size="sm" onClick={() => selectProfile(null)} className="w-full border-dashed">
+              <Plus className="w-4 h-4 mr-2" /> New Profile
+            </Button>
+          </div>
+
+          {/* Profile Form */}
+          <div className="md:col-span-2 bg-slate-800 rounded-lg border border-slate-700 p-6 shadow-lg space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <label className="space-y-1 md:col-span-2">
+                <span className="text-sm text-slate-400">Profile Name</span>
+                <input className={inputClass} value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Standard" />
+              </label>
+              <label className="space-y-1">
+                <span className="text-sm text-slate-400">T.P % (off Rate)</span>
+                <input
+                  type="number"
+                  className={inputClass}
+                  value={rules.tpPercent}
+                  onChange={(e) => setRules({ ...rules, tpPercent: Number(e.target.value) })}
+                />
+              </label>
+              <label className="space-y-1">
+                <span className="text-sm text-slate-400">Discount Base % (off T.P)</span>
+                <input
+                  type="number"
+                  className={inputClass}
+                  value={rules.discountBasePercent}
+                  onChange={(e) => setRules({ ...rules, discountBasePercent: Number(e.target.value) })}
+                />
+              </label>
+              <label className="space-y-1">
+                <span className="text-sm text-slate-400">Rounding</span>
+                <select
+                  className={inputClass}
+                  value={rules.rounding}
+                  onChange={(e) => setRules({ ...rules, rounding: e.target.value as RoundingMode })}
+                >
+                  <option value={RoundingMode.HALF_UP}>Half up</option>
+                  <option value={RoundingMode.HALF_EVEN}>Half even (banker's)</option>
+                  <option value={RoundingMode.UP}>Always up</option>
+                  <option value={RoundingMode.DOWN}>Always down</option>
+                </select>
+              </label>
+              <label className="space-y-1">
+                <span className="text-sm text-slate-400">Round Amounts</span>
+                <select
+                  className={inputClass}
+                  value={rules.roundingScope}
+                  onChange={(e) => setRules({ ...rules, roundingScope: e.target.value as RoundingScope })}
+                >
+                  <option value={RoundingScope.LINE}>On every line</option>
+                  <option value={RoundingScope.INVOICE}>Once on the invoice total</option>
+                </select>
+              </label>
+            </div>
+
+            <div>
+              <h3 className="text-lg font-bold text-white mb-3">Company Overrides</h3>
+              <div className="space-y-3 mb-4">
+                {rules.overrides.map((override, idx) => (
+                  <div key={idx} className="flex gap-2 items-center">
+                    <input
+                      className={`${inputClass} flex-1`}
+                      placeholder="Company"
+                      value={override.company}
+                      onChange={(e) => updateOverride(idx, 'company', e.target.value)}
+                    />
+                    <input
+                      type="number"
+                      className={`${inputClass} w-28 text-right`}
+                      title="T.P %"
+                      value={override.tpPercent}
+                      onChange={(e) => updateOverride(idx, 'tpPercent', Number(e.target.value))}
+                    />
+                    <input
+                      type="number"
+                      className={`${inputClass} w-28 text-right`}
+                      title="Discount Base %"
+                      value={override.discountBasePercent}
+                      onChange={(e) => updateOverride(idx, 'discountBasePercent', Number(e.target.value))}
+                    />
+                    <button onClick={() => deleteOverride(idx)} className="text-slate-500 hover:text-red-500">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <Button variant="outline" size="sm" onClick={addOverride} className="w-full border-dashed">
+                <Plus className="w-4 h-4 mr-2" /> Add Company Override
+              </Button>
+            </div>
+
+            <p className="text-sm text-slate-500">
+              Saving changed rules creates a new version. Existing invoices keep the version they were priced with.
+            </p>
+
+            <div className="flex gap-2 justify-end">
+              {selected && !selected.isDefault && (
+                <>
+                  <Button variant="outline" onClick={handleSetDefault}>
+                    <Star className="w-4 h-4 mr-2" /> Make Default
+                  </Button>
+                  <Button variant="danger" onClick={handleArchive}>
+                    <Trash2 className="w-4 h-4 mr-2" /> Remove
+                  </Button>
+                </>
+              )}
+              <Button variant="success" onClick={handleSave}>
+                <Save className="w-4 h-4 mr-2" /> Save Profile
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { Product } from '../types';
+import { catalogService } from '../services/catalogService';
+import { moneyService } from '../services/moneyService';
+
+interface ProductAutocompleteProps {
+  id: string;
+  value: string;
+  products: Product[];
+  className?: string;
+  placeholder?: string;
+  onChange: (value: string) => void;
+  onSelect: (product: Product) => void;
+  // Called for keys the suggestion list doesn't handle, so grid navigation keeps working
+  onKeyDown?: (e: React.KeyboardEvent<HTMLInputElement>) => void;
+}
+
+export const ProductAutocomplete: React.FC<ProductAutocompleteProps> = ({
+  id,
+  value,
+  products,
+  className = '',
+  placeholder,
+  onChange,
+  onSelect,
+  onKeyDown,
+}) => {
+  const [open, setOpen] = useState(false);
+  const [highlight, setHighlight] = useState(0);
+
+  const suggestions = open ? catalogService.search(products, value) : [];
+
+  const choose = (product: Product) => {
+    onSelect(product);
+    setOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown') {
+        e.preventDefault();
+        setHighlight(h => Math.min(suggestions.length - 1, h + 1));
+        return;
+      }
+      if (e.key === 'ArrowUp') {
+        e.preventDefault();
+        setHighlight(h => Math.max(0, h - 1));
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        if (e.key === 'Enter') e.preventDefault();
+        choose(suggestions[Math.min(highlight, suggestions.length - 1)]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        setOpen(false);
+        return;
+      }
+    } else if (e.key === 'Enter') {
+      // Barcode scanners type the code and press Enter
+      const scanned = catalogService.findByBarcode(products, value);
+      if (scanned) {
+        e.preventDefault();
+        choose(scanned);
+        return;
+      }
+    }
+    onKeyDown?.(e);
+  };
+
+  return (
+    <div className="relative">
+      <input
+        id={id}
+        type="text"
+        autoComplete="off"
+        className={className}
+        value={value}
+        placeholder={placeholder}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setHighlight(0);
+          setOpen(true);
+        }}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+      />
+      {suggestions.length > 0 && (
+        <ul className="absolute z-30 left-0 right-0 mt-1 bg-slate-800 border border-slate-600 rounded shadow-xl max-h-64 overflow-y-auto">
+          {suggestions.map((product, idx) => (
+            <li
+              key={product.id}
+              // mousedown fires before the input's blur closes the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                choose(product);
+              }}
+              className={`px-3 py-2 cursor-pointer text-sm ${idx === highlight ? 'bg-blue-600 text-white' : 'text-slate-200 hover:bg-slate-700'}`}
+            >
+              <div className="flex justify-between gap-2">
+                <span className="font-medium">{product.name}</span>
+                <span className="font-mono">{moneyService.format(product.defaultRate)}</span>
+              </div>
+              <div className="text-xs text-slate-400">
+                {[product.company, product.packSize].filter(Boolean).join(' · ')}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
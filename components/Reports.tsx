@@ -0,0 +1,221 @@
+import React, { useEffect, useState } from 'react';
+import { Invoice, Party, Payment, Product, User } from '../types';
+import { storageService } from '../services/storageService';
+import { partyService } from '../services/partyService';
+import { catalogService } from '../services/catalogService';
+import { businessProfileService } from '../services/businessProfileService';
+import { DEFAULT_BATCH_SETTINGS } from '../services/batchService';
+import { moneyService } from '../services/moneyService';
+import { exportService } from '../services/exportService';
+import { ExportFormat, SheetTable } from '../services/spreadsheetService';
+import { Granularity, Report, REPORTS, ReportFilter, ReportKind, reportService } from '../services/reportService';
+import { Button } from './Button';
+import { BarChart } from './BarChart';
+import { ExportButtons } from './ExportButtons';
+import { ArrowLeft, BarChart3, Loader, Printer } from 'lucide-react';
+
+interface ReportsProps {
+  user: User;
+  onBack: () => void;
+}
+
+const inputClass = "bg-slate-800 border border-slate-700 rounded-md px-2 py-1.5 text-slate-100 focus:outline-none focus:border-blue-500";
+
+const cellText = (table: SheetTable, value: string | number | null, column: number) => {
+  if (value === null || value === '') return '';
+  return table.columns[column].type === 'money' && typeof value === 'number' ? moneyService.format(value) : String(value);
+};
+
+export const Reports: React.FC<ReportsProps> = ({ user, onBack }) => {
+  const [kind, setKind] = useState<ReportKind>('sales');
+  const [filter, setFilter] = useState<ReportFilter>({});
+  const [granularity, setGranularity] = useState<Granularity>('month');
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [parties, setParties] = useState<Party[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [withinDays, setWithinDays] = useState(DEFAULT_BATCH_SETTINGS.nearExpiryDays);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const load = async () => {
+      const [invoiceList, paymentList, partyList, productList, business] = await Promise.all([
+        storageService.getInvoices(user.shopId),
+        storageService.getPayments(user.shopId),
+        partyService.getParties(user.shopId),
+        catalogService.getProducts(user.shopId),
+        businessProfileService.getProfile(user.shopId),
+      ]);
+      setInvoices(invoiceList);
+      setPayments(paymentList);
+      setParties(partyList);
+      setProducts(productList);
+      // The expiry report starts from the window the shop is warned about
+      setWithinDays(business.batches.nearExpiryDays);
+      setLoading(false);
+    };
+    load();
+  }, [user.shopId]);
+
+  const buildReport = (): Report => {
+    switch (kind) {
+      case 'collections': return reportService.collections(payments, filter, granularity);
+      case 'aging': return reportService.aging(invoices, payments, parties, filter);
+      case 'items': return reportService.items(invoices, filter);
+      case 'discounts': return reportService.discounts(invoices, parties, filter, granularity);
+      case 'stock': return reportService.stock(products, invoices, filter);
+      case 'expiring': return reportService.expiring(products, invoices, filter, withinDays);
+      default: return reportService.sales(invoices, filter, granularity);
+    }
+  };
+  const report = buildReport();
+  const { table } = report;
+
+  // Balances and stock are as of a date, and stock belongs to no party
+  const isStock = kind === 'stock' || kind === 'expiring';
+  const asOf = kind === 'aging' || isStock;
+  const byParty = !isStock;
+  const party = byParty ? parties.find(p => p.id === filter.partyId) : undefined;
+  const filterSummary = [
+    asOf ? `As of ${filter.to || 'today'}` : `${filter.from || 'Start'} to ${filter.to || 'today'}`,
+    byParty ? (party ? party.name : 'All parties') : '',
+    kind === 'expiring' ? `Expiring within ${withinDays} days` : '',
+  ].filter(Boolean).join(' · ');
+
+  const handleExport = (format: ExportFormat) => {
+    const base = `${REPORTS[kind].label}${party ? `_${party.name}` : ''}`;
+    exportService.download(table, format, exportService.fileName(base, format, filter));
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-100 p-4 md:p-8 print-light">
+      <div className="max-w-7xl mx-auto">
+        <header className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-6 print:hidden">
+          <div className="flex items-center gap-3">
+            <Button variant="secondary" size="sm" onClick={onBack}>
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+            <div>
+              <h1 className="text-3xl font-bold text-white">Reports</h1>
+              <p className="text-slate-400">Sales, collections, receivables, items, stock and expiry</p>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => window.print()} disabled={loading}>
+              <Printer className="w-4 h-4 mr-2" /> Print
+            </Button>
+            <ExportButtons onExport={handleExport} disabled={loading || table.rows.length === 0} />
+          </div>
+        </header>
+
+        <div className="flex flex-wrap gap-2 mb-4 print:hidden">
+          {(Object.keys(REPORTS) as ReportKind[]).map(key => (
+            <Button key={key} variant={key === kind ? 'primary' : 'outline'} size="sm" onClick={() => setKind(key)}>
+              {REPORTS[key].label}
+            </Button>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 mb-6 text-sm text-slate-400 print:hidden">
+          {!asOf && (
+            <label className="flex items-center gap-2">
+              From
+              <input type="date" className={inputClass} value={filter.from || ''} onChange={(e) => setFilter({ ...filter, from: e.target.value || undefined })} />
+            </label>
+          )}
+          <label className="flex items-center gap-2">
+            {asOf ? 'As of' : 'To'}
+            <input type="date" className={inputClass} value={filter.to || ''} onChange={(e) => setFilter({ ...filter, to: e.target.value || undefined })} />
+          </label>
+          {byParty && (
+            <select className={inputClass} value={filter.partyId || ''} onChange={(e) => setFilter({ ...filter, partyId: e.target.value || undefined })}>
+              <option value="">All parties</option>
+              {parties.map(p => (
+                <option key={p.id} value={p.id}>{p.name}</option>
+              ))}
+            </select>
+          )}
+          {kind === 'expiring' && (
+            <label className="flex items-center gap-2">
+              Expiring within
+              <input
+                type="number"
+                min="0"
+                className={`${inputClass} w-20`}
+                value={withinDays}
+                onChange={(e) => setWithinDays(Math.max(0, parseInt(e.target.value) || 0))}
+              />
+              days
+            </label>
+          )}
+          {REPORTS[kind].byPeriod && (
+            <select className={inputClass} value={granularity} onChange={(e) => setGranularity(e.target.value as Granularity)}>
+              <option value="day">By day</option>
+              <option value="month">By month</option>
+            </select>
+          )}
+        </div>
+
+        {/* Printed in place of the controls */}
+        <div className="hidden print:block mb-4">
+          <h1 className="text-2xl font-bold">{REPORTS[kind].label}</h1>
+          <p className="text-sm">{filterSummary}</p>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-20">
+            <Loader className="w-8 h-8 animate-spin text-blue-500" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="bg-slate-800 rounded-lg border border-slate-700 p-4 shadow-lg break-inside-avoid">
+              <h3 className="text-sm font-semibold text-slate-300 mb-2 flex items-center print:hidden">
+                <BarChart3 className="w-4 h-4 mr-2 text-blue-400" /> {REPORTS[kind].label} · {filterSummary}
+                {kind === 'items' && table.rows.length > report.chart.length && ` · top ${report.chart.length} by value`}
+                {kind === 'stock' && ' · low on stock'}
+                {kind === 'expiring' && ' · units by expiry month'}
+              </h3>
+              <BarChart data={report.chart} />
+            </div>
+
+            <div className="bg-slate-800 rounded-lg border border-slate-700 shadow-lg overflow-x-auto">
+              {table.rows.length === 0 ? (
+                <p className="p-8 text-center text-slate-500">Nothing in this range</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="bg-slate-900 text-slate-400 text-left">
+                      {table.columns.map(col => (
+                        <th key={col.header} className={`p-3 font-medium whitespace-nowrap ${col.type ? 'text-right' : ''}`}>{col.header}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {table.rows.map((row, r) => (
+                      <tr key={r} className="border-t border-slate-700">
+                        {row.map((value, c) => (
+                          <td key={c} className={`p-3 ${table.columns[c].type ? 'text-right tabular-nums' : 'text-slate-200'}`}>
+                            {cellText(table, value, c)}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                  {table.totals && (
+                    <tfoot>
+                      <tr className="border-t-2 border-slate-600 font-bold text-white">
+                        {table.totals.map((value, c) => (
+                          <td key={c} className={`p-3 ${table.columns[c].type ? 'text-right tabular-nums' : ''}`}>{cellText(table, value, c)}</td>
+                        ))}
+                      </tr>
+                    </tfoot>
+                  )}
+                </table>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,81 @@
+import React from 'react';
+import { Keyboard, X } from 'lucide-react';
+
+interface ShortcutHelpProps {
+  onClose: () => void;
+}
+
+const SHORTCUTS: { section: string; keys: [string, string][] }[] = [
+  {
+    section: 'Moving around',
+    keys: [
+      ['Enter / Shift+Enter', 'Next / previous row, adds a row after the last one'],
+      ['Tab / Shift+Tab', 'Next / previous editable cell, skipping calculated columns'],
+      ['Arrow keys', 'Move between cells (Left/Right at the edge of the text)'],
+      ['Ctrl+Enter', 'Save the invoice'],
+    ],
+  },
+  {
+    section: 'Rows',
+    keys: [
+      ['Ctrl+D', 'Duplicate the row'],
+      ['Ctrl+Delete', 'Delete the row, or every selected row'],
+      ['Drag the handle', 'Reorder rows (drags the whole selection)'],
+    ],
+  },
+  {
+    section: 'Selection',
+    keys: [
+      ['Click row number', 'Select a row'],
+      ['Shift+Click / Ctrl+Click', 'Select a range / add or remove a row'],
+      ['Shift+Up / Shift+Down', 'Extend the selection'],
+      ['Ctrl+C', 'Copy the selected rows (pastes into Excel too)'],
+      ['Ctrl+V', 'Paste rows copied from here or a spreadsheet'],
+      ['Ctrl+Shift+D', "Fill the column down from the first selected row"],
+      ['Escape', 'Clear the selection'],
+    ],
+  },
+  {
+    section: 'Editing',
+    keys: [
+      ['Ctrl+Z', 'Undo'],
+      ['Ctrl+Y / Ctrl+Shift+Z', 'Redo'],
+      ['Ctrl+/ or F1', 'Show this list'],
+    ],
+  },
+];
+
+export const ShortcutHelp: React.FC<ShortcutHelpProps> = ({ onClose }) => (
+  <div className="fixed inset-0 z-40 bg-black/60 flex items-center justify-center p-4" onClick={onClose}>
+    <div
+      className="bg-slate-800 rounded-lg border border-slate-700 shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex justify-between items-center p-4 border-b border-slate-700">
+        <h3 className="text-lg font-bold text-white flex items-center">
+          <Keyboard className="w-5 h-5 mr-2 text-blue-400" /> Keyboard Shortcuts
+        </h3>
+        <button onClick={onClose} className="text-slate-500 hover:text-white">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+      <div className="p-4 grid grid-cols-1 md:grid-cols-2 gap-6">
+        {SHORTCUTS.map(({ section, keys }) => (
+          <div key={section}>
+            <h4 className="text-xs uppercase tracking-wider text-slate-400 mb-2">{section}</h4>
+            <dl className="space-y-2 text-sm">
+              {keys.map(([key, action]) => (
+                <div key={key} className="flex gap-3">
+                  <dt className="w-40 flex-shrink-0">
+                    <kbd className="px-1.5 py-0.5 rounded bg-slate-900 border border-slate-600 font-mono text-xs text-slate-200">{key}</kbd>
+                  </dt>
+                  <dd className="text-slate-300">{action}</dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+        ))}
+      </div>
+    </div>
+  </div>
+);
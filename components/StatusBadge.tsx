@@ -0,0 +1,27 @@
+import React from 'react';
+import { InvoiceStatus } from '../types';
+
+interface StatusBadgeProps {
+  status: InvoiceStatus;
+  overridden?: boolean;
+  className?: string;
+}
+
+const styles: Record<InvoiceStatus, string> = {
+  [InvoiceStatus.DRAFT]: 'bg-slate-700 text-slate-300 border border-slate-600',
+  [InvoiceStatus.UNPAID]: 'bg-yellow-900 text-yellow-200 border border-yellow-700',
+  [InvoiceStatus.PARTIAL]: 'bg-blue-900 text-blue-200 border border-blue-700',
+  [InvoiceStatus.PAID]: 'bg-green-900 text-green-200 border border-green-700',
+  [InvoiceStatus.OVERDUE]: 'bg-red-900 text-red-200 border border-red-700',
+  [InvoiceStatus.CANCELLED]: 'bg-slate-800 text-slate-500 border border-slate-600 line-through',
+};
+
+export const StatusBadge: React.FC<StatusBadgeProps> = ({ status, overridden = false, className = '' }) => (
+  <span
+    className={`px-2 py-1 rounded-full text-xs font-semibold uppercase tracking-wide whitespace-nowrap ${styles[status]} ${className}`}
+    title={overridden ? 'Set manually' : undefined}
+  >
+    {status}
+    {overridden && ' *'}
+  </span>
+);
@@ -0,0 +1,221 @@
+import React, { useEffect, useState } from 'react';
+import { SyncConflict, User } from '../types';
+import { SYNC_STORE_LABELS, syncService } from '../services/syncService';
+import { SyncedStore } from '../services/changeLogAdapter';
+import { auditService } from '../services/auditService';
+import { permissionService } from '../services/permissionService';
+import { SYNC_STATUS_LABELS, useSyncSnapshot } from './SyncIndicator';
+import { Button } from './Button';
+import { AlertTriangle, ArrowLeft, Check, Cloud, RefreshCw, Undo2 } from 'lucide-react';
+
+interface SyncProps {
+  user: User;
+  onBack: () => void;
+}
+
+const inputClass = "w-full bg-slate-900 border border-slate-600 rounded px-3 py-2 text-sm text-white focus:outline-none focus:border-blue-500";
+
+const describe = (conflict: SyncConflict, value: unknown) => {
+  if (conflict.field === 'deleted') return value === null ? 'Deleted' : 'Kept and edited';
+  return auditService.formatValue(value);
+};
+
+export const Sync: React.FC<SyncProps> = ({ user, onBack }) => {
+  const snapshot = useSyncSnapshot();
+  const [enabled, setEnabled] = useState(false);
+  const [serverUrl, setServerUrl] = useState('');
+  const [token, setToken] = useState('');
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const canEdit = permissionService.can(user, 'settings.edit');
+
+  useEffect(() => {
+    syncService.getSettings(user.shopId).then(settings => {
+      setEnabled(!!settings);
+      setServerUrl(settings?.serverUrl || '');
+      setToken(settings?.token || '');
+    });
+  }, [user.shopId]);
+
+  // Conflicts come and go with each sync
+  useEffect(() => {
+    syncService.getConflicts(user.shopId).then(setConflicts);
+  }, [user.shopId, snapshot.conflicts, snapshot.lastSyncAt]);
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await syncService.enable(user.shopId, serverUrl, token);
+      setEnabled(true);
+      await syncService.sync(user.shopId);
+    } catch (err) {
+      alert((err as Error).message);
+    }
+    setSaving(false);
+  };
+
+  const handleDisable = async () => {
+    if (!confirm('Stop syncing this device? Changes made here from now on stay on this device.')) return;
+    try {
+      await syncService.disable(user.shopId);
+      setEnabled(false);
+    } catch (err) {
+      alert((err as Error).message);
+    }
+  };
+
+  const handleResolve = async (conflict: SyncConflict) => {
+    try {
+      await syncService.resolveConflict(user.shopId, conflict.id);
+      await syncService.sync(user.shopId);
+    } catch (err) {
+      alert((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-100 p-4 md:p-8">
+      <div className="max-w-7xl mx-auto">
+        <header className="flex flex-col md:flex-row justify-between items-center mb-8 gap-4">
+          <div className="flex items-center gap-3">
+            <Button variant="secondary" size="sm" onClick={onBack}>
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+            <div>
+              <h1 className="text-3xl font-bold text-white">Sync</h1>
+              <p className="text-slate-400">Keep the shop's books the same on every device</p>
+            </div>
+          </div>
+          {enabled && (
+            <Button onClick={() => syncService.sync(user.shopId)} disabled={snapshot.status === 'syncing'}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${snapshot.status === 'syncing' ? 'animate-spin' : ''}`} /> Sync Now
+            </Button>
+          )}
+        </header>
+
+        {enabled && (
+          <div className="bg-slate-800 rounded-lg border border-slate-700 p-6 shadow-lg mb-6 grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <p className="text-slate-400">Status</p>
+              <p className="text-white font-semibold">{SYNC_STATUS_LABELS[snapshot.status]}</p>
+            </div>
+            <div>
+              <p className="text-slate-400">Last synced</p>
+              <p className="text-white">{snapshot.lastSyncAt ? new Date(snapshot.lastSyncAt).toLocaleString() : 'Never'}</p>
+            </div>
+            <div>
+              <p className="text-slate-400">Waiting to send</p>
+              <p className="text-white">{snapshot.pending} {snapshot.pending === 1 ? 'change' : 'changes'}</p>
+            </div>
+            <div>
+              <p className="text-slate-400">Conflicts</p>
+              <p className={snapshot.conflicts > 0 ? 'text-amber-400 font-semibold' : 'text-white'}>{snapshot.conflicts}</p>
+            </div>
+            {snapshot.lastError && (
+              <p className="col-span-full text-red-400 flex items-center">
+                <AlertTriangle className="w-4 h-4 mr-2" /> {snapshot.lastError}
+              </p>
+            )}
+          </div>
+        )}
+
+        <form onSubmit={handleEnable} className="bg-slate-800 rounded-lg border border-slate-700 p-6 shadow-lg mb-6">
+          <h3 className="text-lg font-bold text-white flex items-center mb-4">
+            <Cloud className="w-5 h-5 mr-2 text-blue-400" /> Sync Server
+          </h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <label className="space-y-1">
+              <span className="text-sm text-slate-400">Server address</span>
+              <input
+                required
+                className={inputClass}
+                placeholder="http://192.168.1.10:8787"
+                value={serverUrl}
+                disabled={enabled || !canEdit}
+                onChange={(e) => setServerUrl(e.target.value)}
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-sm text-slate-400">Access token</span>
+              <input
+                type="password"
+                className={inputClass}
+                value={token}
+                disabled={enabled || !canEdit}
+                onChange={(e) => setToken(e.target.value)}
+              />
+            </label>
+          </div>
+          <p className="text-xs text-slate-500 mt-3">
+            Run <code>npm run sync-server</code> on a computer every device can reach. Records are encrypted before they are sent.
+            Other devices join from the sign-in screen.
+          </p>
+          {canEdit ? (
+            <div className="flex justify-end mt-4">
+              {enabled ? (
+                <Button type="button" variant="danger" onClick={handleDisable}>Turn Off Sync</Button>
+              ) : (
+                <Button type="submit" variant="success" disabled={saving}>
+                  {saving ? 'Connecting...' : 'Turn On Sync'}
+                </Button>
+              )}
+            </div>
+          ) : (
+            <p className="text-xs text-slate-500 mt-2">Only the owner can change where the shop syncs to.</p>
+          )}
+        </form>
+
+        {conflicts.length > 0 && (
+          <div className="bg-slate-800 rounded-lg border border-amber-500/50 shadow-lg overflow-x-auto">
+            <h3 className="text-lg font-bold text-white flex items-center p-4">
+              <AlertTriangle className="w-5 h-5 mr-2 text-amber-400" /> Conflicts
+            </h3>
+            <p className="px-4 pb-3 text-sm text-slate-400">
+              These were changed here and on another device before either synced. The later change was kept.
+            </p>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="bg-slate-900 text-slate-400 text-left">
+                  <th className="p-3 font-medium">Record</th>
+                  <th className="p-3 font-medium">Field</th>
+                  <th className="p-3 font-medium">This device</th>
+                  <th className="p-3 font-medium">Other device</th>
+                  <th className="p-3" />
+                </tr>
+              </thead>
+              <tbody>
+                {conflicts.map(conflict => (
+                  <tr key={conflict.id} className="border-t border-slate-700 align-top">
+                    <td className="p-3 text-white">
+                      {conflict.label}
+                      <span className="block text-xs text-slate-500">{SYNC_STORE_LABELS[conflict.store as SyncedStore]}</span>
+                    </td>
+                    <td className="p-3 text-slate-300">{conflict.field === 'deleted' ? 'Deleted or edited' : conflict.field}</td>
+                    <td className={`p-3 ${conflict.kept === 'local' ? 'text-green-400' : 'text-slate-400'}`}>
+                      {describe(conflict, conflict.local)}
+                      <span className="block text-xs text-slate-500">{new Date(conflict.localAt).toLocaleString()}</span>
+                    </td>
+                    <td className={`p-3 ${conflict.kept === 'remote' ? 'text-green-400' : 'text-slate-400'}`}>
+                      {describe(conflict, conflict.remote)}
+                      <span className="block text-xs text-slate-500">{conflict.remoteBy} · {new Date(conflict.remoteAt).toLocaleString()}</span>
+                    </td>
+                    <td className="p-3 text-right whitespace-nowrap space-x-2">
+                      <Button variant="outline" size="sm" onClick={() => syncService.dismissConflict(user.shopId, conflict.id)} title="Keep the value in green">
+                        <Check className="w-4 h-4 mr-1" /> Keep
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => handleResolve(conflict)} title="Switch to the other value on every device">
+                        <Undo2 className="w-4 h-4 mr-1" /> Use Other
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,50 @@
+import React, { useEffect, useState } from 'react';
+import { SyncStatus } from '../types';
+import { SyncSnapshot, syncService } from '../services/syncService';
+import { Button } from './Button';
+import { AlertTriangle, Cloud, CloudOff, RefreshCw } from 'lucide-react';
+
+interface SyncIndicatorProps {
+  onClick: () => void;
+}
+
+export const SYNC_STATUS_LABELS: Record<SyncStatus, string> = {
+  off: 'Sync off',
+  idle: 'Synced',
+  syncing: 'Syncing',
+  offline: 'Offline',
+  error: 'Sync failed',
+};
+
+// Follows the sync status, e.g. to show it or reload after changes arrive
+export const useSyncSnapshot = (): SyncSnapshot => {
+  const [snapshot, setSnapshot] = useState<SyncSnapshot>(syncService.getSnapshot());
+  useEffect(() => syncService.subscribe(setSnapshot), []);
+  return snapshot;
+};
+
+export const SyncIndicator: React.FC<SyncIndicatorProps> = ({ onClick }) => {
+  const { status, pending, conflicts, lastError } = useSyncSnapshot();
+
+  const icon = {
+    off: <CloudOff className="w-4 h-4 mr-2 text-slate-500" />,
+    idle: <Cloud className="w-4 h-4 mr-2 text-green-400" />,
+    syncing: <RefreshCw className="w-4 h-4 mr-2 text-blue-400 animate-spin" />,
+    offline: <CloudOff className="w-4 h-4 mr-2 text-amber-400" />,
+    error: <AlertTriangle className="w-4 h-4 mr-2 text-red-400" />,
+  }[status];
+
+  let label = SYNC_STATUS_LABELS[status];
+  if (status === 'idle' && pending > 0) label = `${pending} to sync`;
+
+  return (
+    <Button variant="secondary" onClick={onClick} size="sm" title={lastError || undefined}>
+      {icon} {label}
+      {conflicts > 0 && (
+        <span className="ml-2 rounded-full bg-amber-500 px-1.5 text-xs font-bold text-slate-900" title="Conflicts to check">
+          {conflicts}
+        </span>
+      )}
+    </Button>
+  );
+};
@@ -0,0 +1,207 @@
+import React, { useEffect, useState } from 'react';
+import { Role, ShopMember, User } from '../types';
+import { authService } from '../services/authService';
+import { PERMISSION_LABELS, permissionService, ROLE_LABELS } from '../services/permissionService';
+import { Button } from './Button';
+import { ArrowLeft, Plus, Trash2, UserCog, X } from 'lucide-react';
+
+interface UsersProps {
+  user: User;
+  onBack: () => void;
+}
+
+interface NewMember {
+  username: string;
+  password: string;
+  role: Role;
+  ownerPassword: string;
+}
+
+const inputClass = "w-full bg-slate-900 border border-slate-600 rounded px-3 py-2 text-sm text-white focus:outline-none focus:border-blue-500";
+
+const emptyMember = (): NewMember => ({ username: '', password: '', role: Role.SALESPERSON, ownerPassword: '' });
+
+// Roles the owner can hand out
+const MEMBER_ROLES = [Role.ACCOUNTANT, Role.SALESPERSON];
+
+export const Users: React.FC<UsersProps> = ({ user, onBack }) => {
+  const [members, setMembers] = useState<ShopMember[]>([]);
+  const [adding, setAdding] = useState<NewMember | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const reload = async () => {
+    setMembers(await authService.getMembers(user.shopId));
+  };
+
+  useEffect(() => {
+    reload();
+  }, [user.shopId]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!adding) return;
+    setSaving(true);
+    try {
+      await authService.addMember(user, adding.ownerPassword, adding.username, adding.password, adding.role);
+      alert(`${adding.username.trim()} can now sign in on this device with the password you set`);
+      setAdding(null);
+      await reload();
+    } catch (err) {
+      alert((err as Error).message);
+    }
+    setSaving(false);
+  };
+
+  const handleRoleChange = async (member: ShopMember, role: Role) => {
+    try {
+      await authService.setMemberRole(user.shopId, member.username, role);
+      await reload();
+    } catch (err) {
+      alert((err as Error).message);
+    }
+  };
+
+  const handleRemove = async (member: ShopMember) => {
+    if (!confirm(`Remove ${member.username}? They will no longer be able to sign in, but anything they already copied stays readable to them.`)) return;
+    try {
+      await authService.removeMember(user.shopId, member.username);
+      await reload();
+    } catch (err) {
+      alert((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-100 p-4 md:p-8">
+      <div className="max-w-7xl mx-auto">
+        <header className="flex flex-col md:flex-row justify-between items-center mb-8 gap-4">
+          <div className="flex items-center gap-3">
+            <Button variant="secondary" size="sm" onClick={onBack}>
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+            <div>
+              <h1 className="text-3xl font-bold text-white">Users</h1>
+              <p className="text-slate-400">Who can sign in to this shop, and what they can do</p>
+            </div>
+          </div>
+          <Button onClick={() => setAdding(emptyMember())}>
+            <Plus className="w-4 h-4 mr-2" /> Add User
+          </Button>
+        </header>
+
+        {adding && (
+          <form onSubmit={handleAdd} className="bg-slate-800 rounded-lg border border-slate-700 p-6 shadow-lg mb-6">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-bold text-white">New User</h3>
+              <button type="button" onClick={() => setAdding(null)} className="text-slate-500 hover:text-white">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <label className="space-y-1">
+                <span className="text-sm text-slate-400">Username</span>
+                <input required className={inputClass} value={adding.username} onChange={(e) => setAdding({ ...adding, username: e.target.value })} autoFocus />
+              </label>
+              <label className="space-y-1">
+                <span className="text-sm text-slate-400">Role</span>
+                <select className={inputClass} value={adding.role} onChange={(e) => setAdding({ ...adding, role: e.target.value as Role })}>
+                  {MEMBER_ROLES.map(role => (
+                    <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="space-y-1">
+                <span className="text-sm text-slate-400">Their password</span>
+                <input type="password" required className={inputClass} value={adding.password} onChange={(e) => setAdding({ ...adding, password: e.target.value })} />
+              </label>
+              <label className="space-y-1">
+                <span className="text-sm text-slate-400">Your password</span>
+                <input type="password" required className={inputClass} value={adding.ownerPassword} onChange={(e) => setAdding({ ...adding, ownerPassword: e.target.value })} />
+              </label>
+            </div>
+            <p className="text-xs text-slate-500 mt-3">
+              Your password unlocks the shop's data key so it can be shared with them. They can change their own password from Account.
+            </p>
+            <div className="flex justify-end mt-4">
+              <Button type="submit" variant="success" disabled={saving}>
+                {saving ? 'Adding...' : 'Add User'}
+              </Button>
+            </div>
+          </form>
+        )}
+
+        <div className="bg-slate-800 rounded-lg border border-slate-700 shadow-lg overflow-x-auto mb-3">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-slate-900 text-slate-400 text-left">
+                <th className="p-3 font-medium">User</th>
+                <th className="p-3 font-medium">Role</th>
+                <th className="p-3 font-medium">Added</th>
+                <th className="p-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {members.map(member => {
+                const isOwner = member.role === Role.OWNER;
+                return (
+                  <tr key={member.username} className="border-t border-slate-700">
+                    <td className="p-3 text-white">
+                      {member.username}
+                      {member.username === user.username && <span className="ml-2 text-xs text-slate-500">(you)</span>}
+                    </td>
+                    <td className="p-3">
+                      {isOwner ? (
+                        <span className="text-slate-300">{ROLE_LABELS[member.role]}</span>
+                      ) : (
+                        <select
+                          className="bg-slate-900 border border-slate-600 rounded px-2 py-1 text-sm text-white focus:outline-none focus:border-blue-500"
+                          value={member.role}
+                          onChange={(e) => handleRoleChange(member, e.target.value as Role)}
+                        >
+                          {MEMBER_ROLES.map(role => (
+                            <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                          ))}
+                        </select>
+                      )}
+                    </td>
+                    <td className="p-3 text-slate-400">
+                      {member.addedAt ? new Date(member.addedAt).toLocaleDateString() : ''}
+                      {!isOwner && ` by ${member.addedBy}`}
+                    </td>
+                    <td className="p-3 text-right">
+                      {!isOwner && (
+                        <button onClick={() => handleRemove(member)} className="text-slate-500 hover:text-red-500" title="Remove user">
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-xs text-slate-500 mb-6">
+          Removing a user stops their sign-in on this device at once, and on other devices and the sync server once they sync.
+          It doesn't change the shop's encryption key, so a copy of the data or the key they took while they were a user stays
+          readable to them. If that matters, start a new shop and move the books across with a backup.
+        </p>
+
+        <div className="grid gap-4 md:grid-cols-3">
+          {Object.values(Role).map(role => (
+            <div key={role} className="bg-slate-800 rounded-lg border border-slate-700 p-5 shadow-lg">
+              <h3 className="text-lg font-semibold text-white flex items-center mb-3">
+                <UserCog className="w-5 h-5 mr-2 text-blue-400" /> {ROLE_LABELS[role]}
+              </h3>
+              <ul className="text-sm text-slate-400 space-y-1 list-disc pl-5">
+                {permissionService.permissionsOf(role).map(permission => (
+                  <li key={permission} className="first-letter:uppercase">{PERMISSION_LABELS[permission]}</li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,226 @@
+// Reference sync server for Hisaab Kitaab. Plain Node, no dependencies.
+//
+//   npm run sync-server
+//
+// PORT (default 8787), SYNC_DATA_DIR (default ./sync-data) and SYNC_TOKEN (every request must
+// send it as a bearer token) are read from the environment. It won't start without a token
+// unless SYNC_OPEN=1 is set, for a server only reachable from a trusted network.
+//
+// It keeps an append-only log of changes per shop and hands them out in order. Change
+// contents are encrypted by the app with the shop's data key, so the server can't read them.
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+import { appendFile, mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+const DEFAULT_PAGE = 500;
+
+const fileName = (id) => createHash('sha256').update(id).digest('hex');
+
+// A, B, ... Z, AA, AB, ...
+const deviceCode = (index) => (index < 26 ? '' : deviceCode(Math.floor(index / 26) - 1)) + String.fromCharCode(65 + (index % 26));
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const readBody = (req) =>
+  new Promise((done, fail) => {
+    const chunks = [];
+    let size = 0;
+    req.on('data', chunk => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        fail(new HttpError(413, 'Request too large'));
+        req.destroy();
+      } else {
+        chunks.push(chunk);
+      }
+    });
+    req.on('end', () => {
+      try {
+        done(chunks.length ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : {});
+      } catch {
+        fail(new HttpError(400, 'Body is not JSON'));
+      }
+    });
+    req.on('error', fail);
+  });
+
+const isChange = (c) =>
+  c && typeof c.id === 'string' && typeof c.device === 'string' && typeof c.iv === 'string' && typeof c.data === 'string';
+
+export const createSyncServer = ({ dataDir = './sync-data', token, open = false } = {}) => {
+  if (!token && !open) throw new Error('Set an access token, or pass open: true to run without one');
+  const shopsDir = join(dataDir, 'shops');
+
+  // Logs are loaded once and then appended to in memory and on disk together
+  const logs = new Map();
+  // Writes to one shop run one at a time, so sequence numbers never collide
+  let queue = Promise.resolve();
+  const serialize = (task) => {
+    const next = queue.then(task);
+    queue = next.catch(() => undefined);
+    return next;
+  };
+
+  const loadLog = async (shop) => {
+    if (!logs.has(shop)) {
+      const text = await readFile(join(shopsDir, `${fileName(shop)}.jsonl`), 'utf8').catch(() => '');
+      const changes = text.split('\n').filter(Boolean).map(line => JSON.parse(line));
+      logs.set(shop, { changes, ids: new Set(changes.map(c => c.id)) });
+    }
+    return logs.get(shop);
+  };
+
+  const devicesFile = (shop) => join(shopsDir, `${fileName(shop)}.devices.json`);
+
+  const accountsFile = (shop) => join(shopsDir, `${fileName(shop)}.accounts.json`);
+  const readAccounts = async (shop) => JSON.parse(await readFile(accountsFile(shop), 'utf8').catch(() => '{}'));
+
+  const routes = [
+    ['GET', /^\/health$/, async () => ({ ok: true })],
+
+    // Everything after `since`, oldest first, a page at a time
+    ['GET', /^\/shops\/([^/]+)\/changes$/, async (req, url, shop) => {
+      const since = Number(url.searchParams.get('since')) || 0;
+      const limit = Math.min(Number(url.searchParams.get('limit')) || DEFAULT_PAGE, 5000);
+      const { changes } = await loadLog(shop);
+      const page = changes.filter(c => c.seq > since).slice(0, limit);
+      return { changes: page, more: changes.length > 0 && page.length > 0 && page[page.length - 1].seq < changes[changes.length - 1].seq };
+    }],
+
+    // Refused with 409 while the device hasn't seen other devices' newer changes, so it
+    // always weighs them against its own first. Change ids already stored are skipped.
+    ['POST', /^\/shops\/([^/]+)\/changes$/, async (req, url, shop) => {
+      const body = await readBody(req);
+      if (!Array.isArray(body.changes) || !body.changes.every(isChange)) throw new HttpError(400, 'Expected a list of changes');
+      return serialize(async () => {
+        const log = await loadLog(shop);
+        const since = Number(body.since) || 0;
+        if (log.changes.some(c => c.seq > since && c.device !== body.device)) {
+          throw new HttpError(409, 'Pull the newer changes first');
+        }
+        let seq = log.changes.length ? log.changes[log.changes.length - 1].seq : 0;
+        const added = body.changes
+          .filter(c => !log.ids.has(c.id))
+          .map(c => ({ seq: ++seq, id: c.id, device: c.device, iv: c.iv, data: c.data, receivedAt: Date.now() }));
+        if (added.length) {
+          await mkdir(shopsDir, { recursive: true });
+          await appendFile(join(shopsDir, `${fileName(shop)}.jsonl`), added.map(c => `${JSON.stringify(c)}\n`).join(''));
+          added.forEach(c => {
+            log.changes.push(c);
+            log.ids.add(c.id);
+          });
+        }
+        return { lastSeq: seq, added: added.length };
+      });
+    }],
+
+    // Each device of a shop gets its own code, which the app puts in the document numbers it
+    // gives, so devices working offline at the same time never give the same number
+    ['POST', /^\/shops\/([^/]+)\/devices$/, async (req, url, shop) => {
+      const body = await readBody(req);
+      if (typeof body.device !== 'string' || !body.device) throw new HttpError(400, 'Expected a device id');
+      return serialize(async () => {
+        const devices = JSON.parse(await readFile(devicesFile(shop), 'utf8').catch(() => '{}'));
+        if (!devices[body.device]) {
+          devices[body.device] = deviceCode(Object.keys(devices).length);
+          await mkdir(shopsDir, { recursive: true });
+          await writeFile(`${devicesFile(shop)}.tmp`, JSON.stringify(devices));
+          await rename(`${devicesFile(shop)}.tmp`, devicesFile(shop));
+        }
+        return { code: devices[body.device] };
+      });
+    }],
+
+    // Sign-ins, so a new device can join a shop
+    ['GET', /^\/shops\/([^/]+)\/accounts\/([^/]+)$/, async (req, url, shop, username) => {
+      const account = (await readAccounts(shop))[username];
+      if (!account) throw new HttpError(404, 'No such account');
+      return account;
+    }],
+
+    // Replacing a sign-in with a different password needs the verifier it replaces, so
+    // someone who only has the token can't take over an account
+    ['PUT', /^\/shops\/([^/]+)\/accounts\/([^/]+)$/, async (req, url, shop, username) => {
+      const { account, previousVerifier } = await readBody(req);
+      if (account?.username !== username || typeof account.verifier !== 'string' || typeof account.wrappedKey !== 'string') {
+        throw new HttpError(400, 'Not an account');
+      }
+      return serialize(async () => {
+        const accounts = await readAccounts(shop);
+        const existing = accounts[username];
+        if (existing && existing.verifier !== account.verifier && existing.verifier !== previousVerifier) {
+          throw new HttpError(403, `The account ${username} on the server has a different password`);
+        }
+        accounts[username] = account;
+        await mkdir(shopsDir, { recursive: true });
+        await writeFile(`${accountsFile(shop)}.tmp`, JSON.stringify(accounts));
+        await rename(`${accountsFile(shop)}.tmp`, accountsFile(shop));
+        return { ok: true };
+      });
+    }],
+
+    // Removed members, with the same proof as replacing a password
+    ['DELETE', /^\/shops\/([^/]+)\/accounts\/([^/]+)$/, async (req, url, shop, username) => {
+      const { previousVerifier } = await readBody(req);
+      return serialize(async () => {
+        const accounts = await readAccounts(shop);
+        if (!accounts[username]) return { ok: true };
+        if (accounts[username].verifier !== previousVerifier) throw new HttpError(403, `The account ${username} on the server has a different password`);
+        delete accounts[username];
+        await writeFile(`${accountsFile(shop)}.tmp`, JSON.stringify(accounts));
+        await rename(`${accountsFile(shop)}.tmp`, accountsFile(shop));
+        return { ok: true };
+      });
+    }],
+  ];
+
+  return createServer(async (req, res) => {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+
+    const reply = (status, body) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+    };
+
+    try {
+      if (token && req.headers.authorization !== `Bearer ${token}`) throw new HttpError(401, 'Wrong or missing access token');
+      const url = new URL(req.url, 'http://localhost');
+      for (const [method, pattern, handle] of routes) {
+        const match = req.method === method && url.pathname.match(pattern);
+        if (match) {
+          reply(200, await handle(req, url, ...match.slice(1).map(decodeURIComponent)));
+          return;
+        }
+      }
+      throw new HttpError(404, 'Not found');
+    } catch (err) {
+      reply(err.status || 500, { error: err.status ? err.message : 'Server error' });
+      if (!err.status) console.error(err);
+    }
+  });
+};
+
+if (process.argv[1] && resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  const port = Number(process.env.PORT) || 8787;
+  const dataDir = process.env.SYNC_DATA_DIR || './sync-data';
+  if (!process.env.SYNC_TOKEN && process.env.SYNC_OPEN !== '1') {
+    console.error('Set SYNC_TOKEN to the access token devices must send (or SYNC_OPEN=1 to run without one).');
+    process.exit(1);
+  }
+  createSyncServer({ dataDir, token: process.env.SYNC_TOKEN, open: process.env.SYNC_OPEN === '1' }).listen(port, () => {
+    console.log(`Hisaab Kitaab sync server on http://localhost:${port}, data in ${resolve(dataDir)}`);
+  });
+}
@@ -0,0 +1,127 @@
+import { AuditAction, AuditEntry, FieldChange, Invoice, Payment } from '../types';
+import { storageService } from './storageService';
+import { permissionService } from './permissionService';
+import { generateId } from '../utils/generateId';
+
+type Audited = Invoice | Payment;
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  [AuditAction.CREATE]: 'Created',
+  [AuditAction.UPDATE]: 'Edited',
+  [AuditAction.DELETE]: 'Deleted',
+  [AuditAction.STATUS]: 'Status changed',
+  [AuditAction.RESTORE]: 'Restored from backup',
+};
+
+// Bookkeeping that changes on every save and says nothing about the edit
+const IGNORED_FIELDS = ['updatedAt'];
+
+// Changes to only these are a status change rather than an edit
+const STATUS_FIELDS = ['status', 'statusOverride', 'statusLog', 'remainingBalance'];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Lists of records with ids, like invoice items, are compared row by row
+const isRowList = (value: unknown): value is Record<string, unknown>[] =>
+  Array.isArray(value) && value.length > 0 && value.every(row => isPlainObject(row) && typeof row.id === 'string');
+
+const rowLabel = (row: Record<string, unknown>, index: number) =>
+  (typeof row.name === 'string' && row.name.trim()) || `row ${index + 1}`;
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const diffValues = (before: unknown, after: unknown, path: string): FieldChange[] => {
+  if (same(before, after)) return [];
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+    return keys
+      .filter(key => !IGNORED_FIELDS.includes(key))
+      .flatMap(key => diffValues(before[key], after[key], path ? `${path} › ${key}` : key));
+  }
+
+  if ((isRowList(before) || isRowList(after)) && Array.isArray(before) && Array.isArray(after)) {
+    const old = new Map(before.map(row => [row.id, row]));
+    const changes: FieldChange[] = [];
+    after.forEach((row, i) => {
+      const label = `${path} › ${rowLabel(row, i)}`;
+      const previous = old.get(row.id);
+      if (previous) changes.push(...diffValues(previous, row, label));
+      else changes.push({ field: label, after: row });
+    });
+    const kept = new Set(after.map(row => row.id));
+    before.forEach((row, i) => {
+      if (!kept.has(row.id)) changes.push({ field: `${path} › ${rowLabel(row, i)}`, before: row });
+    });
+    return changes;
+  }
+
+  return [{ field: path, before, after }];
+};
+
+// Invoices a payment was allocated to before or after the change
+const touchedInvoices = (entity: AuditEntry['entity'], before?: Audited, after?: Audited): string[] => {
+  const record = (after || before)!;
+  if (entity === 'invoice') return [record.id];
+  const allocations = [before, after].flatMap(p => (p ? (p as Payment).allocations : []));
+  return [...new Set(allocations.map(a => a.invoiceId))];
+};
+
+export const auditService = {
+  // Field by field. Items and other rows are matched by id, so a reordered list isn't a change.
+  diff: (before: Audited | undefined, after: Audited | undefined): FieldChange[] => {
+    return diffValues(before || {}, after || {}, '');
+  },
+
+  // Builds the entry for a change, or null when nothing changed. Changes synced from another
+  // device pass who made them there, and when.
+  entry: (entity: AuditEntry['entity'], before?: Audited, after?: Audited, origin?: Pick<AuditEntry, 'by' | 'at'>): AuditEntry | null => {
+    const record = after || before;
+    if (!record) return null;
+    const changes = before && after ? auditService.diff(before, after) : [];
+    if (before && after && changes.length === 0) return null;
+
+    let action = AuditAction.UPDATE;
+    if (!before) action = AuditAction.CREATE;
+    else if (!after) action = AuditAction.DELETE;
+    else if (changes.every(c => STATUS_FIELDS.includes(c.field.split(' › ')[0]))) action = AuditAction.STATUS;
+
+    return {
+      id: generateId(),
+      entity,
+      entityId: record.id,
+      invoiceIds: touchedInvoices(entity, before, after),
+      action,
+      by: origin?.by || permissionService.getUser()?.username || 'system',
+      at: origin?.at || Date.now(),
+      changes,
+      snapshot: record,
+    };
+  },
+
+  // Appends entries for whichever of the changes actually changed something
+  record: async (username: string, entries: (AuditEntry | null)[]): Promise<void> => {
+    const kept = entries.filter((e): e is AuditEntry => e !== null);
+    if (kept.length > 0) await storageService.addAuditEntries(username, kept);
+  },
+
+  // Everything that happened to an invoice and the payments against it, newest first
+  getInvoiceHistory: async (username: string, invoiceId: string): Promise<AuditEntry[]> => {
+    return (await storageService.getAuditLog(username))
+      .filter(e => e.invoiceIds.includes(invoiceId))
+      .sort((a, b) => b.at - a.at);
+  },
+
+  // For showing a before or after value in a sentence
+  formatValue: (value: unknown): string => {
+    if (value === undefined || value === null || value === '') return '—';
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return String(value);
+    if (isPlainObject(value) && typeof value.name === 'string') {
+      const name = value.name.trim() || 'blank row';
+      return typeof value.qty === 'number' ? `${name} × ${value.qty}` : name;
+    }
+    const text = JSON.stringify(value);
+    return text.length > 80 ? `${text.slice(0, 79)}…` : text;
+  },
+};
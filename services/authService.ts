@@ -0,0 +1,235 @@
+import { Role, ShopMember, User } from '../types';
+import { cryptoService } from './cryptoService';
+import { storageService } from './storageService';
+import { permissionService } from './permissionService';
+
+const ACCOUNTS_KEY = 'hisaab_accounts';
+const SESSION_KEY = 'hisaab_session';
+const LEGACY_USER_KEY = 'hisaab_current_user';
+
+const PBKDF2_ITERATIONS = 600000;
+const MIN_PASSWORD_LENGTH = 8;
+
+// A session must be signed into again after this, and locks after this much inactivity
+export const SESSION_MAX_AGE_MS = 12 * 60 * 60 * 1000;
+export const IDLE_LOCK_MS = 10 * 60 * 1000;
+
+// Stored in plain localStorage so it can be read before anything is unlocked.
+// One PBKDF2 run gives 512 bits: the first half proves the password (only its hash is
+// kept), the second half wraps the random key that encrypts the user's data.
+export interface Account {
+  username: string;
+  salt: string;
+  iterations: number;
+  verifier: string;
+  wrappedKey: string;
+  createdAt: number;
+  shopId?: string; // Set on members: the owner whose books they open. Missing means their own.
+}
+
+interface Session {
+  username: string;
+  startedAt: number;
+}
+
+const readAccounts = (): Record<string, Account> => {
+  const data = localStorage.getItem(ACCOUNTS_KEY);
+  return data ? JSON.parse(data) : {};
+};
+
+const writeAccount = (account: Account) => {
+  localStorage.setItem(ACCOUNTS_KEY, JSON.stringify({ ...readAccounts(), [account.username]: account }));
+};
+
+const deriveSecrets = async (password: string, salt: Uint8Array, iterations: number) => {
+  const bits = await cryptoService.deriveBits(password, salt, iterations, 512);
+  return {
+    verifier: await cryptoService.sha256(bits.slice(0, 32)),
+    wrappingKey: await cryptoService.importWrappingKey(bits.slice(32)),
+  };
+};
+
+// Returns the wrapping key when the password matches the account
+const verify = async (account: Account, password: string): Promise<CryptoKey> => {
+  const { verifier, wrappingKey } = await deriveSecrets(password, cryptoService.fromBase64(account.salt), account.iterations);
+  if (verifier !== account.verifier) throw new Error('Incorrect username or password');
+  return wrappingKey;
+};
+
+const sealKey = async (
+  username: string,
+  password: string,
+  dataKey: CryptoKey,
+  createdAt: number,
+  shopId?: string
+): Promise<Account> => {
+  const salt = cryptoService.randomBytes(16);
+  const { verifier, wrappingKey } = await deriveSecrets(password, salt, PBKDF2_ITERATIONS);
+  return {
+    username,
+    salt: cryptoService.toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    verifier,
+    wrappedKey: await cryptoService.wrapKey(dataKey, wrappingKey),
+    createdAt,
+    ...(shopId ? { shopId } : {}),
+  };
+};
+
+const checkUsername = (username: string) => {
+  if (!username) throw new Error('Please enter a username');
+  if (authService.hasAccount(username)) throw new Error('That username is already taken');
+};
+
+const checkPassword = (password: string) => {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+};
+
+const startSession = (username: string) => {
+  const session: Session = { username, startedAt: Date.now() };
+  localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  localStorage.removeItem(LEGACY_USER_KEY);
+};
+
+export const authService = {
+  hasAccount: (username: string): boolean => !!readAccounts()[username.trim()],
+
+  // Creates the account and signs straight in. Data already saved under this username
+  // before accounts existed is taken over and encrypted on first load.
+  register: async (username: string, password: string): Promise<User> => {
+    const name = username.trim();
+    checkUsername(name);
+    checkPassword(password);
+
+    const dataKey = await cryptoService.generateDataKey();
+    writeAccount(await sealKey(name, password, dataKey, Date.now()));
+    return authService.login(name, password);
+  },
+
+  login: async (username: string, password: string): Promise<User> => {
+    const account = readAccounts()[username.trim()];
+    if (!account) throw new Error('Incorrect username or password');
+
+    const wrappingKey = await verify(account, password);
+    storageService.setEncryptionKey(await cryptoService.unwrapKey(account.wrappedKey, wrappingKey));
+
+    // The role comes from the shop's own (encrypted) member list, not from this device's account record
+    const shopId = account.shopId || account.username;
+    let role = Role.OWNER;
+    if (shopId !== account.username) {
+      const member = (await storageService.getMembers(shopId)).find(m => m.username === account.username);
+      if (!member) {
+        storageService.setEncryptionKey(null);
+        throw new Error('This account has been removed from the shop');
+      }
+      role = member.role;
+    }
+
+    const user: User = { username: account.username, shopId, role };
+    permissionService.setUser(user);
+    startSession(account.username);
+    return user;
+  },
+
+  // Re-wraps the same data key, so nothing stored has to be re-encrypted
+  changePassword: async (username: string, currentPassword: string, newPassword: string): Promise<void> => {
+    const account = readAccounts()[username];
+    if (!account) throw new Error('Account not found');
+    checkPassword(newPassword);
+
+    const wrappingKey = await verify(account, currentPassword);
+    const dataKey = await cryptoService.unwrapKey(account.wrappedKey, wrappingKey, true);
+    writeAccount(await sealKey(username, newPassword, dataKey, account.createdAt, account.shopId));
+  },
+
+  // The owner first, then everyone they've added
+  getMembers: async (shopId: string): Promise<ShopMember[]> => {
+    const members = await storageService.getMembers(shopId);
+    const owner: ShopMember = { username: shopId, role: Role.OWNER, addedAt: readAccounts()[shopId]?.createdAt || 0, addedBy: shopId };
+    return [owner, ...members.filter(m => m.username !== shopId)];
+  },
+
+  // Gives a new account on this device a copy of the shop's data key, sealed with its own
+  // password. The owner's password is needed to get at the key.
+  addMember: async (owner: User, ownerPassword: string, username: string, password: string, role: Role): Promise<void> => {
+    permissionService.require('users.manage');
+    const name = username.trim();
+    checkUsername(name);
+    checkPassword(password);
+    if (role === Role.OWNER) throw new Error('A shop has one owner');
+
+    const ownerAccount = readAccounts()[owner.username];
+    if (!ownerAccount) throw new Error('Account not found');
+    const wrappingKey = await verify(ownerAccount, ownerPassword);
+    const dataKey = await cryptoService.unwrapKey(ownerAccount.wrappedKey, wrappingKey, true);
+
+    const members = await storageService.getMembers(owner.shopId);
+    await storageService.saveMembers(owner.shopId, [...members, { username: name, role, addedAt: Date.now(), addedBy: owner.username }]);
+    writeAccount(await sealKey(name, password, dataKey, Date.now(), owner.shopId));
+  },
+
+  setMemberRole: async (shopId: string, username: string, role: Role): Promise<void> => {
+    permissionService.require('users.manage');
+    if (username === shopId || role === Role.OWNER) throw new Error("The owner's role can't be changed");
+    const members = await storageService.getMembers(shopId);
+    await storageService.saveMembers(shopId, members.map(m => (m.username === username ? { ...m, role } : m)));
+  },
+
+  // Takes them off the member list and deletes their sign-in on this device. Other devices
+  // refuse their sign-in once the list syncs, and sync deletes their account from the server.
+  // The data key stays the same: it is sealed separately for every member, with passwords
+  // only they know, so it can't be swapped here. Data they already copied stays readable.
+  removeMember: async (shopId: string, username: string): Promise<void> => {
+    permissionService.require('users.manage');
+    if (username === shopId) throw new Error("The owner can't be removed");
+    const members = await storageService.getMembers(shopId);
+    await storageService.saveMembers(shopId, members.filter(m => m.username !== username));
+    const accounts = readAccounts();
+    if (accounts[username]?.shopId === shopId) {
+      delete accounts[username];
+      localStorage.setItem(ACCOUNTS_KEY, JSON.stringify(accounts));
+    }
+  },
+
+  // The sign-ins for a shop, so other devices syncing it can be signed into
+  getShopAccounts: (shopId: string): Account[] => {
+    return Object.values(readAccounts()).filter(a => (a.shopId || a.username) === shopId);
+  },
+
+  // Adds a sign-in fetched from the sync server and unlocks its shop's data, so it can be
+  // pulled before the first login. Returns the shop it belongs to.
+  importAccount: async (account: Account, password: string): Promise<string> => {
+    const existing = readAccounts()[account.username];
+    if (existing && existing.salt !== account.salt) throw new Error('That username is already on this device. Sign in instead.');
+    const wrappingKey = await verify(account, password);
+    storageService.setEncryptionKey(await cryptoService.unwrapKey(account.wrappedKey, wrappingKey));
+    writeAccount(account);
+    return account.shopId || account.username;
+  },
+
+  // Drops the data key from memory but keeps the session, so only the password is asked for
+  lock: () => {
+    storageService.setEncryptionKey(null);
+  },
+
+  logout: () => {
+    storageService.setEncryptionKey(null);
+    permissionService.setUser(null);
+    localStorage.removeItem(SESSION_KEY);
+  },
+
+  // Who is signed in, if the session hasn't expired. Data stays locked until login.
+  getSessionUsername: (): string | null => {
+    const data = localStorage.getItem(SESSION_KEY);
+    if (!data) return null;
+
+    const session: Session = JSON.parse(data);
+    if (Date.now() - session.startedAt > SESSION_MAX_AGE_MS || !authService.hasAccount(session.username)) {
+      authService.logout();
+      return null;
+    }
+    return session.username;
+  },
+};
@@ -0,0 +1,324 @@
+import { AuditAction, AuditEntry, BusinessProfile, DocumentType, Invoice, NumberingSeries, Payment, ShopMember } from '../types';
+import { StoredRecord, StoreName, STORE_NAMES } from './storageAdapter';
+import { storageService } from './storageService';
+import { schemaService } from './schemaService';
+import { paymentService } from './paymentService';
+import { cryptoService } from './cryptoService';
+import { CURRENT_SCHEMA_VERSION, MIGRATIONS, SchemaData } from './migrations';
+import { generateId } from '../utils/generateId';
+import { permissionService } from './permissionService';
+import { numberingService } from './numberingService';
+import { auditService } from './auditService';
+
+const BACKUP_FORMAT = 'hisaab-backup';
+const BACKUP_VERSION = 2;
+
+// Shop settings kept alongside the records. Sign-ins are not: they stay on the devices.
+export interface BackupSettings {
+  businessProfile?: BusinessProfile;
+  numberingSeries?: Partial<Record<DocumentType, NumberingSeries>>;
+  members?: ShopMember[];
+}
+
+// The file written by an export. `checksum` is the SHA-256 of JSON.stringify({ data, settings }),
+// or of JSON.stringify(data) in version 1 files, which had no settings.
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  schemaVersion: number;
+  exportedAt: string; // ISO timestamp
+  username: string;
+  checksum: string;
+  data: Record<StoreName, StoredRecord[]>;
+  settings?: BackupSettings;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+// What to do with a backup record whose id is already used by a different record
+export type ConflictStrategy = 'keepExisting' | 'useBackup' | 'keepBoth';
+
+export interface BackupPreview {
+  backup: BackupFile;
+  counts: Record<StoreName, number>;
+  conflicts: Record<StoreName, number>; // Same id, different content
+  invalidInvoices: number; // Skipped on restore
+  settings: string[]; // Labels of the settings the backup holds
+}
+
+export interface RestoreResult {
+  added: number;
+  replaced: number;
+  skipped: number;
+}
+
+export const STORE_LABELS: Record<StoreName, string> = {
+  invoices: 'Invoices',
+  payments: 'Payments',
+  parties: 'Parties',
+  products: 'Products',
+  pricingProfiles: 'Pricing profiles',
+  auditLog: 'Audit log entries',
+};
+
+const SETTINGS_LABELS: Record<keyof BackupSettings, string> = {
+  businessProfile: 'business profile',
+  numberingSeries: 'document numbering',
+  members: 'users and roles',
+};
+
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+const countBy = (fn: (store: StoreName) => number) =>
+  Object.fromEntries(STORE_NAMES.map(store => [store, fn(store)])) as Record<StoreName, number>;
+
+const pipeBytes = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> => {
+  const piped = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(piped).arrayBuffer());
+};
+
+const readCurrent = async (username: string): Promise<SchemaData> => {
+  const data = {} as SchemaData;
+  for (const store of STORE_NAMES) {
+    data[store] = await storageService.getAdapter().getAll(username, store);
+  }
+  return data;
+};
+
+const readSettings = async (username: string): Promise<BackupSettings> => ({
+  businessProfile: await storageService.getBusinessProfile(username),
+  numberingSeries: await storageService.getNumberingSeries(username),
+  members: await storageService.getMembers(username),
+});
+
+const checksumOf = (backup: Pick<BackupFile, 'version' | 'data' | 'settings'>) => {
+  const covered = backup.version < 2 ? backup.data : { data: backup.data, settings: backup.settings };
+  return cryptoService.sha256(new TextEncoder().encode(JSON.stringify(covered)));
+};
+
+// The backup's settings win on replace, or on merge when its records do. Numbering counters
+// always keep the higher value, so numbers already given are never given again.
+const restoreSettings = async (username: string, backup: BackupFile, preferBackup: boolean, replace: boolean) => {
+  const settings = backup.settings;
+  if (!settings) return;
+  if (settings.businessProfile && (preferBackup || !(await storageService.getBusinessProfile(username)))) {
+    await storageService.saveBusinessProfile(username, settings.businessProfile);
+  }
+  if (settings.numberingSeries) {
+    await numberingService.mergeSeries(username, settings.numberingSeries, preferBackup);
+  }
+  // Users are only meaningful in the shop they were added to
+  if (settings.members && backup.username === username) {
+    const current = await storageService.getMembers(username);
+    const [first, second] = preferBackup ? [settings.members, current] : [current, settings.members];
+    const members = replace ? settings.members : [...first, ...second.filter(m => !first.some(f => f.username === m.username))];
+    await storageService.saveMembers(username, members);
+  }
+};
+
+const sameRecord = (a: StoredRecord, b: StoredRecord) => JSON.stringify(a) === JSON.stringify(b);
+
+const AUDITED: Partial<Record<StoreName, AuditEntry['entity']>> = { invoices: 'invoice', payments: 'payment' };
+
+// History for a record the restore overwrote, or dropped when replacing
+const restoreEntry = (store: StoreName, before: StoredRecord, after?: StoredRecord): AuditEntry | null => {
+  const entity = AUDITED[store];
+  const entry = entity ? auditService.entry(entity, before as Invoice | Payment, after as Invoice | Payment | undefined) : null;
+  return entry && after ? { ...entry, action: AuditAction.RESTORE } : entry;
+};
+
+// Points references inside restored records at the new ids given to conflicting copies
+const remapReferences = (data: SchemaData, newIds: Record<StoreName, Map<string, string>>): SchemaData => {
+  const to = (store: StoreName, id?: string) => (id && newIds[store].get(id)) || id;
+  return {
+    ...data,
+    invoices: data.invoices.map((inv: Invoice) => ({
+      ...inv,
+      partyId: to('parties', inv.partyId),
+      pricingProfileId: to('pricingProfiles', inv.pricingProfileId),
+      items: inv.items.map(item => ({ ...item, productId: to('products', item.productId) })),
+    })),
+    payments: data.payments.map((p: Payment) => ({
+      ...p,
+      partyId: to('parties', p.partyId),
+      allocations: p.allocations.map(a => ({ ...a, invoiceId: to('invoices', a.invoiceId)! })),
+    })),
+    auditLog: data.auditLog.map((entry: AuditEntry) => ({
+      ...entry,
+      entityId: to(entry.entity === 'invoice' ? 'invoices' : 'payments', entry.entityId)!,
+      invoiceIds: entry.invoiceIds.map(id => to('invoices', id)!),
+    })),
+  };
+};
+
+export const backupService = {
+  // Everything the user owns, as one file. Passwords and the encryption key are never included.
+  createBackup: async (username: string): Promise<BackupFile> => {
+    permissionService.require('backup.manage');
+    const data = (await readCurrent(username)) as Record<StoreName, StoredRecord[]>;
+    const settings = await readSettings(username);
+    return {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      schemaVersion: await schemaService.getSchemaVersion(username),
+      exportedAt: new Date().toISOString(),
+      username,
+      checksum: await checksumOf({ version: BACKUP_VERSION, data, settings }),
+      data,
+      settings,
+    };
+  },
+
+  toBlob: async (backup: BackupFile, compress: boolean): Promise<Blob> => {
+    const json = new TextEncoder().encode(JSON.stringify(backup));
+    return compress
+      ? new Blob([await pipeBytes(json, new CompressionStream('gzip'))], { type: 'application/gzip' })
+      : new Blob([json], { type: 'application/json' });
+  },
+
+  fileName: (backup: BackupFile, compress: boolean): string => {
+    return `hisaab_backup_${backup.username}_${backup.exportedAt.split('T')[0]}.json${compress ? '.gz' : ''}`;
+  },
+
+  // Reads a plain or gzipped backup and checks it is complete and unaltered
+  readBackup: async (file: Blob): Promise<BackupFile> => {
+    let bytes = new Uint8Array(await file.arrayBuffer());
+    if (bytes[0] === GZIP_MAGIC[0] && bytes[1] === GZIP_MAGIC[1]) {
+      bytes = await pipeBytes(bytes, new DecompressionStream('gzip'));
+    }
+
+    let backup: BackupFile;
+    try {
+      backup = JSON.parse(new TextDecoder().decode(bytes));
+    } catch {
+      throw new Error('This is not a Hisaab Kitaab backup file');
+    }
+    if (backup?.format !== BACKUP_FORMAT || typeof backup.data !== 'object' || backup.data === null) {
+      throw new Error('This is not a Hisaab Kitaab backup file');
+    }
+    if (backup.version > BACKUP_VERSION || backup.schemaVersion > CURRENT_SCHEMA_VERSION) {
+      throw new Error('This backup was made by a newer version of Hisaab Kitaab. Please update the app.');
+    }
+    for (const store of STORE_NAMES) {
+      const records = backup.data[store];
+      // Stores added since the backup was made are filled in when it is upgraded
+      if (records === undefined && backup.schemaVersion < CURRENT_SCHEMA_VERSION) continue;
+      if (!Array.isArray(records) || records.some(r => typeof r?.id !== 'string' || !r.id)) {
+        throw new Error(`The backup's ${STORE_LABELS[store].toLowerCase()} are damaged`);
+      }
+    }
+    if (backup.settings !== undefined && (typeof backup.settings !== 'object' || backup.settings === null)) {
+      throw new Error("The backup's settings are damaged");
+    }
+    if ((await checksumOf(backup)) !== backup.checksum) {
+      throw new Error('The backup failed its checksum. The file is damaged or was edited.');
+    }
+    return backup;
+  },
+
+  // Brings the backup's data up to the current schema, as loading stored data would
+  upgrade: (backup: BackupFile): SchemaData => {
+    let data = backup.data as SchemaData;
+    MIGRATIONS.filter(m => m.version > backup.schemaVersion).forEach(migration => {
+      data = migration.migrate(data);
+    });
+    return data;
+  },
+
+  preview: async (username: string, backup: BackupFile): Promise<BackupPreview> => {
+    const data = backupService.upgrade(backup);
+    const current = await readCurrent(username);
+    return {
+      backup,
+      counts: countBy(store => data[store].length),
+      conflicts: countBy(store => {
+        const existing = new Map(current[store].map(r => [r.id, r]));
+        return data[store].filter(r => existing.has(r.id) && !sameRecord(existing.get(r.id)!, r)).length;
+      }),
+      invalidInvoices: data.invoices.filter(inv => schemaService.validateInvoice(inv).length > 0).length,
+      settings: (Object.keys(SETTINGS_LABELS) as (keyof BackupSettings)[])
+        .filter(key => backup.settings?.[key] !== undefined)
+        .map(key => SETTINGS_LABELS[key]),
+    };
+  },
+
+  restore: async (
+    username: string,
+    backup: BackupFile,
+    mode: RestoreMode,
+    strategy: ConflictStrategy = 'keepExisting'
+  ): Promise<RestoreResult> => {
+    permissionService.require('backup.manage');
+    let data = backupService.upgrade(backup);
+    data = { ...data, invoices: data.invoices.filter(inv => schemaService.validateInvoice(inv).length === 0) };
+    const adapter = storageService.getAdapter();
+    const result: RestoreResult = { added: 0, replaced: 0, skipped: 0 };
+    const current = await readCurrent(username);
+    const audit: (AuditEntry | null)[] = [];
+
+    if (mode === 'replace') {
+      for (const store of STORE_NAMES) {
+        const existing = new Map(current[store].map(r => [r.id, r]));
+        // The audit log is only ever added to, so history from before the restore survives it
+        if (store === 'auditLog') {
+          const missing = data.auditLog.filter(entry => !existing.has(entry.id));
+          if (missing.length > 0) await adapter.putMany(username, store, missing);
+          result.added += missing.length;
+          result.skipped += data.auditLog.length - missing.length;
+          continue;
+        }
+        const restored = new Set(data[store].map(r => r.id));
+        const dropped = current[store].filter(r => !restored.has(r.id));
+        data[store].forEach(record => {
+          const before = existing.get(record.id);
+          if (before && !sameRecord(before, record)) audit.push(restoreEntry(store, before, record));
+        });
+        dropped.forEach(record => audit.push(restoreEntry(store, record)));
+        // Written over the current records before any are deleted, so a failed write never
+        // leaves the store empty
+        if (data[store].length > 0) await adapter.putMany(username, store, data[store]);
+        for (const record of dropped) {
+          await adapter.delete(username, store, record.id);
+        }
+        result.added += data[store].length;
+      }
+    } else {
+      const newIds = Object.fromEntries(STORE_NAMES.map(store => [store, new Map<string, string>()])) as Record<StoreName, Map<string, string>>;
+
+      // Decide every conflict first, so references can be remapped across stores
+      const writes = {} as SchemaData;
+      STORE_NAMES.forEach(store => {
+        const existing = new Map(current[store].map(r => [r.id, r]));
+        writes[store] = [];
+        data[store].forEach(record => {
+          const match = existing.get(record.id);
+          if (!match) {
+            writes[store].push(record);
+            result.added++;
+          } else if (sameRecord(match, record) || strategy === 'keepExisting' || (strategy === 'useBackup' && store === 'auditLog')) {
+            result.skipped++;
+          } else if (strategy === 'useBackup') {
+            writes[store].push(record);
+            audit.push(restoreEntry(store, match, record));
+            result.replaced++;
+          } else {
+            const id = generateId();
+            newIds[store].set(record.id, id);
+            writes[store].push({ ...record, id });
+            result.added++;
+          }
+        });
+      });
+
+      const remapped = remapReferences(writes, newIds);
+      for (const store of STORE_NAMES) {
+        if (remapped[store].length > 0) await adapter.putMany(username, store, remapped[store]);
+      }
+    }
+
+    await auditService.record(username, audit);
+    await restoreSettings(username, backup, mode === 'replace' || strategy === 'useBackup', mode === 'replace');
+    await paymentService.refreshInvoiceBalances(username);
+    return result;
+  },
+};
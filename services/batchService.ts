@@ -0,0 +1,105 @@
+import { BatchSettings, Invoice, Product } from '../types';
+import { documentService } from './documentService';
+import { statusService } from './statusService';
+import { inventoryService, StockOptions } from './inventoryService';
+import { schemeService } from './schemeService';
+
+export const DEFAULT_BATCH_SETTINGS: BatchSettings = {
+  enabled: false,
+  suggestFefo: true,
+  nearExpiryDays: 90,
+};
+
+export type ExpiryStatus = 'expired' | 'near' | 'ok';
+
+// Stock of one batch of a product, counted from the invoice rows that name it. Opening stock
+// isn't split into batches, so a batch only exists once it has been bought in or sold.
+export interface BatchLevel {
+  product: Product;
+  batch: string;
+  expiry?: string;
+  purchased: number;
+  sold: number;
+  returned: number;
+  onHand: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const batchKey = (productId: string, batch: string) => `${productId}|${batch.trim().toUpperCase()}`;
+
+export const batchService = {
+  isValidExpiry: (expiry: string): boolean => /^\d{4}-(0[1-9]|1[0-2])$/.test(expiry),
+
+  // Last day of the expiry month, as an ISO date
+  expiryDate: (expiry: string): string => {
+    const [year, month] = expiry.split('-').map(Number);
+    return new Date(Date.UTC(year, month, 0)).toISOString().slice(0, 10);
+  },
+
+  // Negative once the batch has expired
+  daysLeft: (expiry: string, on: string): number =>
+    Math.round((Date.parse(batchService.expiryDate(expiry)) - Date.parse(on)) / DAY_MS),
+
+  status: (expiry: string | undefined, on: string, nearExpiryDays: number): ExpiryStatus | undefined => {
+    if (!expiry || !batchService.isValidExpiry(expiry)) return undefined;
+    const days = batchService.daysLeft(expiry, on);
+    if (days < 0) return 'expired';
+    return days <= nearExpiryDays ? 'near' : 'ok';
+  },
+
+  // MM/YYYY, the way it is printed on packs
+  format: (expiry?: string): string => {
+    if (!expiry || !batchService.isValidExpiry(expiry)) return '';
+    const [year, month] = expiry.split('-');
+    return `${month}/${year}`;
+  },
+
+  getLevels: (products: Product[], invoices: Invoice[], options: StockOptions = {}): BatchLevel[] => {
+    const levels = new Map<string, BatchLevel>();
+    const findProduct = inventoryService.productFinder(products);
+
+    invoices
+      .filter(inv => inv.id !== options.excludeInvoiceId && !statusService.isCancelled(inv))
+      .filter(inv => !options.asOf || inv.date <= options.asOf)
+      .forEach(inv => {
+        const effect = documentService.getInfo(inv).stockEffect;
+        if (effect === 0) return;
+        inv.items.forEach(item => {
+          const product = findProduct(item);
+          const units = schemeService.units(item);
+          if (!product || !units || !item.batch?.trim()) return;
+          const key = batchKey(product.id, item.batch);
+          const level = levels.get(key) || { product, batch: item.batch.trim(), purchased: 0, sold: 0, returned: 0, onHand: 0 };
+          // The purchase bill's expiry is the one to trust; sales rows only fill it in when it's missing
+          if (item.expiry && (!level.expiry || effect > 0)) level.expiry = item.expiry;
+          if (effect < 0) level.sold += units;
+          else if (documentService.isReturn(inv)) level.returned += units;
+          else level.purchased += units;
+          level.onHand += effect * units;
+          levels.set(key, level);
+        });
+      });
+
+    return [...levels.values()];
+  },
+
+  // In-stock, unexpired batches of a product, first to expire first (FEFO). Batches without
+  // an expiry go last.
+  available: (levels: BatchLevel[], productId: string, on: string): BatchLevel[] =>
+    levels
+      .filter(level => level.product.id === productId && level.onHand > 0)
+      .filter(level => batchService.status(level.expiry, on, 0) !== 'expired')
+      .sort((a, b) => (a.expiry || '9999-12').localeCompare(b.expiry || '9999-12')),
+
+  suggest: (levels: BatchLevel[], productId: string, on: string): BatchLevel | undefined =>
+    batchService.available(levels, productId, on)[0],
+
+  // Batches still in stock that expire within the given days of a date, including any
+  // already past their expiry, soonest first
+  expiring: (levels: BatchLevel[], on: string, withinDays: number): BatchLevel[] =>
+    levels
+      .filter(level => level.onHand > 0 && level.expiry && batchService.isValidExpiry(level.expiry))
+      .filter(level => batchService.daysLeft(level.expiry!, on) <= withinDays)
+      .sort((a, b) => a.expiry!.localeCompare(b.expiry!) || a.product.name.localeCompare(b.product.name)),
+};
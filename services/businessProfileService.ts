@@ -0,0 +1,72 @@
+import { BusinessProfile, PdfTemplate } from '../types';
+import { storageService } from './storageService';
+import { permissionService } from './permissionService';
+import { DEFAULT_TAX_SETTINGS } from './taxService';
+import { DEFAULT_BATCH_SETTINGS } from './batchService';
+
+// Logos are stored inline with the profile, so keep them small
+export const MAX_LOGO_BYTES = 256 * 1024;
+
+export const DEFAULT_BUSINESS_PROFILE: BusinessProfile = {
+  name: 'Hisaab Kitaab',
+  address: '',
+  phone: '',
+  email: '',
+  licenseNo: '',
+  ntn: '',
+  strn: '',
+  footerNote: 'Thank you for your business.',
+  signatureLabel: 'Authorised Signature',
+  defaultTemplate: PdfTemplate.A4,
+  tax: DEFAULT_TAX_SETTINGS,
+  batches: DEFAULT_BATCH_SETTINGS,
+};
+
+export const businessProfileService = {
+  // Falls back to the defaults for anything not filled in yet
+  getProfile: async (username: string): Promise<BusinessProfile> => {
+    const saved = await storageService.getBusinessProfile(username);
+    return {
+      ...DEFAULT_BUSINESS_PROFILE,
+      ...saved,
+      tax: { ...DEFAULT_TAX_SETTINGS, ...saved?.tax },
+      batches: { ...DEFAULT_BATCH_SETTINGS, ...saved?.batches },
+    };
+  },
+
+  saveProfile: async (username: string, profile: BusinessProfile): Promise<void> => {
+    permissionService.require('settings.edit');
+    if (!profile.name.trim()) throw new Error('Business name is required');
+    const { salesTaxRate, furtherTaxRate } = profile.tax;
+    if (![salesTaxRate, furtherTaxRate].every(rate => Number.isFinite(rate) && rate >= 0 && rate < 100)) {
+      throw new Error('Tax rates must be between 0 and 100%');
+    }
+    const { nearExpiryDays } = profile.batches;
+    if (!Number.isInteger(nearExpiryDays) || nearExpiryDays < 0) {
+      throw new Error('Near expiry days must be a whole number of days');
+    }
+    await storageService.saveBusinessProfile(username, {
+      ...profile,
+      name: profile.name.trim(),
+      licenseNo: profile.licenseNo.trim(),
+      ntn: profile.ntn.trim(),
+      strn: profile.strn.trim(),
+    });
+  },
+
+  // Reads an uploaded image as a data URL jsPDF can embed
+  readLogo: (file: File): Promise<string> => {
+    if (!/^image\/(png|jpeg)$/.test(file.type)) {
+      return Promise.reject(new Error('The logo must be a PNG or JPEG image'));
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+      return Promise.reject(new Error(`The logo must be smaller than ${MAX_LOGO_BYTES / 1024} KB`));
+    }
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(new Error('Could not read the logo file'));
+      reader.readAsDataURL(file);
+    });
+  },
+};
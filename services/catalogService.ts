@@ -0,0 +1,178 @@
+import { Product } from '../types';
+import { storageService } from './storageService';
+import { csvService } from './csvService';
+import { moneyService } from './moneyService';
+import { generateId } from '../utils/generateId';
+import { permissionService } from './permissionService';
+import { schemeService } from './schemeService';
+
+export interface CatalogImportResult {
+  added: number;
+  updated: number;
+  errors: string[]; // One message per rejected CSV line
+}
+
+// Accepted spellings of each CSV column, after csvService.headerKey
+const COLUMN_ALIASES: Record<keyof Omit<Product, 'id' | 'createdAt'>, string[]> = {
+  name: ['name', 'product', 'productname', 'item', 'itemname'],
+  packSize: ['packsize', 'pack', 'packing'],
+  defaultRate: ['defaultrate', 'rate', 'price', 'retailprice', 'mrp'],
+  company: ['company', 'manufacturer', 'mfg', 'brand'],
+  pricingCategory: ['pricingcategory', 'category'],
+  barcode: ['barcode', 'ean', 'upc', 'code'],
+  taxRate: ['taxrate', 'tax', 'salestax', 'gst', 'gstrate'],
+  openingStock: ['openingstock', 'opening', 'stock', 'qtyinhand', 'onhand'],
+  reorderLevel: ['reorderlevel', 'reorder', 'minstock', 'minimumstock'],
+  scheme: ['scheme', 'bonus', 'offer', 'tradescheme'],
+};
+
+const productKey = (name: string, company: string) => `${name.trim().toLowerCase()}|${company.trim().toLowerCase()}`;
+
+export const catalogService = {
+  getProducts: async (username: string): Promise<Product[]> => {
+    return (await storageService.getProducts(username)).sort((a, b) => a.name.localeCompare(b.name));
+  },
+
+  saveProduct: (username: string, product: Product): Promise<void> => {
+    permissionService.require('catalog.edit');
+    return storageService.saveProduct(username, product);
+  },
+
+  deleteProduct: (username: string, productId: string): Promise<void> => {
+    permissionService.require('catalog.edit');
+    return storageService.deleteProduct(username, productId);
+  },
+
+  // Exact barcode matches first, then names starting with the query, then names containing it
+  search: (products: Product[], query: string, limit = 8): Product[] => {
+    const q = query.trim().toLowerCase();
+    if (!q) return [];
+
+    const barcode = products.filter(p => p.barcode && p.barcode.toLowerCase() === q);
+    const prefix = products.filter(p => !barcode.includes(p) && p.name.toLowerCase().startsWith(q));
+    const contains = products.filter(p =>
+      !barcode.includes(p) && !prefix.includes(p) &&
+      (p.name.toLowerCase().includes(q) || p.company.toLowerCase().includes(q))
+    );
+
+    return [...barcode, ...prefix, ...contains].slice(0, limit);
+  },
+
+  findByBarcode: (products: Product[], barcode: string): Product | undefined => {
+    const code = barcode.trim();
+    return code ? products.find(p => p.barcode === code) : undefined;
+  },
+
+  // Upserts products from a CSV with a header row. Rows match existing products by barcode,
+  // or by name + company when there is no barcode.
+  importCsv: async (username: string, text: string): Promise<CatalogImportResult> => {
+    permissionService.require('catalog.edit');
+    const rows = csvService.parse(text);
+    const result: CatalogImportResult = { added: 0, updated: 0, errors: [] };
+    if (rows.length < 2) {
+      result.errors.push('The file has no data rows');
+      return result;
+    }
+
+    const headers = rows[0].map(csvService.headerKey);
+    const columnIndex = (field: keyof typeof COLUMN_ALIASES) =>
+      headers.findIndex(h => COLUMN_ALIASES[field].includes(h));
+    const columns = {
+      name: columnIndex('name'),
+      packSize: columnIndex('packSize'),
+      defaultRate: columnIndex('defaultRate'),
+      company: columnIndex('company'),
+      pricingCategory: columnIndex('pricingCategory'),
+      barcode: columnIndex('barcode'),
+      taxRate: columnIndex('taxRate'),
+      openingStock: columnIndex('openingStock'),
+      reorderLevel: columnIndex('reorderLevel'),
+      scheme: columnIndex('scheme'),
+    };
+    if (columns.name < 0) {
+      result.errors.push('Missing a "Name" column');
+      return result;
+    }
+
+    const products = await storageService.getProducts(username);
+    const byBarcode = new Map(products.filter(p => p.barcode).map(p => [p.barcode, p]));
+    const byName = new Map(products.map(p => [productKey(p.name, p.company), p]));
+    const cell = (row: string[], index: number) => (index >= 0 ? (row[index] || '').trim() : '');
+
+    rows.slice(1).forEach((row, i) => {
+      const line = i + 2;
+      const name = cell(row, columns.name);
+      if (!name) {
+        result.errors.push(`Line ${line}: name is empty`);
+        return;
+      }
+
+      const rateText = cell(row, columns.defaultRate).replace(/,/g, '');
+      const rate = rateText === '' ? 0 : Number(rateText);
+      if (!Number.isFinite(rate) || rate < 0) {
+        result.errors.push(`Line ${line}: invalid rate "${rateText}"`);
+        return;
+      }
+
+      // Blank cells leave the tax rate and stock settings as they were
+      const optional = [
+        { field: 'taxRate', label: 'tax rate', max: 100 },
+        { field: 'openingStock', label: 'opening stock', max: Infinity },
+        { field: 'reorderLevel', label: 'reorder level', max: Infinity },
+      ] as const;
+      const numbers: Partial<Record<typeof optional[number]['field'], number>> = {};
+      const invalid = optional.find(({ field, max }) => {
+        const text = cell(row, columns[field]).replace(/,/g, '').replace(/%$/, '');
+        if (text === '') return false;
+        const value = Number(text);
+        numbers[field] = value;
+        return !Number.isFinite(value) || value < 0 || value >= max;
+      });
+      if (invalid) {
+        result.errors.push(`Line ${line}: invalid ${invalid.label} "${cell(row, columns[invalid.field])}"`);
+        return;
+      }
+
+      // Like the numbers, a blank scheme cell keeps the product's scheme
+      let scheme: Product['scheme'];
+      try {
+        scheme = schemeService.parse(cell(row, columns.scheme));
+      } catch (err) {
+        result.errors.push(`Line ${line}: ${(err as Error).message}`);
+        return;
+      }
+
+      const company = cell(row, columns.company);
+      const barcode = cell(row, columns.barcode);
+      const existing = (barcode && byBarcode.get(barcode)) || byName.get(productKey(name, company));
+
+      const product: Product = {
+        id: existing ? existing.id : generateId(),
+        name,
+        packSize: cell(row, columns.packSize) || existing?.packSize || '',
+        defaultRate: moneyService.normalize(rate),
+        company,
+        pricingCategory: cell(row, columns.pricingCategory) || existing?.pricingCategory || '',
+        barcode: barcode || existing?.barcode || '',
+        taxRate: numbers.taxRate ?? existing?.taxRate,
+        openingStock: numbers.openingStock ?? existing?.openingStock,
+        reorderLevel: numbers.reorderLevel ?? existing?.reorderLevel,
+        scheme: scheme ?? existing?.scheme,
+        createdAt: existing ? existing.createdAt : Date.now(),
+      };
+
+      if (existing) {
+        products[products.indexOf(existing)] = product;
+        result.updated++;
+      } else {
+        products.push(product);
+        result.added++;
+      }
+      if (product.barcode) byBarcode.set(product.barcode, product);
+      byName.set(productKey(product.name, product.company), product);
+    });
+
+    await storageService.saveProducts(username, products);
+    return result;
+  },
+};
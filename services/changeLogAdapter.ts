@@ -0,0 +1,152 @@
+import { StorageAdapter, StoredRecord, StoreName } from './storageAdapter';
+import { permissionService } from './permissionService';
+import { generateId } from '../utils/generateId';
+
+// Stores and settings that are shared between devices. Drafts, the audit log and sync's own
+// bookkeeping stay on the device they were made on.
+export type SyncedStore = Exclude<StoreName, 'auditLog'> | 'meta';
+
+export const SYNCED_STORES: StoreName[] = ['invoices', 'payments', 'parties', 'products', 'pricingProfiles'];
+export const SYNCED_META = ['businessProfile', 'numberingSeries', 'members'];
+
+// Worked out again on every device, so never sent or compared
+export const UNSYNCED_FIELDS = ['remainingBalance', 'status', 'updatedAt'];
+
+export const OUTBOX_KEY = 'syncOutbox';
+
+const DEVICE_KEY = 'hisaab_device_id';
+
+// One record or setting as changed on a device. `record` is the whole record afterwards, so a
+// device that never had it can create it; `fields` says which parts this change is about.
+// Settings are changed as a whole, under the field "value".
+export interface SyncChange {
+  id: string;
+  device: string;
+  by: string; // Username
+  at: number;
+  store: SyncedStore;
+  recordId: string; // The meta key for settings
+  deleted?: boolean;
+  fields: string[];
+  record?: unknown;
+}
+
+// Shops with sync turned on. Nothing is recorded for the rest.
+const tracked = new Set<string>();
+
+// Outbox updates are read-modify-write, so they run one at a time, whoever makes them
+let queue: Promise<unknown> = Promise.resolve();
+
+export const changeLog = {
+  track: (username: string, on: boolean): void => {
+    if (on) tracked.add(username);
+    else tracked.delete(username);
+  },
+
+  isTracked: (username: string): boolean => tracked.has(username),
+
+  // Identifies this browser to the sync server, so it can skip its own changes
+  deviceId: (): string => {
+    let id = localStorage.getItem(DEVICE_KEY);
+    if (!id) {
+      id = `${generateId()}${Date.now().toString(36)}`;
+      localStorage.setItem(DEVICE_KEY, id);
+    }
+    return id;
+  },
+
+  // Top-level fields whose values differ, ignoring the ones every device works out itself
+  changedFields: (before: unknown, after: unknown): string[] => {
+    const a = (before || {}) as Record<string, unknown>;
+    const b = (after || {}) as Record<string, unknown>;
+    return [...new Set([...Object.keys(a), ...Object.keys(b)])]
+      .filter(field => !UNSYNCED_FIELDS.includes(field))
+      .filter(field => JSON.stringify(a[field]) !== JSON.stringify(b[field]));
+  },
+
+  // Folds a change into the outbox. Several changes to one record before a sync go out as one.
+  merge: (outbox: SyncChange[], change: SyncChange): SyncChange[] => {
+    const index = outbox.findIndex(c => c.store === change.store && c.recordId === change.recordId);
+    if (index === -1) return [...outbox, change];
+    const pending = outbox[index];
+    const merged: SyncChange = change.deleted
+      ? change
+      : { ...change, fields: [...new Set([...(pending.deleted ? [] : pending.fields), ...change.fields])] };
+    return outbox.map((c, i) => (i === index ? merged : c));
+  },
+
+  // `adapter` must be one that doesn't record changes itself
+  updateOutbox: <T>(adapter: StorageAdapter, username: string, update: (outbox: SyncChange[]) => { outbox: SyncChange[]; result: T }): Promise<T> => {
+    const next = queue.then(async () => {
+      const { outbox, result } = update((await adapter.getMeta<SyncChange[]>(username, OUTBOX_KEY)) || []);
+      await adapter.setMeta(username, OUTBOX_KEY, outbox);
+      return result;
+    });
+    queue = next.catch(() => undefined);
+    return next;
+  },
+};
+
+// Wraps the unlocked adapter and queues every change to a synced store or setting, for
+// syncService to send. Changes pulled from other devices are written past it, so they
+// don't bounce back.
+export const createChangeLogAdapter = (inner: StorageAdapter): StorageAdapter => {
+  const enqueue = (username: string, changes: Omit<SyncChange, 'id' | 'device' | 'by' | 'at'>[]) => {
+    if (changes.length === 0) return Promise.resolve();
+    const stamp = {
+      device: changeLog.deviceId(),
+      by: permissionService.getUser()?.username || username,
+      at: Date.now(),
+    };
+    return changeLog.updateOutbox(inner, username, outbox => ({
+      outbox: changes.reduce((list, change) => changeLog.merge(list, { id: `${generateId()}${generateId()}`, ...stamp, ...change }), outbox),
+      result: undefined,
+    }));
+  };
+
+  const isSynced = (username: string, store: StoreName) => changeLog.isTracked(username) && SYNCED_STORES.includes(store);
+
+  const writeRecords = async <T extends StoredRecord>(username: string, store: StoreName, records: T[], write: () => Promise<void>) => {
+    if (!isSynced(username, store)) return write();
+    const before = await Promise.all(records.map(r => inner.get<StoredRecord>(username, store, r.id)));
+    await write();
+    await enqueue(
+      username,
+      records
+        .map((record, i) => ({ store: store as SyncedStore, recordId: record.id, fields: changeLog.changedFields(before[i], record), record }))
+        .filter(change => change.fields.length > 0)
+    );
+  };
+
+  return {
+    ...inner,
+
+    put: <T extends StoredRecord>(username: string, store: StoreName, record: T) =>
+      writeRecords(username, store, [record], () => inner.put(username, store, record)),
+
+    putMany: <T extends StoredRecord>(username: string, store: StoreName, records: T[]) =>
+      writeRecords(username, store, records, () => inner.putMany(username, store, records)),
+
+    delete: async (username: string, store: StoreName, id: string) => {
+      const existed = isSynced(username, store) && (await inner.get(username, store, id)) !== undefined;
+      await inner.delete(username, store, id);
+      if (existed) await enqueue(username, [{ store: store as SyncedStore, recordId: id, deleted: true, fields: [] }]);
+    },
+
+    // As a delete of each record, so a restore that drops records drops them everywhere
+    clear: async (username: string, store: StoreName) => {
+      const ids = isSynced(username, store) ? (await inner.getAll(username, store)).map(r => r.id) : [];
+      await inner.clear(username, store);
+      await enqueue(username, ids.map(id => ({ store: store as SyncedStore, recordId: id, deleted: true, fields: [] })));
+    },
+
+    setMeta: async <T>(username: string, key: string, value: T) => {
+      const synced = changeLog.isTracked(username) && SYNCED_META.includes(key);
+      const before = synced ? await inner.getMeta<T>(username, key) : undefined;
+      await inner.setMeta(username, key, value);
+      if (synced && JSON.stringify(before) !== JSON.stringify(value)) {
+        await enqueue(username, [{ store: 'meta', recordId: key, fields: ['value'], record: value }]);
+      }
+    },
+  };
+};
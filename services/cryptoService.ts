@@ -0,0 +1,70 @@
+// Thin wrappers over WebCrypto. Binary values are stored as base64 strings.
+
+// Ciphertext of one JSON value with the IV it was sealed under
+export interface SealedValue {
+  iv: string;
+  data: string;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64 = (bytes: ArrayBuffer | Uint8Array): string => {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = '';
+  view.forEach(b => {
+    binary += String.fromCharCode(b);
+  });
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string): Uint8Array => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+export const cryptoService = {
+  toBase64,
+  fromBase64,
+
+  randomBytes: (length: number): Uint8Array => crypto.getRandomValues(new Uint8Array(length)),
+
+  // Stretches a password into `bits` of key material with PBKDF2-SHA256
+  deriveBits: async (password: string, salt: Uint8Array, iterations: number, bits: number): Promise<Uint8Array> => {
+    const material = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveBits']);
+    const derived = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, material, bits);
+    return new Uint8Array(derived);
+  },
+
+  sha256: async (bytes: Uint8Array): Promise<string> => {
+    return toBase64(await crypto.subtle.digest('SHA-256', bytes));
+  },
+
+  // Key-encryption key used only to wrap and unwrap a user's data key
+  importWrappingKey: (raw: Uint8Array): Promise<CryptoKey> => {
+    return crypto.subtle.importKey('raw', raw, 'AES-KW', false, ['wrapKey', 'unwrapKey']);
+  },
+
+  generateDataKey: (): Promise<CryptoKey> => {
+    return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+  },
+
+  wrapKey: async (key: CryptoKey, wrappingKey: CryptoKey): Promise<string> => {
+    return toBase64(await crypto.subtle.wrapKey('raw', key, wrappingKey, 'AES-KW'));
+  },
+
+  // Pass extractable only when the key has to be wrapped again, e.g. on a password change
+  unwrapKey: (wrapped: string, wrappingKey: CryptoKey, extractable = false): Promise<CryptoKey> => {
+    return crypto.subtle.unwrapKey(
+      'raw', fromBase64(wrapped), wrappingKey, 'AES-KW', 'AES-GCM', extractable, ['encrypt', 'decrypt']
+    );
+  },
+
+  encryptJson: async (key: CryptoKey, value: unknown): Promise<SealedValue> => {
+    const iv = cryptoService.randomBytes(12);
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(JSON.stringify(value)));
+    return { iv: toBase64(iv), data: toBase64(data) };
+  },
+
+  decryptJson: async <T>(key: CryptoKey, sealed: SealedValue): Promise<T> => {
+    const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(sealed.iv) }, key, fromBase64(sealed.data));
+    return JSON.parse(decoder.decode(data));
+  },
+};
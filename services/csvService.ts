@@ -0,0 +1,63 @@
+// Minimal RFC 4180 CSV reader/writer: quoted fields, escaped quotes ("") and newlines inside quotes.
+
+export const csvService = {
+  parse: (text: string, delimiter = ','): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    // Excel adds a byte order mark to UTF-8 CSV files
+    const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+    for (let i = 0; i < input.length; i++) {
+      const char = input[i];
+
+      if (inQuotes) {
+        if (char === '"' && input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inQuotes = true;
+      } else if (char === delimiter) {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && input[i + 1] === '\n') i++;
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (field !== '' || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+
+    // Drop blank lines
+    return rows.filter(r => r.some(cell => cell.trim() !== ''));
+  },
+
+  stringify: (rows: (string | number | null | undefined)[][], delimiter = ','): string => {
+    const escape = (value: string | number | null | undefined) => {
+      const text = value === null || value === undefined ? '' : String(value);
+      return /[",\r\n]/.test(text) || text.includes(delimiter) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    return rows.map(row => row.map(escape).join(delimiter)).join('\r\n');
+  },
+
+  // Normalises a header cell for matching, e.g. "Pack Size" -> "packsize"
+  headerKey: (header: string): string => header.toLowerCase().replace(/[^a-z0-9]/g, ''),
+};
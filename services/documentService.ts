@@ -0,0 +1,45 @@
+import { DocumentType, Invoice } from '../types';
+import { moneyService } from './moneyService';
+import { statusService } from './statusService';
+
+interface DocumentTypeInfo {
+  label: string;
+  title: string; // Printed at the top of the document
+  prefix: string; // Default numbering prefix
+  debitsParty: boolean; // Adds to what the party owes us; otherwise it is a credit to them
+  referencesOriginal: boolean; // Raised against an earlier sale
+  stockEffect: 1 | 0 | -1; // Whether its items come into stock, leave it, or don't move it (credit notes only adjust the price)
+}
+
+export const DOCUMENT_TYPES: Record<DocumentType, DocumentTypeInfo> = {
+  [DocumentType.SALE]: { label: 'Sale', title: 'INVOICE', prefix: 'INV-', debitsParty: true, referencesOriginal: false, stockEffect: -1 },
+  [DocumentType.PURCHASE]: { label: 'Purchase', title: 'PURCHASE INVOICE', prefix: 'PUR-', debitsParty: false, referencesOriginal: false, stockEffect: 1 },
+  [DocumentType.SALES_RETURN]: { label: 'Sales Return', title: 'SALES RETURN', prefix: 'SR-', debitsParty: false, referencesOriginal: true, stockEffect: 1 },
+  [DocumentType.CREDIT_NOTE]: { label: 'Credit Note', title: 'CREDIT NOTE', prefix: 'CN-', debitsParty: false, referencesOriginal: true, stockEffect: 0 },
+};
+
+type Typed = Pick<Invoice, 'docType'>;
+
+export const documentService = {
+  getType: (invoice: Typed): DocumentType => invoice.docType || DocumentType.SALE,
+
+  getInfo: (invoice: Typed): DocumentTypeInfo => DOCUMENT_TYPES[documentService.getType(invoice)],
+
+  // Only sales are collected with payments and count as receivables
+  isSale: (invoice: Typed): boolean => documentService.getType(invoice) === DocumentType.SALE,
+
+  // Returns and credit notes settle themselves; there is nothing to collect on them
+  isReturn: (invoice: Typed): boolean => DOCUMENT_TYPES[documentService.getType(invoice)].referencesOriginal,
+
+  // "INV-2026-0042", or the typed name for invoices from before numbering
+  displayName: (invoice: Pick<Invoice, 'docType' | 'number' | 'name'>): string => invoice.number || invoice.name,
+
+  // Returns and credit notes raised against a sale, which reduce what is due on it
+  getReturned: (invoices: Invoice[], invoiceId: string): number => {
+    return moneyService.sum(
+      invoices
+        .filter(inv => inv.originalInvoiceId === invoiceId && documentService.isReturn(inv) && !statusService.isCancelled(inv))
+        .map(inv => inv.totalAmount)
+    );
+  },
+};
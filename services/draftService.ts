@@ -0,0 +1,41 @@
+import { InvoiceDraft, User } from '../types';
+import { storageService } from './storageService';
+
+export const AUTOSAVE_INTERVAL_MS = 10 * 1000;
+
+// Members of a shop each keep their own drafts. Drafts saved before shops existed are the owner's.
+const draftKey = (user: User, invoiceId: string) => `${user.username}/${invoiceId}`;
+const isMine = (user: User, draft: InvoiceDraft) => (draft.author || user.shopId) === user.username;
+
+export const draftService = {
+  // The draft of a saved invoice, or the latest draft of a new one when no id is given
+  getDraft: async (user: User, invoiceId: string | null): Promise<InvoiceDraft | undefined> => {
+    const drafts = Object.values(await storageService.getDrafts(user.shopId)).filter(d => isMine(user, d));
+    if (invoiceId) return drafts.find(d => d.invoiceId === invoiceId && !d.isNew);
+    return drafts.filter(d => d.isNew).sort((a, b) => b.savedAt - a.savedAt)[0];
+  },
+
+  saveDraft: async (user: User, draft: InvoiceDraft): Promise<void> => {
+    const drafts = await storageService.getDrafts(user.shopId);
+    // A draft from before shops is replaced by this one
+    if (drafts[draft.invoiceId] && isMine(user, drafts[draft.invoiceId])) delete drafts[draft.invoiceId];
+    await storageService.saveDrafts(user.shopId, { ...drafts, [draftKey(user, draft.invoiceId)]: { ...draft, author: user.username } });
+  },
+
+  discardDraft: async (user: User, invoiceId: string): Promise<void> => {
+    const drafts = await storageService.getDrafts(user.shopId);
+    const keys = [draftKey(user, invoiceId), invoiceId].filter(key => drafts[key] && isMine(user, drafts[key]));
+    if (keys.length === 0) return;
+    keys.forEach(key => delete drafts[key]);
+    await storageService.saveDrafts(user.shopId, drafts);
+  },
+
+  // Every member's draft of an invoice, e.g. once it has been deleted
+  discardAll: async (username: string, invoiceId: string): Promise<void> => {
+    const drafts = await storageService.getDrafts(username);
+    const keys = Object.keys(drafts).filter(key => drafts[key].invoiceId === invoiceId);
+    if (keys.length === 0) return;
+    keys.forEach(key => delete drafts[key]);
+    await storageService.saveDrafts(username, drafts);
+  },
+};
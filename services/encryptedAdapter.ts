@@ -0,0 +1,69 @@
+import { Invoice } from '../types';
+import { InvoiceQuery, StorageAdapter, StoredRecord, StoreName, matchesInvoiceQuery } from './storageAdapter';
+import { cryptoService, SealedValue } from './cryptoService';
+
+// What actually lands in the backing store. Only the id stays readable, since stores are keyed by it.
+interface SealedRecord extends SealedValue {
+  id: string;
+  sealed: true;
+}
+
+const isSealed = (value: unknown): value is SealedValue & { sealed: true } =>
+  typeof value === 'object' && value !== null && (value as { sealed?: unknown }).sealed === true;
+
+// Wraps a backend so every record and meta value is AES-GCM encrypted with the user's data key.
+// Values written before encryption existed are still read as they are, and sealed when next saved.
+export const createEncryptedAdapter = (inner: StorageAdapter, key: CryptoKey): StorageAdapter => {
+  const seal = async <T extends StoredRecord>(record: T): Promise<SealedRecord> => ({
+    id: record.id,
+    sealed: true,
+    ...(await cryptoService.encryptJson(key, record)),
+  });
+
+  const open = async <T>(value: unknown): Promise<T> => {
+    return isSealed(value) ? cryptoService.decryptJson<T>(key, value) : (value as T);
+  };
+
+  const getAll = async <T extends StoredRecord>(username: string, store: StoreName): Promise<T[]> => {
+    const records = await inner.getAll<StoredRecord>(username, store);
+    return Promise.all(records.map(r => open<T>(r)));
+  };
+
+  return {
+    name: `${inner.name} (encrypted)`,
+
+    getAll,
+
+    get: async <T extends StoredRecord>(username: string, store: StoreName, id: string) => {
+      const record = await inner.get<StoredRecord>(username, store, id);
+      return record ? open<T>(record) : undefined;
+    },
+
+    put: async <T extends StoredRecord>(username: string, store: StoreName, record: T) => {
+      await inner.put(username, store, await seal(record));
+    },
+
+    putMany: async <T extends StoredRecord>(username: string, store: StoreName, records: T[]) => {
+      await inner.putMany(username, store, await Promise.all(records.map(seal)));
+    },
+
+    delete: (username: string, store: StoreName, id: string) => inner.delete(username, store, id),
+
+    clear: (username: string, store: StoreName) => inner.clear(username, store),
+
+    // Sealed records can't be indexed, so this decrypts everything and filters in memory
+    queryInvoices: async <T extends StoredRecord>(username: string, query: InvoiceQuery) => {
+      const invoices = await getAll<Invoice>(username, 'invoices');
+      return invoices.filter(inv => matchesInvoiceQuery(inv, query)) as unknown as T[];
+    },
+
+    getMeta: async <T>(username: string, metaKey: string) => {
+      const value = await inner.getMeta<unknown>(username, metaKey);
+      return value === undefined ? undefined : open<T>(value);
+    },
+
+    setMeta: async <T>(username: string, metaKey: string, value: T) => {
+      await inner.setMeta(username, metaKey, { sealed: true, ...(await cryptoService.encryptJson(key, value)) });
+    },
+  };
+};
@@ -0,0 +1,214 @@
+import { ChequeStatus, Invoice, LedgerEntry, Party, Payment } from '../types';
+import { Cell, ExportFormat, SheetColumn, SheetTable, spreadsheetService } from './spreadsheetService';
+import { moneyService } from './moneyService';
+import { paymentService } from './paymentService';
+import { statusService } from './statusService';
+import { documentService } from './documentService';
+import { taxService } from './taxService';
+
+export interface DateRange {
+  from?: string; // ISO date, inclusive
+  to?: string; // ISO date, inclusive
+}
+
+const inRange = (date: string, range: DateRange) =>
+  (!range.from || date >= range.from) && (!range.to || date <= range.to);
+
+const rangeLabel = (range: DateRange) =>
+  range.from || range.to ? `_${range.from || 'start'}_to_${range.to || 'today'}` : '';
+
+const safeName = (text: string) => text.trim().replace(/[^a-z0-9-]+/gi, '_') || 'export';
+
+export const exportService = {
+  filterByDate: <T extends { date: string }>(records: T[], range: DateRange): T[] => {
+    return records.filter(record => inRange(record.date, range));
+  },
+
+  // One invoice's rows. The total is the invoice total, which can differ from the sum
+  // of the rows by a few paisa when the profile rounds once per invoice. Invoices with
+  // tax get its columns, and the tax at each rate is listed under the rows.
+  invoiceTable: (invoice: Invoice): SheetTable => {
+    const items = invoice.items.filter(item => item.name.trim() !== '' || item.totalAmount !== 0);
+    const taxed = taxService.hasTax(items);
+    const bonus = items.some(item => item.bonusQty);
+    const summary = taxService.summarizeInvoice(invoice);
+    const taxColumns: SheetColumn[] = taxed
+      ? [
+          { header: 'Tax %', type: 'number' },
+          { header: 'Sales Tax', type: 'money' },
+          { header: 'F.Tax %', type: 'number' },
+          { header: 'Further Tax', type: 'money' },
+        ]
+      : [];
+    const columns: SheetColumn[] = [
+      { header: 'Sr', type: 'number', width: 5 },
+      { header: 'Item', width: 30 },
+      { header: 'Company', width: 18 },
+      { header: 'Qty', type: 'number' },
+      ...(bonus ? [{ header: 'Bonus', type: 'number' } as SheetColumn] : []),
+      { header: 'Rate', type: 'money' },
+      { header: 'T.P', type: 'money' },
+      { header: 'Disc %', type: 'number' },
+      { header: 'Net Rate', type: 'money' },
+      ...taxColumns,
+      { header: 'Amount', type: 'money', width: 14 },
+    ];
+    // Label under the item names, amount under Amount
+    const summaryRow = (label: string, amount: number): Cell[] => [null, label, ...Array(columns.length - 3).fill(null), amount];
+    return {
+      name: documentService.displayName(invoice) || 'Invoice',
+      columns,
+      rows: [
+        ...items.map((item, i): Cell[] => [
+          i + 1, item.name, item.company || '', item.qty, ...(bonus ? [item.bonusQty || 0] : []),
+          item.rate, item.tp, item.discount, item.totalPerPiece,
+          ...(taxed ? [item.taxRate || 0, item.salesTax || 0, item.furtherTaxRate || 0, item.furtherTax || 0] : []),
+          item.totalAmount,
+        ]),
+        ...(taxed
+          ? [
+              [],
+              summaryRow('Value excl. Tax', summary.taxable),
+              ...summary.byRate.map(line => summaryRow(`${taxService.rateLabel(line)} on ${moneyService.format(line.taxable)}`, line.tax)),
+            ]
+          : []),
+      ],
+      totals: [
+        null,
+        taxed ? 'Total incl. Tax' : 'Total',
+        null,
+        items.reduce((sum, item) => sum + item.qty, 0),
+        ...(bonus ? [items.reduce((sum, item) => sum + (item.bonusQty || 0), 0)] : []),
+        null, null, null, null,
+        ...(taxed ? [null, summary.salesTax, null, summary.furtherTax] : []),
+        invoice.totalAmount,
+      ],
+    };
+  },
+
+  invoiceListTable: (invoices: Invoice[], parties: Party[]): SheetTable => {
+    const partyName = (id?: string) => parties.find(p => p.id === id)?.name || '';
+    const billed = invoices.filter(inv => !statusService.isCancelled(inv) && documentService.isSale(inv));
+    return {
+      name: 'Invoices',
+      columns: [
+        { header: 'Date', width: 12 },
+        { header: 'Type', width: 14 },
+        { header: 'No', width: 16 },
+        { header: 'Invoice', width: 20 },
+        { header: 'Party', width: 24 },
+        { header: 'Due Date', width: 12 },
+        { header: 'Status', width: 14 },
+        { header: 'Items', type: 'number' },
+        { header: 'Total', type: 'money', width: 14 },
+        { header: 'Paid', type: 'money', width: 14 },
+        { header: 'Balance', type: 'money', width: 14 },
+      ],
+      rows: invoices.map(inv => [
+        inv.date,
+        documentService.getInfo(inv).label,
+        inv.number || '',
+        inv.name,
+        partyName(inv.partyId),
+        inv.dueDate || '',
+        documentService.isSale(inv) ? statusService.getStatus(inv) : '',
+        inv.items.length,
+        inv.totalAmount,
+        documentService.isSale(inv) ? moneyService.subtract(inv.totalAmount, inv.remainingBalance) : null,
+        documentService.isSale(inv) ? inv.remainingBalance : null,
+      ]),
+      // Cancelled invoices are listed but not counted, and only sales add up to what was billed
+      totals: [
+        'Total',
+        billed.length < invoices.length ? 'Sales only' : null,
+        null,
+        `${billed.length} invoice(s)`,
+        null, null, null, null,
+        moneyService.sum(billed.map(inv => inv.totalAmount)),
+        moneyService.sum(billed.map(inv => moneyService.subtract(inv.totalAmount, inv.remainingBalance))),
+        moneyService.sum(billed.map(inv => inv.remainingBalance)),
+      ],
+    };
+  },
+
+  paymentsTable: (payments: Payment[], parties: Party[], invoices: Invoice[]): SheetTable => {
+    const partyName = (id?: string) => parties.find(p => p.id === id)?.name || '';
+    const invoiceName = (id: string) => {
+      const invoice = invoices.find(inv => inv.id === id);
+      return invoice ? documentService.displayName(invoice) : id;
+    };
+    const received = payments.filter(p => p.chequeStatus !== ChequeStatus.BOUNCED);
+    return {
+      name: 'Payments Register',
+      columns: [
+        { header: 'Date', width: 12 },
+        { header: 'Party', width: 24 },
+        { header: 'Method', width: 14 },
+        { header: 'Reference', width: 16 },
+        { header: 'Cheque Status', width: 14 },
+        { header: 'Narration', width: 24 },
+        { header: 'Amount', type: 'money', width: 14 },
+        { header: 'Allocated', type: 'money', width: 14 },
+        { header: 'Unallocated', type: 'money', width: 14 },
+        { header: 'Invoices', width: 30 },
+      ],
+      rows: payments.map(p => [
+        p.date,
+        partyName(p.partyId),
+        p.method,
+        p.reference,
+        p.chequeStatus || '',
+        p.narration,
+        p.amount,
+        paymentService.getAllocated(p),
+        paymentService.getUnallocated(p),
+        p.allocations.map(a => invoiceName(a.invoiceId)).join(', '),
+      ]),
+      // Bounced cheques never reached the bank, so they are left out of the totals
+      totals: [
+        'Total',
+        `${received.length} payment(s)`,
+        null, null, null,
+        received.length < payments.length ? 'Excludes bounced cheques' : null,
+        moneyService.sum(received.map(p => p.amount)),
+        moneyService.sum(received.map(p => paymentService.getAllocated(p))),
+        moneyService.sum(received.map(p => paymentService.getUnallocated(p))),
+        null,
+      ],
+    };
+  },
+
+  ledgerTable: (party: Party, entries: LedgerEntry[]): SheetTable => {
+    return {
+      name: party.name || 'Ledger',
+      columns: [
+        { header: 'Date', width: 12 },
+        { header: 'Particulars', width: 36 },
+        { header: 'Debit', type: 'money', width: 14 },
+        { header: 'Credit', type: 'money', width: 14 },
+        { header: 'Balance', type: 'money', width: 14 },
+      ],
+      rows: entries.map(e => [e.date, e.description, e.debit || null, e.credit || null, e.balance]),
+      totals: [
+        'Total',
+        null,
+        moneyService.sum(entries.map(e => e.debit)),
+        moneyService.sum(entries.map(e => e.credit)),
+        entries.length > 0 ? entries[entries.length - 1].balance : 0,
+      ],
+    };
+  },
+
+  fileName: (base: string, format: ExportFormat, range: DateRange = {}): string => {
+    return `${safeName(base)}${rangeLabel(range)}.${format}`;
+  },
+
+  download: (table: SheetTable, format: ExportFormat, fileName: string) => {
+    const url = URL.createObjectURL(spreadsheetService.toBlob(table, format));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  },
+};
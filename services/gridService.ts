@@ -0,0 +1,88 @@
+import { InvoiceItem } from '../types';
+import { csvService } from './csvService';
+import { schemeService } from './schemeService';
+
+// The item table's editable columns, in tab order. T.P and the totals are calculated and skipped.
+export type GridColumn = 'name' | 'company' | 'batch' | 'expiry' | 'qty' | 'bonusQty' | 'rate' | 'discount' | 'taxRate' | 'furtherTaxRate';
+
+export const GRID_COLUMNS: GridColumn[] = ['name', 'company', 'qty', 'bonusQty', 'rate', 'discount'];
+
+export interface CellPosition {
+  row: number;
+  column: GridColumn;
+}
+
+// Header names the line item import recognises, so copied rows paste straight back in
+const COPY_HEADERS = ['Item Name', 'Company', 'Qty', 'Rate', 'Disc %'];
+
+export const gridService = {
+  // Batch and expiry follow the product they belong to, bonus follows qty and tax rates come after the discount
+  columns: (shown: { batches: boolean; tax: boolean }): GridColumn[] => [
+    'name',
+    'company',
+    ...(shown.batches ? (['batch', 'expiry'] as GridColumn[]) : []),
+    'qty',
+    'bonusQty',
+    'rate',
+    'discount',
+    ...(shown.tax ? (['taxRate', 'furtherTaxRate'] as GridColumn[]) : []),
+  ],
+
+  cellId: (row: number, column: GridColumn): string => `cell-${row}-${column}`,
+
+  // Tab order runs along the row and wraps to the next one. A row equal to rowCount means
+  // a new row has to be added first; null means Shift+Tab on the very first cell.
+  nextTabStop: (from: CellPosition, backwards: boolean, rowCount: number, columns = GRID_COLUMNS): CellPosition | null => {
+    const index = from.row * columns.length + columns.indexOf(from.column) + (backwards ? -1 : 1);
+    if (index < 0) return null;
+    const row = Math.floor(index / columns.length);
+    return { row: Math.min(row, rowCount), column: columns[index % columns.length] };
+  },
+
+  // Ids of the rows from one row to another, inclusive, in table order
+  rangeIds: (items: InvoiceItem[], fromId: string, toId: string): string[] => {
+    const a = items.findIndex(i => i.id === fromId);
+    const b = items.findIndex(i => i.id === toId);
+    if (a < 0 || b < 0) return [];
+    return items.slice(Math.min(a, b), Math.max(a, b) + 1).map(i => i.id);
+  },
+
+  // Moves the given rows, keeping their order, to just before or after the target row
+  moveRows: (items: InvoiceItem[], ids: string[], targetId: string, after: boolean): InvoiceItem[] => {
+    if (ids.includes(targetId)) return items;
+    const moving = items.filter(i => ids.includes(i.id));
+    const rest = items.filter(i => !ids.includes(i.id));
+    const at = rest.findIndex(i => i.id === targetId) + (after ? 1 : 0);
+    return [...rest.slice(0, at), ...moving, ...rest.slice(at)];
+  },
+
+  // Copies the first selected row's value in a column to the other selected rows
+  fillDown: (
+    items: InvoiceItem[],
+    ids: string[],
+    column: GridColumn,
+    recalculate: (item: InvoiceItem) => InvoiceItem
+  ): InvoiceItem[] => {
+    const source = items.find(i => ids.includes(i.id));
+    if (!source) return items;
+    return items.map(item => {
+      if (item === source || !ids.includes(item.id)) return item;
+      const filled = { ...item, [column]: source[column] };
+      // A copied name is the same product, so the link to the catalog and its scheme come along with it
+      if (column === 'name') {
+        filled.productId = source.productId;
+        filled.scheme = source.scheme;
+      }
+      if (schemeService.overrides(item, column)) filled.scheme = undefined;
+      return recalculate(filled);
+    });
+  },
+
+  // Tab-separated, with a header row, as Excel and Google Sheets paste it
+  toTsv: (items: InvoiceItem[]): string => {
+    return csvService.stringify(
+      [COPY_HEADERS, ...items.map(i => [i.name, i.company || '', i.qty, i.rate, i.discount])],
+      '\t'
+    );
+  },
+};
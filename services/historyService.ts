@@ -0,0 +1,53 @@
+import { EditorSnapshot } from '../types';
+
+const MAX_STEPS = 100;
+
+export interface HistoryStep {
+  label: string; // e.g. "Delete row", shown on the undo button
+  key?: string; // Consecutive steps with the same key, like typing in one cell, merge into one
+  snapshot: EditorSnapshot; // State before the step
+}
+
+export interface EditHistory {
+  past: HistoryStep[];
+  future: HistoryStep[];
+}
+
+export const historyService = {
+  empty: (): EditHistory => ({ past: [], future: [] }),
+
+  // Call before applying a change, with the state it is about to replace
+  record: (history: EditHistory, before: EditorSnapshot, label: string, key?: string): EditHistory => {
+    const last = history.past[history.past.length - 1];
+    if (key && last?.key === key && history.future.length === 0) return history;
+    return {
+      past: [...history.past, { label, key, snapshot: before }].slice(-MAX_STEPS),
+      future: [],
+    };
+  },
+
+  // Returns the state to restore, or null when there is nothing to undo
+  undo: (history: EditHistory, current: EditorSnapshot): { history: EditHistory; snapshot: EditorSnapshot } | null => {
+    const step = history.past[history.past.length - 1];
+    if (!step) return null;
+    return {
+      history: {
+        past: history.past.slice(0, -1),
+        future: [{ label: step.label, snapshot: current }, ...history.future],
+      },
+      snapshot: step.snapshot,
+    };
+  },
+
+  redo: (history: EditHistory, current: EditorSnapshot): { history: EditHistory; snapshot: EditorSnapshot } | null => {
+    const step = history.future[0];
+    if (!step) return null;
+    return {
+      history: {
+        past: [...history.past, { label: step.label, snapshot: current }],
+        future: history.future.slice(1),
+      },
+      snapshot: step.snapshot,
+    };
+  },
+};
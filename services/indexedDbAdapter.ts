@@ -0,0 +1,130 @@
+import { Invoice } from '../types';
+import { InvoiceQuery, StorageAdapter, StoredRecord, StoreName, STORE_NAMES, matchesInvoiceQuery } from './storageAdapter';
+
+// One database per user. Bump DB_VERSION and extend `upgrade` when stores or indexes change.
+const DB_PREFIX = 'hisaab_';
+const DB_VERSION = 2;
+const META_STORE = 'meta';
+
+const INDEXES: Partial<Record<StoreName, string[]>> = {
+  invoices: ['date', 'partyId', 'status'],
+  payments: ['date', 'partyId'],
+};
+
+const connections = new Map<string, Promise<IDBDatabase>>();
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const upgrade = (db: IDBDatabase) => {
+  STORE_NAMES.forEach(name => {
+    if (db.objectStoreNames.contains(name)) return;
+    const store = db.createObjectStore(name, { keyPath: 'id' });
+    (INDEXES[name] || []).forEach(field => store.createIndex(field, field));
+  });
+  if (!db.objectStoreNames.contains(META_STORE)) {
+    db.createObjectStore(META_STORE);
+  }
+};
+
+const open = (username: string): Promise<IDBDatabase> => {
+  let connection = connections.get(username);
+  if (!connection) {
+    connection = new Promise((resolve, reject) => {
+      const request = indexedDB.open(`${DB_PREFIX}${username}`, DB_VERSION);
+      request.onupgradeneeded = () => upgrade(request.result);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('The database is open in another tab with an older version'));
+    });
+    // Let a failed open be retried
+    connection.catch(() => connections.delete(username));
+    connections.set(username, connection);
+  }
+  return connection;
+};
+
+// Runs `work` in a transaction and resolves once it has committed
+const transact = async <T>(
+  username: string,
+  store: string,
+  mode: IDBTransactionMode,
+  work: (objectStore: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await open(username);
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const request = work(tx.objectStore(store));
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+};
+
+export const indexedDbAdapter: StorageAdapter & { isSupported: () => boolean } = {
+  name: 'IndexedDB',
+
+  isSupported: () => typeof indexedDB !== 'undefined',
+
+  getAll: async <T extends StoredRecord>(username: string, store: StoreName) => {
+    return ((await transact(username, store, 'readonly', s => s.getAll())) || []) as T[];
+  },
+
+  get: async <T extends StoredRecord>(username: string, store: StoreName, id: string) => {
+    return (await transact(username, store, 'readonly', s => s.get(id))) as T | undefined;
+  },
+
+  put: async <T extends StoredRecord>(username: string, store: StoreName, record: T) => {
+    await transact(username, store, 'readwrite', s => s.put(record));
+  },
+
+  putMany: async <T extends StoredRecord>(username: string, store: StoreName, records: T[]) => {
+    await transact(username, store, 'readwrite', s => {
+      records.forEach(record => s.put(record));
+    });
+  },
+
+  delete: async (username: string, store: StoreName, id: string) => {
+    await transact(username, store, 'readwrite', s => s.delete(id));
+  },
+
+  clear: async (username: string, store: StoreName) => {
+    await transact(username, store, 'readwrite', s => s.clear());
+  },
+
+  // Narrows with the most selective index available, then filters the rest in memory
+  queryInvoices: async <T extends StoredRecord>(username: string, query: InvoiceQuery) => {
+    const db = await open(username);
+    const invoices = db.transaction('invoices', 'readonly').objectStore('invoices');
+
+    let request: IDBRequest<Invoice[]>;
+    if (query.partyId) {
+      request = invoices.index('partyId').getAll(query.partyId);
+    } else if (query.status) {
+      request = invoices.index('status').getAll(query.status);
+    } else if (query.from || query.to) {
+      const range = query.from && query.to
+        ? IDBKeyRange.bound(query.from, query.to)
+        : query.from
+          ? IDBKeyRange.lowerBound(query.from)
+          : IDBKeyRange.upperBound(query.to!);
+      request = invoices.index('date').getAll(range);
+    } else {
+      request = invoices.getAll();
+    }
+
+    const results = await promisify(request);
+    return results.filter(inv => matchesInvoiceQuery(inv, query)) as unknown as T[];
+  },
+
+  getMeta: async <T>(username: string, key: string) => {
+    return (await transact(username, META_STORE, 'readonly', s => s.get(key))) as T | undefined;
+  },
+
+  setMeta: async <T>(username: string, key: string, value: T) => {
+    await transact(username, META_STORE, 'readwrite', s => s.put(value, key));
+  },
+};
@@ -0,0 +1,120 @@
+import { Invoice, InvoiceItem, Product } from '../types';
+import { storageService } from './storageService';
+import { documentService } from './documentService';
+import { statusService } from './statusService';
+import { schemeService } from './schemeService';
+
+// Stock is never stored. It is worked out from the catalog's opening stock and the saved
+// invoices, so editing, cancelling or deleting an invoice undoes its effect by itself.
+// Bonus pieces move stock like any other.
+
+export interface StockLevel {
+  product: Product;
+  opening: number;
+  purchased: number;
+  sold: number;
+  returned: number; // Back in from sales returns
+  onHand: number;
+}
+
+// A product the invoice asks for more of than is in stock
+export interface StockShortfall {
+  productId: string;
+  name: string;
+  requested: number;
+  available: number;
+  itemIds: string[]; // The invoice rows for the product
+}
+
+export interface StockOptions {
+  asOf?: string; // ISO date; invoices dated after it are left out
+  excludeInvoiceId?: string; // e.g. the invoice being edited, so its saved quantities aren't counted twice
+}
+
+const itemKey = (name: string, company = '') => `${name.trim().toLowerCase()}|${company.trim().toLowerCase()}`;
+
+// Rows picked from the catalog carry its id; older and typed rows are matched by name and company
+const productFinder = (products: Product[]) => {
+  const byId = new Map(products.map(p => [p.id, p]));
+  const byKey = new Map(products.map(p => [itemKey(p.name, p.company), p]));
+  return (item: InvoiceItem): Product | undefined =>
+    (item.productId && byId.get(item.productId)) || (item.name.trim() ? byKey.get(itemKey(item.name, item.company)) : undefined);
+};
+
+export const inventoryService = {
+  // One level per catalog product, in catalog order
+  getLevels: (products: Product[], invoices: Invoice[], options: StockOptions = {}): StockLevel[] => {
+    const levels = new Map<string, StockLevel>(
+      products.map(product => {
+        const opening = product.openingStock || 0;
+        return [product.id, { product, opening, purchased: 0, sold: 0, returned: 0, onHand: opening }];
+      })
+    );
+    const findProduct = productFinder(products);
+
+    invoices
+      .filter(inv => inv.id !== options.excludeInvoiceId && !statusService.isCancelled(inv))
+      .filter(inv => !options.asOf || inv.date <= options.asOf)
+      .forEach(inv => {
+        const effect = documentService.getInfo(inv).stockEffect;
+        if (effect === 0) return;
+        inv.items.forEach(item => {
+          const product = findProduct(item);
+          const units = schemeService.units(item);
+          if (!product || !units) return;
+          const level = levels.get(product.id)!;
+          if (effect < 0) level.sold += units;
+          else if (documentService.isReturn(inv)) level.returned += units;
+          else level.purchased += units;
+          level.onHand += effect * units;
+        });
+      });
+
+    return [...levels.values()];
+  },
+
+  // Shared with batchService, which counts stock the same way per batch
+  productFinder,
+
+  loadLevels: async (username: string, options: StockOptions = {}): Promise<StockLevel[]> => {
+    const [products, invoices] = await Promise.all([storageService.getProducts(username), storageService.getInvoices(username)]);
+    return inventoryService
+      .getLevels(products, invoices, options)
+      .sort((a, b) => a.product.name.localeCompare(b.product.name));
+  },
+
+  // Counted once an opening stock is entered or the product is bought in; until then the shop
+  // isn't keeping its stock here and there is nothing to warn about
+  isTracked: (level: StockLevel): boolean => level.product.openingStock !== undefined || level.purchased > 0,
+
+  isLow: (level: StockLevel): boolean =>
+    level.product.reorderLevel !== undefined && level.onHand <= level.product.reorderLevel,
+
+  // Rows on a document that takes stock out, totalled per product and checked against what
+  // is left once every other invoice is counted. Products whose stock isn't tracked are skipped.
+  getShortfalls: (
+    invoice: Pick<Invoice, 'id' | 'docType' | 'items'>,
+    products: Product[],
+    invoices: Invoice[]
+  ): StockShortfall[] => {
+    if (documentService.getInfo(invoice).stockEffect >= 0) return [];
+    const findProduct = productFinder(products);
+    const wanted = new Map<string, StockShortfall>();
+    invoice.items.forEach(item => {
+      const product = findProduct(item);
+      const units = schemeService.units(item);
+      if (!product || !units) return;
+      const entry = wanted.get(product.id) || { productId: product.id, name: product.name, requested: 0, available: 0, itemIds: [] };
+      wanted.set(product.id, { ...entry, requested: entry.requested + units, itemIds: [...entry.itemIds, item.id] });
+    });
+    if (wanted.size === 0) return [];
+
+    const levels = new Map(
+      inventoryService.getLevels(products, invoices, { excludeInvoiceId: invoice.id }).map(level => [level.product.id, level])
+    );
+    return [...wanted.values()]
+      .filter(entry => inventoryService.isTracked(levels.get(entry.productId)!))
+      .map(entry => ({ ...entry, available: levels.get(entry.productId)!.onHand }))
+      .filter(entry => entry.requested > entry.available);
+  },
+};
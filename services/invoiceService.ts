@@ -0,0 +1,62 @@
+import { Invoice } from '../types';
+import { storageService } from './storageService';
+import { paymentService } from './paymentService';
+import { documentService } from './documentService';
+import { draftService } from './draftService';
+import { permissionService } from './permissionService';
+import { auditService } from './auditService';
+import { numberingService } from './numberingService';
+
+const sameOverride = (a: Invoice['statusOverride'], b: Invoice['statusOverride']) =>
+  JSON.stringify(a || null) === JSON.stringify(b || null);
+
+const write = async (username: string, invoice: Invoice, existing?: Invoice): Promise<Invoice> => {
+  // When it was first saved never changes
+  const saved: Invoice = { ...invoice, createdAt: existing ? existing.createdAt : invoice.createdAt, updatedAt: Date.now() };
+  const entry = auditService.entry('invoice', existing, saved);
+  if (!entry) return existing || saved;
+  await storageService.saveInvoice(username, saved);
+  await auditService.record(username, [entry]);
+  return saved;
+};
+
+export const invoiceService = {
+  // Anyone who bills can save; marking the status by hand needs its own permission.
+  // Every change is written to the audit log. A document without a number takes the next one
+  // in its series as it is written, and its name defaults to that number.
+  saveInvoice: async (username: string, invoice: Invoice): Promise<Invoice> => {
+    permissionService.require('invoices.edit');
+    const existing = await storageService.getInvoice(username, invoice.id);
+    if (!sameOverride(existing?.statusOverride, invoice.statusOverride)) permissionService.require('invoices.status');
+
+    const number = invoice.number || existing?.number;
+    if (number) return write(username, { ...invoice, number, name: invoice.name.trim() || number }, existing);
+    return numberingService.assign(username, documentService.getType(invoice), invoice.date, assigned =>
+      write(username, { ...invoice, number: assigned, name: invoice.name.trim() || assigned }, existing)
+    );
+  },
+
+  // Refuses while payments or returns still point at the invoice, so nothing is left dangling
+  deleteInvoice: async (username: string, invoiceId: string): Promise<void> => {
+    permissionService.require('invoices.delete');
+    const [invoice, invoices, payments] = await Promise.all([
+      storageService.getInvoice(username, invoiceId),
+      storageService.getInvoices(username),
+      storageService.getPayments(username),
+    ]);
+    if (!invoice) return;
+    if (payments.some(p => p.allocations.some(a => a.invoiceId === invoiceId))) {
+      throw new Error(`${documentService.displayName(invoice)} has payments against it. Remove them first.`);
+    }
+    const against = invoices.find(inv => inv.originalInvoiceId === invoiceId);
+    if (against) {
+      throw new Error(`${documentService.displayName(against)} is against ${documentService.displayName(invoice)}. Delete it first.`);
+    }
+
+    await storageService.deleteInvoice(username, invoiceId);
+    await auditService.record(username, [auditService.entry('invoice', invoice, undefined)]);
+    await draftService.discardAll(username, invoiceId);
+    // Deleting a return puts the amount back on the sale
+    if (invoice.originalInvoiceId) await paymentService.refreshInvoiceBalances(username, [invoice.originalInvoiceId]);
+  },
+};
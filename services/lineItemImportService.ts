@@ -0,0 +1,108 @@
+import { InvoiceItem, PricingRules, Product } from '../types';
+import { csvService } from './csvService';
+import { moneyService } from './moneyService';
+import { pricingService } from './pricingService';
+import { generateId } from '../utils/generateId';
+
+export type ImportField = 'name' | 'company' | 'qty' | 'rate' | 'discount';
+
+export const IMPORT_FIELDS: ImportField[] = ['name', 'company', 'qty', 'rate', 'discount'];
+
+// Column index per field, -1 when the field isn't in the sheet
+export type ColumnMapping = Record<ImportField, number>;
+
+export interface ImportPreviewRow {
+  line: number; // Row number in the source, 1-based
+  item: InvoiceItem; // Priced with calculateRow
+  errors: string[];
+}
+
+// Header spellings distributors use, after csvService.headerKey
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  name: ['name', 'item', 'itemname', 'product', 'productname', 'description', 'particulars'],
+  company: ['company', 'manufacturer', 'mfg', 'brand'],
+  qty: ['qty', 'quantity', 'qnty', 'pcs', 'units'],
+  rate: ['rate', 'price', 'mrp', 'retailprice', 'unitprice'],
+  discount: ['discount', 'disc', 'discpercent', 'discountpercent'],
+};
+
+// Headerless blocks are assumed to be Name, Qty, Rate, Discount
+const POSITIONAL: ColumnMapping = { name: 0, company: -1, qty: 1, rate: 2, discount: 3 };
+
+// Accepts "1,250.50", "Rs. 40", "-5%" and the like; NaN when it isn't a number
+const parseNumber = (text: string): number => {
+  const cleaned = text.replace(/,/g, '').replace(/^rs\.?\s*/i, '').replace(/%$/, '').trim();
+  return cleaned === '' ? 0 : Number(cleaned);
+};
+
+export const lineItemImportService = {
+  // The first row is a header when any of its cells names a known field
+  hasHeader: (rows: string[][]): boolean => {
+    if (rows.length === 0) return false;
+    const keys = rows[0].map(csvService.headerKey);
+    return IMPORT_FIELDS.some(field => keys.some(key => FIELD_ALIASES[field].includes(key)));
+  },
+
+  guessMapping: (rows: string[][], hasHeader: boolean): ColumnMapping => {
+    if (!hasHeader) {
+      const width = Math.max(0, ...rows.map(r => r.length));
+      return Object.fromEntries(
+        IMPORT_FIELDS.map(field => [field, POSITIONAL[field] < width ? POSITIONAL[field] : -1])
+      ) as ColumnMapping;
+    }
+    const keys = rows[0].map(csvService.headerKey);
+    return Object.fromEntries(
+      IMPORT_FIELDS.map(field => [field, keys.findIndex(key => FIELD_ALIASES[field].includes(key))])
+    ) as ColumnMapping;
+  },
+
+  // Prices every data row and lists what is wrong with it. Names matching a catalog
+  // product are linked to it, and take its company when no company column is mapped.
+  buildPreview: (
+    rows: string[][],
+    hasHeader: boolean,
+    mapping: ColumnMapping,
+    rules: PricingRules,
+    products: Product[]
+  ): ImportPreviewRow[] => {
+    const byName = new Map(products.map(p => [p.name.trim().toLowerCase(), p]));
+    const cell = (row: string[], field: ImportField) => (mapping[field] >= 0 ? (row[mapping[field]] || '').trim() : '');
+
+    return rows
+      .map((row, i) => ({ row, line: i + 1 }))
+      .slice(hasHeader ? 1 : 0)
+      .filter(({ row }) => row.some(value => value.trim() !== ''))
+      .map(({ row, line }) => {
+        const errors: string[] = [];
+        const name = cell(row, 'name');
+        if (!name) errors.push('Name is empty');
+
+        const qty = parseNumber(cell(row, 'qty'));
+        if (!Number.isFinite(qty) || qty <= 0) errors.push(`Invalid quantity "${cell(row, 'qty')}"`);
+
+        const rate = parseNumber(cell(row, 'rate'));
+        if (!Number.isFinite(rate) || rate < 0) errors.push(`Invalid rate "${cell(row, 'rate')}"`);
+
+        const discount = parseNumber(cell(row, 'discount'));
+        if (!Number.isFinite(discount) || discount <= -100 || discount > 100) {
+          errors.push(`Invalid discount "${cell(row, 'discount')}"`);
+        }
+
+        const product = byName.get(name.toLowerCase());
+        const item = pricingService.calculateRow({
+          id: generateId(),
+          productId: product?.id,
+          name,
+          company: cell(row, 'company') || product?.company || '',
+          qty: Number.isFinite(qty) ? qty : 0,
+          rate: Number.isFinite(rate) ? moneyService.normalize(rate) : 0,
+          tp: 0,
+          discount: Number.isFinite(discount) ? discount : 0,
+          totalPerPiece: 0,
+          totalAmount: 0,
+        }, rules);
+
+        return { line, item, errors };
+      });
+  },
+};
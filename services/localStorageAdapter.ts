@@ -0,0 +1,89 @@
+import { Invoice } from '../types';
+import { InvoiceQuery, StorageAdapter, StoredRecord, StoreName, matchesInvoiceQuery } from './storageAdapter';
+
+// The original storage layout: one JSON array per store and user. Still used where
+// IndexedDB is unavailable, and as the source of the one-time migration.
+const PREFIXES: Record<StoreName, string> = {
+  invoices: 'hisaab_data_',
+  pricingProfiles: 'hisaab_pricing_',
+  products: 'hisaab_products_',
+  parties: 'hisaab_parties_',
+  payments: 'hisaab_payments_',
+  auditLog: 'hisaab_audit_',
+};
+const META_PREFIX = 'hisaab_meta_';
+
+const keyFor = (username: string, store: StoreName) => `${PREFIXES[store]}${username}`;
+
+const read = <T>(username: string, store: StoreName): T[] => {
+  const data = localStorage.getItem(keyFor(username, store));
+  return data ? JSON.parse(data) : [];
+};
+
+const write = <T>(username: string, store: StoreName, records: T[]) => {
+  localStorage.setItem(keyFor(username, store), JSON.stringify(records));
+};
+
+const readMeta = (username: string): Record<string, unknown> => {
+  const data = localStorage.getItem(`${META_PREFIX}${username}`);
+  return data ? JSON.parse(data) : {};
+};
+
+export const localStorageAdapter: StorageAdapter & {
+  hasData: (username: string) => boolean;
+  removeAll: (username: string) => void;
+} = {
+  name: 'localStorage',
+
+  getAll: async <T extends StoredRecord>(username: string, store: StoreName) => read<T>(username, store),
+
+  get: async <T extends StoredRecord>(username: string, store: StoreName, id: string) => {
+    return read<T>(username, store).find(r => r.id === id);
+  },
+
+  put: async <T extends StoredRecord>(username: string, store: StoreName, record: T) => {
+    const records = read<T>(username, store);
+    const existingIndex = records.findIndex(r => r.id === record.id);
+
+    if (existingIndex >= 0) {
+      records[existingIndex] = record;
+    } else {
+      records.push(record);
+    }
+
+    write(username, store, records);
+  },
+
+  putMany: async <T extends StoredRecord>(username: string, store: StoreName, updates: T[]) => {
+    const byId = new Map(read<T>(username, store).map(r => [r.id, r]));
+    updates.forEach(r => byId.set(r.id, r));
+    write(username, store, [...byId.values()]);
+  },
+
+  delete: async (username: string, store: StoreName, id: string) => {
+    write(username, store, read<StoredRecord>(username, store).filter(r => r.id !== id));
+  },
+
+  clear: async (username: string, store: StoreName) => {
+    localStorage.removeItem(keyFor(username, store));
+  },
+
+  queryInvoices: async <T extends StoredRecord>(username: string, query: InvoiceQuery) => {
+    return read<Invoice>(username, 'invoices').filter(inv => matchesInvoiceQuery(inv, query)) as unknown as T[];
+  },
+
+  getMeta: async <T>(username: string, key: string) => readMeta(username)[key] as T | undefined,
+
+  setMeta: async <T>(username: string, key: string, value: T) => {
+    localStorage.setItem(`${META_PREFIX}${username}`, JSON.stringify({ ...readMeta(username), [key]: value }));
+  },
+
+  hasData: (username: string) => {
+    return (Object.keys(PREFIXES) as StoreName[]).some(store => localStorage.getItem(keyFor(username, store)) !== null);
+  },
+
+  removeAll: (username: string) => {
+    (Object.keys(PREFIXES) as StoreName[]).forEach(store => localStorage.removeItem(keyFor(username, store)));
+    localStorage.removeItem(`${META_PREFIX}${username}`);
+  },
+};
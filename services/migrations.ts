@@ -0,0 +1,86 @@
+import { InvoiceStatus, PaymentMethod } from '../types';
+import { StoreName } from './storageAdapter';
+import { moneyService } from './moneyService';
+
+// Raw store contents as saved by some older version of the app, so deliberately untyped
+export type SchemaData = Record<StoreName, any[]>;
+
+export interface Migration {
+  version: number; // The schema version the data is at after this runs
+  description: string;
+  migrate: (data: SchemaData) => SchemaData;
+}
+
+const ITEM_MONEY_FIELDS = ['rate', 'tp', 'totalPerPiece', 'totalAmount'];
+
+// Ordered oldest first. Never edit a migration that has shipped; add a new one instead.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Move payments kept inside invoices into the payments store',
+    migrate: (data) => {
+      const payments = [...data.payments];
+      const invoices = data.invoices.map(inv => {
+        if (!inv || !Array.isArray(inv.payments)) return inv;
+        inv.payments
+          .filter((row: any) => Number(row?.amount) > 0)
+          .forEach((row: any) => {
+            const amount = moneyService.normalize(Number(row.amount));
+            payments.push({
+              id: row.id,
+              partyId: inv.partyId,
+              date: inv.date,
+              method: PaymentMethod.CASH,
+              reference: '',
+              amount,
+              narration: row.narration || '',
+              allocations: [{ invoiceId: inv.id, amount }],
+              createdAt: inv.createdAt,
+            });
+          });
+        const { payments: _removed, ...rest } = inv;
+        return rest;
+      });
+      return { ...data, invoices, payments };
+    },
+  },
+  {
+    version: 2,
+    description: 'Replace the old Pending status and round money to whole paisa',
+    migrate: (data) => {
+      const invoices = data.invoices.map(inv => {
+        if (!inv) return inv;
+        const items = Array.isArray(inv.items)
+          ? inv.items.map((item: any) => {
+              const next = { ...item };
+              ITEM_MONEY_FIELDS.forEach(field => {
+                if (typeof next[field] === 'number') next[field] = moneyService.normalize(next[field]);
+              });
+              return next;
+            })
+          : inv.items;
+        return {
+          ...inv,
+          items,
+          // Balances and statuses are re-derived after migrating; this only makes the value valid
+          status: inv.status === 'Pending' ? InvoiceStatus.UNPAID : inv.status,
+          totalAmount: typeof inv.totalAmount === 'number' ? moneyService.normalize(inv.totalAmount) : inv.totalAmount,
+        };
+      });
+      return { ...data, invoices };
+    },
+  },
+  {
+    version: 3,
+    description: 'Re-save every record so it is stored encrypted',
+    // Nothing to change: the rewrite after migrating goes through the encrypting adapter
+    migrate: (data) => data,
+  },
+  {
+    version: 4,
+    description: 'Start the audit log',
+    migrate: (data) => ({ ...data, auditLog: data.auditLog || [] }),
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
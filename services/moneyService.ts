@@ -0,0 +1,146 @@
+import { RoundingMode } from '../types';
+
+// All money arithmetic goes through here. Amounts are stored on records as rupees, but every
+// sum and difference is done in integer paisa, and every percentage calculation is done in
+// exact decimal (BigInt digits + a power-of-ten scale) so totals never drift from a statement.
+
+export interface Decimal {
+  digits: bigint;
+  scale: number; // value = digits / 10^scale
+}
+
+const pow10 = (n: number): bigint => 10n ** BigInt(n);
+
+const toDecimal = (value: number | string): Decimal => {
+  let text = typeof value === 'number' ? String(value) : value.trim();
+  if (!Number.isFinite(Number(text))) {
+    throw new Error(`Invalid amount: ${value}`);
+  }
+  // Very small or very large numbers stringify in exponent form
+  if (/e/i.test(text)) text = Number(text).toFixed(20);
+
+  const negative = text.startsWith('-');
+  const [whole, fraction = ''] = text.replace(/^[-+]/, '').split('.');
+  const digits = BigInt((whole || '0') + fraction);
+  return { digits: negative ? -digits : digits, scale: fraction.length };
+};
+
+const align = (a: Decimal, b: Decimal): [bigint, bigint, number] => {
+  const scale = Math.max(a.scale, b.scale);
+  return [a.digits * pow10(scale - a.scale), b.digits * pow10(scale - b.scale), scale];
+};
+
+const add = (a: Decimal, b: Decimal): Decimal => {
+  const [x, y, scale] = align(a, b);
+  return { digits: x + y, scale };
+};
+
+const multiply = (a: Decimal, b: Decimal): Decimal => ({
+  digits: a.digits * b.digits,
+  scale: a.scale + b.scale,
+});
+
+// Rounds a decimal to an integer number of `scale`-places units, e.g. scale 2 on rupees gives paisa.
+const roundDecimal = (value: Decimal, places: number, mode: RoundingMode): bigint => {
+  if (value.scale <= places) return value.digits * pow10(places - value.scale);
+
+  const divisor = pow10(value.scale - places);
+  const negative = value.digits < 0n;
+  const magnitude = negative ? -value.digits : value.digits;
+  const quotient = magnitude / divisor;
+  const remainder = magnitude % divisor;
+
+  let rounded = quotient;
+  if (remainder !== 0n) {
+    const twice = remainder * 2n;
+    switch (mode) {
+      case RoundingMode.UP:
+        rounded = quotient + 1n;
+        break;
+      case RoundingMode.DOWN:
+        break;
+      case RoundingMode.HALF_EVEN:
+        if (twice > divisor || (twice === divisor && quotient % 2n === 1n)) rounded = quotient + 1n;
+        break;
+      default:
+        if (twice >= divisor) rounded = quotient + 1n;
+    }
+  }
+  return negative ? -rounded : rounded;
+};
+
+const ONES = [
+  '', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+  'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen',
+];
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+// Words for 0-99
+const twoDigits = (n: number): string =>
+  n < 20 ? ONES[n] : [TENS[Math.floor(n / 10)], ONES[n % 10]].filter(Boolean).join(' ');
+
+// Words for a whole number in the lakh/crore system, e.g. 1,25,000 -> One Lakh Twenty Five Thousand
+const wholeInWords = (n: number): string => {
+  if (n === 0) return 'Zero';
+  const parts: string[] = [];
+  const crores = Math.floor(n / 10000000);
+  if (crores > 0) parts.push(`${wholeInWords(crores)} Crore`);
+  const lakhs = Math.floor((n % 10000000) / 100000);
+  if (lakhs > 0) parts.push(`${twoDigits(lakhs)} Lakh`);
+  const thousands = Math.floor((n % 100000) / 1000);
+  if (thousands > 0) parts.push(`${twoDigits(thousands)} Thousand`);
+  const hundreds = Math.floor((n % 1000) / 100);
+  if (hundreds > 0) parts.push(`${ONES[hundreds]} Hundred`);
+  if (n % 100 > 0) parts.push(twoDigits(n % 100));
+  return parts.join(' ');
+};
+
+export const moneyService = {
+  decimal: toDecimal,
+  add,
+  multiply,
+
+  // (100 + pct)% of value, e.g. adjustByPercent(x, -14.5) is x less 14.5%
+  adjustByPercent: (value: Decimal, percent: number): Decimal => {
+    const factor = add({ digits: 100n, scale: 0 }, toDecimal(percent));
+    const product = multiply(value, factor);
+    return { digits: product.digits, scale: product.scale + 2 };
+  },
+
+  // Rounds an exact rupee value to whole paisa
+  toPaisa: (value: Decimal | number, mode: RoundingMode = RoundingMode.HALF_UP): number => {
+    const decimal = typeof value === 'number' ? toDecimal(value) : value;
+    return Number(roundDecimal(decimal, 2, mode));
+  },
+
+  toRupees: (paisa: number): number => paisa / 100,
+
+  // Rounds a rupee amount to two places, e.g. a typed payment amount
+  normalize: (rupees: number, mode: RoundingMode = RoundingMode.HALF_UP): number => {
+    if (!Number.isFinite(rupees)) return 0;
+    return moneyService.toRupees(moneyService.toPaisa(rupees, mode));
+  },
+
+  // Sums rupee amounts without float drift
+  sum: (amounts: number[]): number => {
+    const paisa = amounts.reduce((total, amount) => total + moneyService.toPaisa(Number(amount) || 0), 0);
+    return moneyService.toRupees(paisa);
+  },
+
+  subtract: (a: number, b: number): number => {
+    return moneyService.toRupees(moneyService.toPaisa(a) - moneyService.toPaisa(b));
+  },
+
+  format: (rupees: number): string => {
+    return rupees.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  },
+
+  // For printed bills, e.g. 1250.5 -> "Rupees One Thousand Two Hundred Fifty and Fifty Paisa Only"
+  inWords: (rupees: number): string => {
+    const paisa = moneyService.toPaisa(rupees);
+    const whole = Math.floor(Math.abs(paisa) / 100);
+    const fraction = Math.abs(paisa) % 100;
+    const words = `Rupees ${wholeInWords(whole)}${fraction > 0 ? ` and ${twoDigits(fraction)} Paisa` : ''} Only`;
+    return paisa < 0 ? `Minus ${words}` : words;
+  },
+};
@@ -0,0 +1,114 @@
+import { DocumentType, NumberingSeries } from '../types';
+import { storageService } from './storageService';
+import { DOCUMENT_TYPES } from './documentService';
+import { permissionService } from './permissionService';
+
+const LOCK_NAME = 'hisaab-numbering';
+
+const defaultSeries = (type: DocumentType): NumberingSeries => ({
+  prefix: DOCUMENT_TYPES[type].prefix,
+  padding: 4,
+  yearlyReset: true,
+  counters: {},
+});
+
+type SeriesMap = Partial<Record<DocumentType, NumberingSeries>>;
+
+// Devices that sync count separately, so two of them offline at once never give the same number
+const counterKey = (series: NumberingSeries, date: string, device?: string) =>
+  `${series.yearlyReset ? date.slice(0, 4) : 'all'}${device ? `:${device}` : ''}`;
+
+// Fallback queue for browsers without the Web Locks API
+let queue: Promise<unknown> = Promise.resolve();
+
+// Runs one number assignment at a time, across tabs where the browser supports it
+const withLock = <T>(fn: () => Promise<T>): Promise<T> => {
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    return navigator.locks.request(LOCK_NAME, fn);
+  }
+  const run = queue.then(fn, fn);
+  queue = run.catch(() => undefined);
+  return run;
+};
+
+export const numberingService = {
+  getSeries: async (username: string): Promise<Record<DocumentType, NumberingSeries>> => {
+    const saved = await storageService.getNumberingSeries(username);
+    return Object.fromEntries(
+      Object.values(DocumentType).map(type => [type, { ...defaultSeries(type), ...saved?.[type] }])
+    ) as Record<DocumentType, NumberingSeries>;
+  },
+
+  saveSeries: async (username: string, series: Record<DocumentType, NumberingSeries>): Promise<void> => {
+    permissionService.require('settings.edit');
+    for (const [type, s] of Object.entries(series)) {
+      if (!Number.isInteger(s.padding) || s.padding < 1 || s.padding > 10) {
+        throw new Error(`${DOCUMENT_TYPES[type as DocumentType].label}: padding must be between 1 and 10 digits`);
+      }
+    }
+    // Numbers given since the form was opened, here or on a synced device, must stay used
+    await numberingService.mergeSeries(username, series, true);
+  },
+
+  // Folds series from elsewhere, like a backup, into the saved ones. Counters keep their highest.
+  mergeSeries: (username: string, series: SeriesMap, preferGiven: boolean): Promise<void> =>
+    withLock(async () => {
+      const saved = await storageService.getNumberingSeries(username);
+      await storageService.saveNumberingSeries(username, numberingService.merge(saved, series, preferGiven) as Record<DocumentType, NumberingSeries>);
+    }),
+
+  // This device's code while it syncs, which goes in the numbers it gives
+  getDevice: async (username: string): Promise<string | undefined> => (await storageService.getSyncSettings(username))?.deviceCode,
+
+  format: (series: NumberingSeries, value: number, date: string, device?: string): string => {
+    const year = series.yearlyReset ? `${date.slice(0, 4)}-` : '';
+    return `${series.prefix}${year}${device ? `${device}-` : ''}${String(value).padStart(series.padding, '0')}`;
+  },
+
+  nextValue: (series: NumberingSeries, date: string, device?: string): number =>
+    (series.counters[counterKey(series, date, device)] || 0) + 1,
+
+  // The number the next document dated `date` would get, without using it up
+  peek: (series: NumberingSeries, date: string, device?: string): string => {
+    return numberingService.format(series, numberingService.nextValue(series, date, device), date, device);
+  },
+
+  // Changes the next number for the current period, e.g. to continue from a paper bill book
+  setNext: (series: NumberingSeries, next: number, date: string, device?: string): NumberingSeries => ({
+    ...series,
+    counters: { ...series.counters, [counterKey(series, date, device)]: Math.max(0, Math.floor(next) - 1) },
+  }),
+
+  // Combines the series from two devices. Prefixes and the like come from the preferred side,
+  // while every counter takes the higher of the two, so a number once given is never given again.
+  merge: (local: SeriesMap | undefined, remote: SeriesMap | undefined, preferRemote: boolean): SeriesMap => {
+    const types = [...new Set([...Object.keys(local || {}), ...Object.keys(remote || {})])] as DocumentType[];
+    return Object.fromEntries(types.map(type => {
+      const [mine, theirs] = [local?.[type], remote?.[type]];
+      const counters = { ...mine?.counters };
+      Object.entries(theirs?.counters || {}).forEach(([key, value]) => {
+        counters[key] = Math.max(counters[key] || 0, value);
+      });
+      const settings = preferRemote ? { ...mine, ...theirs } : { ...theirs, ...mine };
+      return [type, { ...settings, counters } as NumberingSeries];
+    }));
+  },
+
+  // Takes the next number in the series and hands it to `use`, which saves the document that
+  // gets it. Everything happens under a lock so two saves never get the same number, and the
+  // counter only moves on once `use` succeeds, so a failed save doesn't leave a gap.
+  assign: <T>(username: string, type: DocumentType, date: string, use: (number: string) => Promise<T>): Promise<T> => {
+    return withLock(async () => {
+      const [all, device] = await Promise.all([numberingService.getSeries(username), numberingService.getDevice(username)]);
+      const series = all[type];
+      const key = counterKey(series, date, device);
+      const value = numberingService.nextValue(series, date, device);
+      const result = await use(numberingService.format(series, value, date, device));
+      await storageService.saveNumberingSeries(username, {
+        ...all,
+        [type]: { ...series, counters: { ...series.counters, [key]: value } },
+      });
+      return result;
+    });
+  },
+};
@@ -0,0 +1,132 @@
+import { ChequeStatus, Invoice, LedgerEntry, Party, Payment } from '../types';
+import { storageService } from './storageService';
+import { moneyService } from './moneyService';
+import { statusService } from './statusService';
+import { documentService } from './documentService';
+import { generateId } from '../utils/generateId';
+import { permissionService } from './permissionService';
+
+// Same-day entries: opening balance first, then invoices, then payments
+const TYPE_ORDER: Record<LedgerEntry['type'], number> = { opening: 0, invoice: 1, payment: 2 };
+
+export const partyService = {
+  getParties: async (username: string): Promise<Party[]> => {
+    return (await storageService.getParties(username)).sort((a, b) => a.name.localeCompare(b.name));
+  },
+
+  getParty: (username: string, partyId: string): Promise<Party | undefined> => {
+    return storageService.getParty(username, partyId);
+  },
+
+  saveParty: (username: string, party: Party): Promise<void> => {
+    permissionService.require('parties.edit');
+    return storageService.saveParty(username, party);
+  },
+
+  createParty: async (username: string, name: string): Promise<Party> => {
+    const party: Party = {
+      id: generateId(),
+      name: name.trim(),
+      phone: '',
+      address: '',
+      openingBalance: 0,
+      openingDate: new Date().toISOString().split('T')[0],
+      createdAt: Date.now(),
+    };
+    await partyService.saveParty(username, party);
+    return party;
+  },
+
+  deleteParty: async (username: string, partyId: string): Promise<void> => {
+    permissionService.require('parties.delete');
+    const linked = (await storageService.queryInvoices(username, { partyId })).length > 0 ||
+      (await storageService.getPayments(username)).some(p => p.partyId === partyId);
+    if (linked) {
+      throw new Error('This party has invoices or payments. Delete or reassign them first.');
+    }
+    await storageService.deleteParty(username, partyId);
+  },
+
+  getLedger: async (username: string, partyId: string): Promise<LedgerEntry[]> => {
+    const party = await partyService.getParty(username, partyId);
+    if (!party) return [];
+
+    const [invoices, payments] = await Promise.all([
+      storageService.queryInvoices(username, { partyId }),
+      storageService.getPayments(username),
+    ]);
+    return partyService.buildLedger(party, invoices, payments);
+  },
+
+  // Builds the ledger from already loaded records; invoices of other parties are ignored
+  buildLedger: (party: Party, allInvoices: Invoice[], allPayments: Payment[]): LedgerEntry[] => {
+    const entries: Omit<LedgerEntry, 'balance'>[] = [];
+
+    if (party.openingBalance !== 0) {
+      entries.push({
+        id: `opening-${party.id}`,
+        date: party.openingDate,
+        type: 'opening',
+        description: 'Opening Balance',
+        debit: party.openingBalance > 0 ? party.openingBalance : 0,
+        credit: party.openingBalance < 0 ? -party.openingBalance : 0,
+      });
+    }
+
+    const invoices = allInvoices.filter(inv => inv.partyId === party.id && !statusService.isCancelled(inv));
+    const invoiceIds = new Set(invoices.map(inv => inv.id));
+
+    // Sales are owed to us; purchases, returns and credit notes are owed to the party
+    invoices.forEach(inv => {
+      const info = documentService.getInfo(inv);
+      const original = inv.originalInvoiceId ? allInvoices.find(o => o.id === inv.originalInvoiceId) : undefined;
+      entries.push({
+        id: inv.id,
+        date: inv.date,
+        type: 'invoice',
+        description: `${info.label}: ${documentService.displayName(inv)}${original ? ` (against ${documentService.displayName(original)})` : ''}`,
+        invoiceId: inv.id,
+        debit: info.debitsParty ? inv.totalAmount : 0,
+        credit: info.debitsParty ? 0 : inv.totalAmount,
+      });
+    });
+
+    allPayments
+      .filter(p => p.partyId === party.id || p.allocations.some(a => invoiceIds.has(a.invoiceId)))
+      .forEach(p => {
+        const details = [p.method, p.reference, p.narration].filter(Boolean).join(' · ');
+        entries.push({
+          id: p.id,
+          date: p.date,
+          type: 'payment',
+          description: `Payment received (${details})`,
+          debit: 0,
+          credit: p.amount,
+        });
+        // Keep the bounced cheque visible, then reverse it
+        if (p.chequeStatus === ChequeStatus.BOUNCED) {
+          entries.push({
+            id: `${p.id}-bounced`,
+            date: p.date,
+            type: 'payment',
+            description: `Cheque bounced${p.reference ? ` (${p.reference})` : ''}`,
+            debit: p.amount,
+            credit: 0,
+          });
+        }
+      });
+
+    entries.sort((a, b) => a.date.localeCompare(b.date) || TYPE_ORDER[a.type] - TYPE_ORDER[b.type]);
+
+    let balance = 0;
+    return entries.map(entry => {
+      balance = moneyService.subtract(moneyService.sum([balance, entry.debit]), entry.credit);
+      return { ...entry, balance };
+    });
+  },
+
+  getBalance: (party: Party, invoices: Invoice[], payments: Payment[]): number => {
+    const ledger = partyService.buildLedger(party, invoices, payments);
+    return ledger.length > 0 ? ledger[ledger.length - 1].balance : 0;
+  },
+};
@@ -0,0 +1,269 @@
+import { AuditEntry, ChequeStatus, Invoice, Payment, PaymentAllocation, PaymentMethod, PaymentRow } from '../types';
+import { storageService } from './storageService';
+import { moneyService } from './moneyService';
+import { statusService } from './statusService';
+import { documentService } from './documentService';
+import { permissionService } from './permissionService';
+import { auditService } from './auditService';
+import { generateId } from '../utils/generateId';
+
+// A bounced cheque never settled anything
+const counts = (payment: Payment) => payment.chequeStatus !== ChequeStatus.BOUNCED;
+
+export const paymentService = {
+  getPayments: async (username: string): Promise<Payment[]> => {
+    return (await storageService.getPayments(username)).sort((a, b) => b.date.localeCompare(a.date) || b.createdAt - a.createdAt);
+  },
+
+  getPayment: (username: string, paymentId: string): Promise<Payment | undefined> => {
+    return storageService.getPayment(username, paymentId);
+  },
+
+  getAllocated: (payment: Payment): number => {
+    return moneyService.sum(payment.allocations.map(a => a.amount));
+  },
+
+  getUnallocated: (payment: Payment): number => {
+    return moneyService.subtract(payment.amount, paymentService.getAllocated(payment));
+  },
+
+  // Amount paid against an invoice across all payments, optionally ignoring one payment
+  getInvoicePaid: (payments: Payment[], invoiceId: string, excludePaymentId?: string): number => {
+    return moneyService.sum(
+      payments
+        .filter(p => counts(p) && p.id !== excludePaymentId)
+        .flatMap(p => p.allocations)
+        .filter(a => a.invoiceId === invoiceId)
+        .map(a => a.amount)
+    );
+  },
+
+  // Unallocated money the party has paid in advance
+  getPartyCredit: (payments: Payment[], partyId: string): number => {
+    return moneyService.sum(
+      payments
+        .filter(p => p.partyId === partyId && counts(p))
+        .map(p => paymentService.getUnallocated(p))
+    );
+  },
+
+  // What's still due on a sale: its total less payments and any returns against it.
+  // Purchases, returns and credit notes are never collected on.
+  getInvoiceDue: (invoice: Invoice, invoices: Invoice[], payments: Payment[], excludePaymentId?: string): number => {
+    if (!documentService.isSale(invoice)) return 0;
+    return moneyService.subtract(
+      invoice.totalAmount,
+      moneyService.sum([
+        paymentService.getInvoicePaid(payments, invoice.id, excludePaymentId),
+        documentService.getReturned(invoices, invoice.id),
+      ])
+    );
+  },
+
+  // Outstanding invoices of a party, oldest first, with what's still due ignoring one payment
+  getOpenInvoices: async (username: string, partyId: string, excludePaymentId?: string): Promise<{ invoice: Invoice; due: number }[]> => {
+    const [invoices, payments] = await Promise.all([
+      storageService.queryInvoices(username, { partyId }),
+      storageService.getPayments(username),
+    ]);
+    return invoices
+      .filter(inv => !statusService.isCancelled(inv))
+      .map(invoice => ({
+        invoice,
+        due: paymentService.getInvoiceDue(invoice, invoices, payments, excludePaymentId),
+      }))
+      .filter(row => row.due > 0)
+      .sort((a, b) => a.invoice.date.localeCompare(b.invoice.date));
+  },
+
+  // Settles the oldest invoices first; the remainder stays unallocated
+  autoAllocate: (openInvoices: { invoice: Invoice; due: number }[], amount: number): PaymentAllocation[] => {
+    let remaining = amount;
+    const allocations: PaymentAllocation[] = [];
+    for (const { invoice, due } of openInvoices) {
+      if (remaining <= 0) break;
+      const applied = Math.min(remaining, due);
+      allocations.push({ invoiceId: invoice.id, amount: applied });
+      remaining = moneyService.subtract(remaining, applied);
+    }
+    return allocations;
+  },
+
+  validate: async (username: string, payment: Payment): Promise<string | null> => {
+    if (payment.amount <= 0) return 'Payment amount must be greater than zero';
+    if (payment.allocations.some(a => a.amount < 0)) return 'Allocations cannot be negative';
+    if (paymentService.getUnallocated(payment) < 0) return 'Allocations exceed the payment amount';
+
+    const payments = await storageService.getPayments(username);
+    for (const allocation of payment.allocations) {
+      const invoice = await storageService.getInvoice(username, allocation.invoiceId);
+      if (!invoice) return 'An allocation refers to a deleted invoice';
+      if (statusService.isCancelled(invoice)) return `"${invoice.name}" is cancelled`;
+      if (!documentService.isSale(invoice)) return `"${invoice.name}" is a ${documentService.getInfo(invoice).label.toLowerCase()}, not a sale`;
+      const returns = await storageService.queryInvoices(username, { partyId: invoice.partyId });
+      const due = paymentService.getInvoiceDue(invoice, returns, payments, payment.id);
+      if (allocation.amount > due) return `Allocation to "${invoice.name}" is more than its balance of Rs. ${moneyService.format(due)}`;
+    }
+    return null;
+  },
+
+  savePayment: async (username: string, payment: Payment): Promise<void> => {
+    permissionService.require('payments.edit');
+    const error = await paymentService.validate(username, payment);
+    if (error) throw new Error(error);
+
+    const existing = await storageService.getPayment(username, payment.id);
+    const affected = new Set(payment.allocations.map(a => a.invoiceId));
+    existing?.allocations.forEach(a => affected.add(a.invoiceId));
+
+    const saved: Payment = { ...payment, allocations: payment.allocations.filter(a => a.amount > 0), updatedAt: Date.now() };
+    const entry = auditService.entry('payment', existing, saved);
+    if (!entry) return;
+    await storageService.savePayment(username, saved);
+    await auditService.record(username, [entry]);
+    await paymentService.refreshInvoiceBalances(username, [...affected]);
+  },
+
+  deletePayment: async (username: string, paymentId: string): Promise<void> => {
+    permissionService.require('payments.edit');
+    const payment = await storageService.getPayment(username, paymentId);
+    if (!payment) return;
+
+    await storageService.deletePayment(username, paymentId);
+    await auditService.record(username, [auditService.entry('payment', payment, undefined)]);
+    await paymentService.refreshInvoiceBalances(username, payment.allocations.map(a => a.invoiceId));
+  },
+
+  // Re-derives remainingBalance from allocations and returns, and the status from that
+  refreshInvoiceBalances: async (username: string, invoiceIds?: string[]): Promise<void> => {
+    const [invoices, payments] = await Promise.all([
+      storageService.getInvoices(username),
+      storageService.getPayments(username),
+    ]);
+    const changed: Invoice[] = [];
+    const entries: (AuditEntry | null)[] = [];
+    invoices
+      .filter(inv => !invoiceIds || invoiceIds.includes(inv.id))
+      .forEach(inv => {
+        const remainingBalance = paymentService.getInvoiceDue(inv, invoices, payments);
+        const status = statusService.getStatus({ ...inv, remainingBalance });
+        if (remainingBalance !== inv.remainingBalance || status !== inv.status) {
+          const updated = { ...inv, remainingBalance, status };
+          changed.push(updated);
+          entries.push(auditService.entry('invoice', inv, updated));
+        }
+      });
+    if (changed.length > 0) {
+      await storageService.saveInvoices(username, changed);
+      await auditService.record(username, entries);
+    }
+  },
+
+  getInvoicePaymentRows: async (username: string, invoiceId: string): Promise<PaymentRow[]> => {
+    return (await storageService.getPayments(username))
+      .filter(p => p.allocations.some(a => a.invoiceId === invoiceId))
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .map(p => ({
+        id: p.id,
+        narration: p.narration,
+        amount: p.allocations.find(a => a.invoiceId === invoiceId)!.amount,
+        date: p.date,
+        method: p.method,
+        reference: p.reference,
+        chequeStatus: p.chequeStatus,
+        paymentTotal: p.amount,
+      }));
+  },
+
+  // Applies the payment rows edited inside an invoice. Rows entered there are payments for
+  // this invoice alone, settling at most what it still owes; anything over stays with the
+  // party as credit. Payments split across several invoices are read-only in the editor;
+  // removing one from the invoice returns its share to the party as credit.
+  saveInvoicePayments: async (username: string, invoice: Invoice, rows: PaymentRow[]): Promise<void> => {
+    permissionService.require('payments.edit');
+    const rowIds = new Set(rows.map(r => r.id));
+    const [payments, invoices] = await Promise.all([storageService.getPayments(username), storageService.getInvoices(username)]);
+    const here = payments.filter(p => p.allocations.some(a => a.invoiceId === invoice.id));
+    const byId = new Map(here.map(p => [p.id, p]));
+    const updated: Payment[] = [];
+    const deleted: string[] = [];
+
+    here.filter(p => !rowIds.has(p.id)).forEach(payment => {
+      // Single-invoice payments are deleted with their row
+      if (paymentService.isSplit(payment)) {
+        updated.push({ ...payment, allocations: payment.allocations.filter(a => a.invoiceId !== invoice.id) });
+      } else {
+        deleted.push(payment.id);
+      }
+    });
+
+    // What the rows can settle: the invoice's due with every other payment counted
+    const others = [
+      ...payments.filter(p => !byId.has(p.id) && !rowIds.has(p.id)),
+      ...here.filter(p => rowIds.has(p.id) && paymentService.isSplit(p)),
+      ...updated,
+    ];
+    let due = Math.max(0, paymentService.getInvoiceDue(invoice, invoices, others));
+
+    rows.forEach(row => {
+      const existing = byId.get(row.id);
+      if (existing && paymentService.isSplit(existing)) return;
+
+      if (row.amount <= 0) {
+        if (existing) deleted.push(existing.id);
+        return;
+      }
+
+      const applied = Math.min(row.amount, due);
+      if (applied < row.amount && !invoice.partyId) {
+        throw new Error(`Payments on "${invoice.name}" are more than its balance of Rs. ${moneyService.format(due)}. Pick a party to keep the rest as their credit.`);
+      }
+      if (row.method !== PaymentMethod.CHEQUE || row.chequeStatus !== ChequeStatus.BOUNCED) {
+        due = moneyService.subtract(due, applied);
+      }
+
+      updated.push({
+        id: row.id,
+        partyId: invoice.partyId,
+        date: row.date,
+        method: row.method,
+        reference: row.reference,
+        chequeStatus: row.method === PaymentMethod.CHEQUE ? (row.chequeStatus || ChequeStatus.PENDING) : undefined,
+        amount: row.amount,
+        narration: row.narration,
+        allocations: applied > 0 ? [{ invoiceId: invoice.id, amount: applied }] : [],
+        createdAt: existing ? existing.createdAt : Date.now(),
+      });
+    });
+
+    // Rows saved unchanged are left alone, so they don't show up in the audit log
+    const changed = updated
+      .map(payment => ({ ...payment, updatedAt: Date.now() }))
+      .map(payment => ({ payment, entry: auditService.entry('payment', byId.get(payment.id), payment) }))
+      .filter(c => c.entry !== null);
+    await storageService.savePayments(username, changed.map(c => c.payment));
+    for (const id of deleted) {
+      await storageService.deletePayment(username, id);
+    }
+    await auditService.record(username, [
+      ...changed.map(c => c.entry),
+      ...deleted.map(id => auditService.entry('payment', byId.get(id), undefined)),
+    ]);
+    await paymentService.refreshInvoiceBalances(username, [invoice.id]);
+  },
+
+  // Covers more than one invoice, or leaves something over as party credit
+  isSplit: (payment: Payment): boolean => {
+    return payment.allocations.length > 1 || paymentService.getUnallocated(payment) !== 0;
+  },
+
+  newPaymentRow: (): PaymentRow => ({
+    id: generateId(),
+    narration: '',
+    amount: 0,
+    date: new Date().toISOString().split('T')[0],
+    method: PaymentMethod.CASH,
+    reference: '',
+    paymentTotal: 0,
+  }),
+};
@@ -0,0 +1,453 @@
+import jsPDF from 'jspdf';
+import autoTable, { RowInput, UserOptions } from 'jspdf-autotable';
+import { BusinessProfile, ChequeStatus, DocumentType, Invoice, InvoiceItem, Party, PaymentRow, PdfTemplate } from '../types';
+import { moneyService } from './moneyService';
+import { statusService } from './statusService';
+import { documentService } from './documentService';
+import { DEFAULT_BUSINESS_PROFILE } from './businessProfileService';
+import { taxService } from './taxService';
+import { batchService } from './batchService';
+
+// Page geometry and type sizes for a template, in mm and points
+interface TemplateLayout {
+  label: string;
+  width: number;
+  height: number; // 0 for a receipt roll, which is cut to the length of its content
+  margin: number;
+  fontSize: number;
+  titleSize: number;
+  logoSize: number;
+}
+
+export const PDF_TEMPLATES: Record<PdfTemplate, TemplateLayout> = {
+  [PdfTemplate.A4]: { label: 'A4', width: 210, height: 297, margin: 14, fontSize: 9, titleSize: 18, logoSize: 22 },
+  [PdfTemplate.A5]: { label: 'A5', width: 148, height: 210, margin: 10, fontSize: 7.5, titleSize: 13, logoSize: 16 },
+  [PdfTemplate.THERMAL_80]: { label: 'Thermal receipt (80mm)', width: 80, height: 0, margin: 4, fontSize: 7, titleSize: 10, logoSize: 14 },
+};
+
+export interface PdfOptions {
+  template?: PdfTemplate;
+  business?: BusinessProfile;
+  party?: Party;
+  payments?: PaymentRow[];
+  original?: Invoice; // The sale a return or credit note was raised against
+  returned?: number; // Returns and credit notes raised against this sale
+}
+
+const HEAD_COLOR: [number, number, number] = [30, 41, 59]; // Slate 800
+const FOOTER_HEIGHT = 12;
+const RECEIPT_MAX_HEIGHT = 3000;
+
+// Dates print the same whatever the machine's locale, e.g. 2026-03-05 -> 05/03/2026
+const formatDate = (iso: string) => iso.slice(0, 10).split('-').reverse().join('/');
+
+const billedItems = (invoice: Invoice) => invoice.items.filter(item => item.name.trim() !== '' || item.totalAmount !== 0);
+
+// Purchases are billed by the party rather than to them
+const partyLabel = (invoice: Invoice) => (documentService.getType(invoice) === DocumentType.PURCHASE ? 'Supplier' : 'Bill To');
+
+const receivedAmount = (invoice: Invoice, returned = 0) =>
+  moneyService.subtract(moneyService.subtract(invoice.totalAmount, invoice.remainingBalance), returned);
+
+// The value of the goods and the tax at each rate, ahead of the total. Empty when the invoice has no tax.
+const taxRows = (invoice: Invoice): [string, number][] => {
+  if (!taxService.hasTax(invoice.items)) return [];
+  const summary = taxService.summarizeInvoice(invoice);
+  return [['Value excl. Tax', summary.taxable], ...summary.byRate.map((line): [string, number] => [taxService.rateLabel(line), line.tax])];
+};
+
+// Total, then what came off it, then what's left
+const totalRows = (invoice: Invoice, options: PdfOptions, totalLabel: string, balanceLabel: string): [string, number][] => {
+  const rows: [string, number][] = [[totalLabel, invoice.totalAmount]];
+  const returned = options.returned || 0;
+  if (returned > 0) rows.push(['Returned', returned]);
+  if ((options.payments || []).length > 0) rows.push(['Received', receivedAmount(invoice, returned)]);
+  if (rows.length > 1) rows.push([balanceLabel, invoice.remainingBalance]);
+  return rows;
+};
+
+// A stable file id from the invoice id, so the same invoice always renders to the same bytes
+const fileIdFor = (invoiceId: string) => {
+  let hex = '';
+  for (let seed = 0; hex.length < 32; seed++) {
+    let hash = 0x811c9dc5 ^ seed;
+    for (let i = 0; i < invoiceId.length; i++) {
+      hash = Math.imul(hash ^ invoiceId.charCodeAt(i), 0x01000193);
+    }
+    hex += (hash >>> 0).toString(16).padStart(8, '0');
+  }
+  return hex.slice(0, 32);
+};
+
+const createDoc = (invoice: Invoice, width: number, height: number) => {
+  const doc = new jsPDF({ unit: 'mm', format: [width, height], orientation: 'portrait', compress: true });
+  doc.setCreationDate(new Date(invoice.createdAt));
+  doc.setFileId(fileIdFor(invoice.id));
+  doc.setProperties({ title: documentService.displayName(invoice), creator: 'Hisaab Kitaab' });
+  return doc;
+};
+
+const lastTableY = (doc: jsPDF): number => (doc as any).lastAutoTable.finalY;
+
+// Draws the logo inside a square box and returns its width, or 0 when there is none
+const drawLogo = (doc: jsPDF, logo: string | undefined, x: number, y: number, size: number): number => {
+  if (!logo) return 0;
+  try {
+    const { width, height } = doc.getImageProperties(logo);
+    const scale = size / Math.max(width, height);
+    doc.addImage(logo, logo.startsWith('data:image/png') ? 'PNG' : 'JPEG', x, y, width * scale, height * scale);
+    return width * scale;
+  } catch {
+    return 0; // An unreadable logo shouldn't stop the invoice printing
+  }
+};
+
+const businessLines = (business: BusinessProfile) => [
+  business.address,
+  [business.phone, business.email].filter(Boolean).join('  |  '),
+  [
+    business.licenseNo && `License No: ${business.licenseNo}`,
+    business.ntn && `NTN: ${business.ntn}`,
+    business.strn && `STRN: ${business.strn}`,
+  ].filter(Boolean).join('  |  '),
+].filter(Boolean);
+
+// Batch, expiry and bonus columns only appear when some line fills them in
+const hasBatches = (invoice: Invoice) => billedItems(invoice).some(item => item.batch || item.expiry);
+const hasBonus = (invoice: Invoice) => billedItems(invoice).some(item => item.bonusQty);
+
+// e.g. "B: A123  Exp: 03/2027", under the item name on receipts
+const batchLine = (item: InvoiceItem) =>
+  [item.batch ? `B: ${item.batch}` : '', item.expiry ? `Exp: ${batchService.format(item.expiry)}` : ''].filter(Boolean).join('  ');
+
+// Tax columns only appear on invoices that carry tax
+const itemHead = (taxed: boolean, batched: boolean, bonus: boolean) =>
+  ['#', 'Item', ...(batched ? ['Batch', 'Expiry'] : []), 'Qty', ...(bonus ? ['Bonus'] : []), 'Rate', 'T.P', 'Disc %', 'Net Rate', ...(taxed ? ['Tax %', 'Tax'] : []), 'Amount'];
+
+const taxRates = (taxRate = 0, furtherTaxRate = 0) => {
+  if (!taxRate && !furtherTaxRate) return '-';
+  return furtherTaxRate ? `${taxRate}% + ${furtherTaxRate}%` : `${taxRate}%`;
+};
+
+const itemRows = (invoice: Invoice, taxed: boolean, batched: boolean, bonus: boolean): RowInput[] =>
+  billedItems(invoice).map((item, i) => [
+    String(i + 1),
+    item.name,
+    ...(batched ? [item.batch || '', batchService.format(item.expiry)] : []),
+    String(item.qty),
+    ...(bonus ? [item.bonusQty ? String(item.bonusQty) : '-'] : []),
+    moneyService.format(item.rate),
+    moneyService.format(item.tp),
+    item.discount === 0 ? '-' : `${item.discount}%`,
+    moneyService.format(item.totalPerPiece),
+    ...(taxed ? [taxRates(item.taxRate, item.furtherTaxRate), moneyService.format(moneyService.sum([item.salesTax || 0, item.furtherTax || 0]))] : []),
+    moneyService.format(item.totalAmount),
+  ]);
+
+const paymentRows = (payments: PaymentRow[]): RowInput[] =>
+  payments.map(p => [
+    formatDate(p.date),
+    p.chequeStatus ? `${p.method} (${p.chequeStatus})` : p.method,
+    p.reference,
+    p.narration,
+    moneyService.format(p.amount),
+  ]);
+
+// --- A4 / A5 ---
+
+// Business block on the left, invoice details on the right, then who it is billed to.
+// Returns where the items table starts.
+const drawFirstPageHeader = (doc: jsPDF, layout: TemplateLayout, invoice: Invoice, business: BusinessProfile, options: PdfOptions) => {
+  const { party, original } = options;
+  const { margin, fontSize, titleSize } = layout;
+  const right = layout.width - margin;
+  const logoWidth = drawLogo(doc, business.logo, margin, margin, layout.logoSize);
+  const textX = margin + (logoWidth ? logoWidth + 4 : 0);
+
+  doc.setTextColor(40, 40, 40);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(titleSize);
+  doc.text(business.name, textX, margin + 6);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(fontSize);
+  let leftY = margin + 11;
+  businessLines(business).forEach(line => {
+    const wrapped = doc.splitTextToSize(line, right - textX - 55);
+    doc.text(wrapped, textX, leftY);
+    leftY += wrapped.length * fontSize * 0.45;
+  });
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(titleSize - 2);
+  doc.text(documentService.getInfo(invoice).title, right, margin + 6, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(fontSize);
+  const details = [
+    `No: ${documentService.displayName(invoice)}`,
+    `Date: ${formatDate(invoice.date)}`,
+    original ? `Against: ${documentService.displayName(original)} (${formatDate(original.date)})` : '',
+    invoice.dueDate ? `Due: ${formatDate(invoice.dueDate)}` : '',
+    documentService.isSale(invoice) ? `Status: ${statusService.getStatus(invoice)}` : '',
+  ].filter(Boolean);
+  details.forEach((line, i) => doc.text(line, right, margin + 11 + i * fontSize * 0.45, { align: 'right' }));
+
+  let y = Math.max(leftY, margin + 11 + details.length * fontSize * 0.45, margin + layout.logoSize) + 2;
+  doc.setDrawColor(180, 180, 180);
+  doc.line(margin, y, right, y);
+  y += 5;
+
+  if (party) {
+    doc.setFont('helvetica', 'bold');
+    doc.text(`${partyLabel(invoice)}:`, margin, y);
+    doc.setFont('helvetica', 'normal');
+    const lines = [party.name, party.address, party.phone, party.strn && `STRN: ${party.strn}`].filter(Boolean) as string[];
+    doc.text(lines, margin + 16, y);
+    y += lines.length * fontSize * 0.45 + 2;
+  }
+  return y;
+};
+
+const drawContinuationHeader = (doc: jsPDF, layout: TemplateLayout, invoice: Invoice, business: BusinessProfile) => {
+  const { margin, fontSize } = layout;
+  doc.setTextColor(40, 40, 40);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(fontSize + 1);
+  doc.text(business.name, margin, margin);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(fontSize);
+  doc.text(`${documentService.getInfo(invoice).label} ${documentService.displayName(invoice)} (continued)`, layout.width - margin, margin, { align: 'right' });
+  doc.setDrawColor(180, 180, 180);
+  doc.line(margin, margin + 2, layout.width - margin, margin + 2);
+};
+
+const drawFooter = (doc: jsPDF, layout: TemplateLayout, business: BusinessProfile, page: number, pages: number) => {
+  const { margin, fontSize } = layout;
+  const y = layout.height - FOOTER_HEIGHT + 4;
+  doc.setDrawColor(180, 180, 180);
+  doc.line(margin, y, layout.width - margin, y);
+  doc.setFontSize(fontSize - 1);
+  doc.setTextColor(100, 100, 100);
+  if (business.footerNote) {
+    const note = doc.splitTextToSize(business.footerNote, layout.width - margin * 2 - 30).slice(0, 2);
+    doc.text(note, margin, y + 4);
+  }
+  doc.text(`Page ${page} of ${pages}`, layout.width - margin, y + 4, { align: 'right' });
+};
+
+const drawPages = (doc: jsPDF, layout: TemplateLayout, invoice: Invoice, business: BusinessProfile, options: PdfOptions) => {
+  const { margin, fontSize } = layout;
+  const right = layout.width - margin;
+  const contentTop = margin + 6;
+  const contentBottom = layout.height - FOOTER_HEIGHT;
+  const payments = options.payments || [];
+  const tableOptions: Partial<UserOptions> = {
+    theme: 'grid',
+    margin: { top: contentTop, bottom: FOOTER_HEIGHT + 2, left: margin, right: margin },
+    headStyles: { fillColor: HEAD_COLOR },
+    styles: { fontSize, cellPadding: 1.5 },
+  };
+
+  // Moves to a new page when a block of this height won't fit above the footer
+  let y = drawFirstPageHeader(doc, layout, invoice, business, options);
+  const ensureSpace = (height: number) => {
+    if (y + height > contentBottom) {
+      doc.addPage();
+      y = contentTop + 4;
+    }
+  };
+
+  const taxed = taxService.hasTax(invoice.items);
+  const batched = hasBatches(invoice);
+  const bonus = hasBonus(invoice);
+  const head = itemHead(taxed, batched, bonus);
+  const lastTextColumn = batched ? 3 : 1;
+  autoTable(doc, {
+    ...tableOptions,
+    startY: y,
+    head: [head],
+    body: itemRows(invoice, taxed, batched, bonus),
+    // Everything but the item name and its batch is a number
+    columnStyles: Object.fromEntries(head.map((_, i) => [i, i === 0 ? { halign: 'right', cellWidth: 7 } : { halign: i <= lastTextColumn ? 'left' : 'right' }])),
+  });
+  y = lastTableY(doc) + 6;
+
+  // Totals
+  const totals = [...taxRows(invoice), ...totalRows(invoice, options, taxed ? 'Total incl. Tax' : 'Total Amount', 'Balance Due')];
+  ensureSpace(totals.length * 5 + 10);
+  doc.setTextColor(0, 0, 0);
+  doc.setFontSize(fontSize + 1);
+  totals.forEach(([label, amount], i) => {
+    doc.setFont('helvetica', i === totals.length - 1 ? 'bold' : 'normal');
+    doc.text(label, right - 65, y);
+    doc.text(`Rs. ${moneyService.format(amount)}`, right, y, { align: 'right' });
+    y += 5;
+  });
+  doc.setFont('helvetica', 'italic');
+  doc.setFontSize(fontSize);
+  const words = doc.splitTextToSize(moneyService.inWords(invoice.totalAmount), right - margin);
+  doc.text(words, margin, y);
+  y += words.length * fontSize * 0.45 + 4;
+  doc.setFont('helvetica', 'normal');
+
+  if (payments.length > 0) {
+    ensureSpace(16);
+    doc.text('Payments:', margin, y);
+    autoTable(doc, {
+      ...tableOptions,
+      theme: 'plain',
+      startY: y + 2,
+      head: [['Date', 'Method', 'Reference', 'Narration', 'Amount']],
+      body: paymentRows(payments),
+      columnStyles: { 4: { halign: 'right' } },
+    });
+    y = lastTableY(doc) + 6;
+  }
+
+  // Signatures, kept together on one page
+  ensureSpace(22);
+  y += 14;
+  doc.setDrawColor(80, 80, 80);
+  doc.line(margin, y, margin + 50, y);
+  doc.line(right - 50, y, right, y);
+  doc.setFontSize(fontSize);
+  doc.text('Received By', margin + 25, y + 4, { align: 'center' });
+  doc.text(business.signatureLabel, right - 25, y + 4, { align: 'center' });
+
+  const pages = doc.getNumberOfPages();
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    if (page > 1) drawContinuationHeader(doc, layout, invoice, business);
+    drawFooter(doc, layout, business, page, pages);
+  }
+};
+
+// --- Thermal receipt ---
+
+// One narrow column, centred header, and returns the height the content needed
+const drawReceipt = (doc: jsPDF, layout: TemplateLayout, invoice: Invoice, business: BusinessProfile, options: PdfOptions): number => {
+  const { margin, fontSize } = layout;
+  const width = layout.width;
+  const center = width / 2;
+  const right = width - margin;
+  const lineHeight = fontSize * 0.42;
+  let y = margin;
+
+  const logoSize = business.logo ? layout.logoSize : 0;
+  if (logoSize) {
+    drawLogo(doc, business.logo, center - logoSize / 2, y, logoSize);
+    y += logoSize + 2;
+  }
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(layout.titleSize);
+  doc.text(business.name, center, y + 3, { align: 'center' });
+  y += 6;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(fontSize);
+  businessLines(business).forEach(line => {
+    const wrapped = doc.splitTextToSize(line, width - margin * 2);
+    doc.text(wrapped, center, y, { align: 'center' });
+    y += wrapped.length * lineHeight;
+  });
+
+  const rule = () => {
+    doc.setLineDashPattern([0.8, 0.8], 0);
+    doc.line(margin, y, right, y);
+    doc.setLineDashPattern([], 0);
+    y += 3.5;
+  };
+  y += 1;
+  rule();
+  doc.setFont('helvetica', 'bold');
+  doc.text(documentService.getInfo(invoice).title, center, y, { align: 'center' });
+  doc.setFont('helvetica', 'normal');
+  y += lineHeight + 1;
+  [
+    `No: ${documentService.displayName(invoice)}`,
+    `Date: ${formatDate(invoice.date)}${invoice.dueDate ? `   Due: ${formatDate(invoice.dueDate)}` : ''}`,
+    options.original ? `Against: ${documentService.displayName(options.original)}` : '',
+    options.party ? `${documentService.getType(invoice) === DocumentType.PURCHASE ? 'Supplier' : 'Customer'}: ${options.party.name}` : '',
+    options.party?.strn ? `STRN: ${options.party.strn}` : '',
+  ].filter(Boolean).forEach(line => {
+    doc.text(line, margin, y);
+    y += lineHeight;
+  });
+
+  autoTable(doc, {
+    startY: y,
+    theme: 'plain',
+    margin: { left: margin, right: margin, top: margin, bottom: margin },
+    head: [['Item', 'Qty', 'Rate', 'Amount']],
+    body: billedItems(invoice).map(item => [
+      [item.discount === 0 ? item.name : `${item.name} (${item.discount}%)`, batchLine(item)].filter(Boolean).join('\n'),
+      item.bonusQty ? `${item.qty}+${item.bonusQty}` : String(item.qty),
+      moneyService.format(item.totalPerPiece),
+      moneyService.format(item.totalAmount),
+    ]),
+    styles: { fontSize, cellPadding: 0.8 },
+    headStyles: { fontStyle: 'bold', lineWidth: { bottom: 0.2 }, lineColor: 0 },
+    columnStyles: { 1: { halign: 'right' }, 2: { halign: 'right' }, 3: { halign: 'right' } },
+  });
+  y = lastTableY(doc) + 3;
+  rule();
+
+  const taxLines = taxRows(invoice);
+  const totals = [...taxLines, ...totalRows(invoice, options, 'Total', 'Balance')];
+  totals.forEach(([label, amount], i) => {
+    doc.setFont('helvetica', i === taxLines.length ? 'bold' : 'normal');
+    doc.text(label, margin, y);
+    doc.text(`Rs. ${moneyService.format(amount)}`, right, y, { align: 'right' });
+    y += lineHeight + 0.5;
+  });
+  doc.setFont('helvetica', 'italic');
+  const words = doc.splitTextToSize(moneyService.inWords(invoice.totalAmount), width - margin * 2);
+  doc.text(words, margin, y);
+  y += words.length * lineHeight + 1;
+  doc.setFont('helvetica', 'normal');
+
+  const bounced = (options.payments || []).filter(p => p.chequeStatus === ChequeStatus.BOUNCED).length;
+  if (bounced > 0) {
+    doc.text(`${bounced} bounced cheque(s) not counted`, margin, y);
+    y += lineHeight;
+  }
+
+  y += 8;
+  doc.line(right - 35, y, right, y);
+  doc.text(business.signatureLabel, right - 17.5, y + 3, { align: 'center' });
+  y += 7;
+
+  if (business.footerNote) {
+    const note = doc.splitTextToSize(business.footerNote, width - margin * 2);
+    doc.text(note, center, y, { align: 'center' });
+    y += note.length * lineHeight;
+  }
+  doc.setFontSize(fontSize - 1);
+  doc.text('Page 1 of 1', center, y + 1, { align: 'center' });
+  return y + margin;
+};
+
+export const pdfService = {
+  // Renders an invoice to PDF bytes. Doesn't touch storage or the page, and the same
+  // invoice and options always give the same bytes.
+  render: (invoice: Invoice, options: PdfOptions = {}): Uint8Array => {
+    const template = options.template || PdfTemplate.A4;
+    const layout = PDF_TEMPLATES[template];
+    const business = options.business || DEFAULT_BUSINESS_PROFILE;
+
+    if (layout.height === 0) {
+      // Measure on a long strip first, then draw again on a page cut to fit
+      const height = drawReceipt(createDoc(invoice, layout.width, RECEIPT_MAX_HEIGHT), layout, invoice, business, options);
+      const doc = createDoc(invoice, layout.width, Math.ceil(height));
+      drawReceipt(doc, layout, invoice, business, options);
+      return new Uint8Array(doc.output('arraybuffer'));
+    }
+
+    const doc = createDoc(invoice, layout.width, layout.height);
+    drawPages(doc, layout, invoice, business, options);
+    return new Uint8Array(doc.output('arraybuffer'));
+  },
+
+  fileName: (invoice: Invoice, template: PdfTemplate): string => {
+    const suffix = template === PdfTemplate.A4 ? '' : `_${template}`;
+    return `${documentService.displayName(invoice).replace(/\s+/g, '_')}_${invoice.date}${suffix}.pdf`;
+  },
+};
@@ -0,0 +1,91 @@
+import { AppView, Role, User } from '../types';
+
+export type Permission =
+  | 'invoices.edit'
+  | 'invoices.delete'
+  | 'invoices.status'
+  | 'payments.edit'
+  | 'parties.edit'
+  | 'parties.delete'
+  | 'catalog.edit'
+  | 'pricing.edit'
+  | 'reports.view'
+  | 'settings.edit'
+  | 'backup.manage'
+  | 'users.manage';
+
+// Finishes "You can't ..." and lists what a role may do on the users screen
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  'invoices.edit': 'create and edit invoices',
+  'invoices.delete': 'delete invoices',
+  'invoices.status': 'mark invoices paid or cancelled by hand',
+  'payments.edit': 'record or change payments',
+  'parties.edit': 'add and edit parties',
+  'parties.delete': 'delete parties',
+  'catalog.edit': 'change the product catalog',
+  'pricing.edit': 'change pricing profiles',
+  'reports.view': 'view reports',
+  'settings.edit': 'change the business profile and numbering',
+  'backup.manage': 'back up and restore data',
+  'users.manage': 'manage users',
+};
+
+export const ROLE_LABELS: Record<Role, string> = {
+  [Role.OWNER]: 'Owner',
+  [Role.ACCOUNTANT]: 'Accountant',
+  [Role.SALESPERSON]: 'Salesperson',
+};
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  [Role.OWNER]: [
+    'invoices.edit', 'invoices.delete', 'invoices.status', 'payments.edit', 'parties.edit', 'parties.delete',
+    'catalog.edit', 'pricing.edit', 'reports.view', 'settings.edit', 'backup.manage', 'users.manage',
+  ],
+  [Role.ACCOUNTANT]: [
+    'invoices.edit', 'invoices.delete', 'invoices.status', 'payments.edit', 'parties.edit', 'parties.delete',
+    'catalog.edit', 'pricing.edit', 'reports.view',
+  ],
+  // Counter staff bill customers and can add a new customer while billing, nothing more
+  [Role.SALESPERSON]: ['invoices.edit', 'parties.edit'],
+};
+
+// Screens that are only any use with a permission. The rest are open to every member.
+const VIEW_PERMISSIONS: Partial<Record<AppView, Permission>> = {
+  payments: 'payments.edit',
+  pricing: 'pricing.edit',
+  reports: 'reports.view',
+  business: 'settings.edit',
+  backup: 'backup.manage',
+  users: 'users.manage',
+};
+
+// The signed-in member. Services check against it the same way storage checks it is unlocked.
+let current: User | null = null;
+
+export const permissionService = {
+  setUser: (user: User | null): void => {
+    current = user;
+  },
+
+  // Who is signed in, e.g. to say who made a change
+  getUser: (): User | null => current,
+
+  can: (user: Pick<User, 'role'> | null, permission: Permission): boolean => {
+    return !!user && ROLE_PERMISSIONS[user.role].includes(permission);
+  },
+
+  permissionsOf: (role: Role): Permission[] => ROLE_PERMISSIONS[role],
+
+  canView: (user: Pick<User, 'role'> | null, view: AppView): boolean => {
+    const permission = VIEW_PERMISSIONS[view];
+    return !permission || permissionService.can(user, permission);
+  },
+
+  // Throws unless the signed-in member may do this
+  require: (permission: Permission): void => {
+    if (!permissionService.can(current, permission)) {
+      const who = current ? `As ${ROLE_LABELS[current.role].toLowerCase()}, you` : 'You';
+      throw new Error(`${who} can't ${PERMISSION_LABELS[permission]}`);
+    }
+  },
+};
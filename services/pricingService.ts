@@ -0,0 +1,200 @@
+import { InvoiceItem, PricingOverride, PricingProfile, PricingProfileVersion, PricingRules, RoundingMode, RoundingScope } from '../types';
+import { storageService } from './storageService';
+import { moneyService, Decimal } from './moneyService';
+import { generateId } from '../utils/generateId';
+import { permissionService } from './permissionService';
+import { taxService } from './taxService';
+import { schemeService } from './schemeService';
+
+// The rules the app originally shipped with: TP = Rate - 14.5%, discount base = TP - 15%
+export const DEFAULT_PRICING_RULES: PricingRules = {
+  tpPercent: 14.5,
+  discountBasePercent: 15,
+  rounding: RoundingMode.HALF_UP,
+  roundingScope: RoundingScope.LINE,
+  overrides: [],
+};
+
+const ZERO: Decimal = { digits: 0n, scale: 0 };
+
+interface ExactRow {
+  tp: Decimal;
+  unit: Decimal;
+  total: Decimal;
+}
+
+const rulesEqual = (a: PricingRules, b: PricingRules) =>
+  a.tpPercent === b.tpPercent &&
+  a.discountBasePercent === b.discountBasePercent &&
+  a.rounding === b.rounding &&
+  a.roundingScope === b.roundingScope &&
+  JSON.stringify(a.overrides) === JSON.stringify(b.overrides);
+
+const toRules = (version: PricingProfileVersion): PricingRules => ({
+  tpPercent: version.tpPercent,
+  discountBasePercent: version.discountBasePercent,
+  rounding: version.rounding,
+  // Versions saved before rounding scope existed rounded every line
+  roundingScope: version.roundingScope || RoundingScope.LINE,
+  overrides: version.overrides,
+});
+
+export const pricingService = {
+  getProfiles: async (username: string): Promise<PricingProfile[]> => {
+    const profiles = await storageService.getPricingProfiles(username);
+    if (profiles.length > 0) return profiles;
+
+    // First use: seed a profile matching the original hard-coded rules
+    const seeded: PricingProfile = {
+      id: generateId(),
+      name: 'Standard',
+      isDefault: true,
+      versions: [{ ...DEFAULT_PRICING_RULES, version: 1, createdAt: Date.now() }],
+    };
+    await storageService.savePricingProfiles(username, [seeded]);
+    return [seeded];
+  },
+
+  getActiveProfiles: (profiles: PricingProfile[]): PricingProfile[] => {
+    return profiles.filter(p => !p.archived);
+  },
+
+  getDefaultProfile: (profiles: PricingProfile[]): PricingProfile => {
+    const active = pricingService.getActiveProfiles(profiles);
+    return active.find(p => p.isDefault) || active[0] || profiles[0];
+  },
+
+  getCurrentVersion: (profile: PricingProfile): PricingProfileVersion => {
+    return profile.versions[profile.versions.length - 1];
+  },
+
+  toRules,
+
+  // Resolves the exact rules an invoice was priced with. Legacy invoices without a
+  // profile fall back to the original rules so their totals never change.
+  getRules: (profiles: PricingProfile[], profileId?: string, version?: number): PricingRules => {
+    if (!profileId) return DEFAULT_PRICING_RULES;
+
+    const profile = profiles.find(p => p.id === profileId);
+    if (!profile) return DEFAULT_PRICING_RULES;
+
+    const match = version !== undefined
+      ? profile.versions.find(v => v.version === version)
+      : undefined;
+    return toRules(match || pricingService.getCurrentVersion(profile));
+  },
+
+  // Creates the profile, or appends a new version if its rules changed.
+  saveProfile: async (username: string, profileId: string | null, name: string, rules: PricingRules): Promise<PricingProfile> => {
+    permissionService.require('pricing.edit');
+    const profiles = await pricingService.getProfiles(username);
+    const existing = profileId ? profiles.find(p => p.id === profileId) : undefined;
+
+    let saved: PricingProfile;
+    if (existing) {
+      const current = pricingService.getCurrentVersion(existing);
+      const versions = rulesEqual(current, rules)
+        ? existing.versions
+        : [...existing.versions, { ...rules, version: current.version + 1, createdAt: Date.now() }];
+      saved = { ...existing, name, versions };
+    } else {
+      saved = {
+        id: generateId(),
+        name,
+        isDefault: false,
+        versions: [{ ...rules, version: 1, createdAt: Date.now() }],
+      };
+    }
+
+    await storageService.savePricingProfiles(username, [saved]);
+    return saved;
+  },
+
+  setDefaultProfile: async (username: string, profileId: string): Promise<void> => {
+    permissionService.require('pricing.edit');
+    const profiles = (await pricingService.getProfiles(username)).map(p => ({ ...p, isDefault: p.id === profileId }));
+    await storageService.savePricingProfiles(username, profiles);
+  },
+
+  // Profiles are archived rather than removed, since saved invoices still point at them.
+  archiveProfile: async (username: string, profileId: string): Promise<void> => {
+    permissionService.require('pricing.edit');
+    const profiles = await pricingService.getProfiles(username);
+    if (profiles.filter(p => !p.archived).length <= 1) {
+      throw new Error('At least one pricing profile is required');
+    }
+    const updated = profiles.map(p =>
+      p.id === profileId ? { ...p, archived: true, isDefault: false } : p
+    );
+    if (!updated.some(p => p.isDefault && !p.archived)) {
+      const firstActive = updated.find(p => !p.archived);
+      if (firstActive) firstActive.isDefault = true;
+    }
+    await storageService.savePricingProfiles(username, updated);
+  },
+
+  findOverride: (rules: PricingRules, company?: string): PricingOverride | undefined => {
+    const key = company?.trim().toLowerCase();
+    if (!key) return undefined;
+    return rules.overrides.find(o => o.company.trim().toLowerCase() === key);
+  },
+
+  // Exact (unrounded) row values. Only the qty is charged for; bonus pieces are free.
+  calculateExact: (row: InvoiceItem, rules: PricingRules): ExactRow => {
+    const item = schemeService.apply(row);
+    const override = pricingService.findOverride(rules, item.company);
+    const tpPercent = override ? override.tpPercent : rules.tpPercent;
+    const discountBasePercent = override ? override.discountBasePercent : rules.discountBasePercent;
+
+    // 1. TP: Rate less the trade margin
+    const tp = item.rate > 0 ? moneyService.adjustByPercent(moneyService.decimal(item.rate), -tpPercent) : ZERO;
+
+    // 2. Discount/Extra Charge. The discount column stays 0 until the user enters a value,
+    // and only then is the discount base (TP less discountBasePercent) used.
+    // -X% subtracts X% of the base, +X% adds X% of the base.
+    let unit = tp;
+    if (item.discount !== 0) {
+      const baseForDiscount = moneyService.adjustByPercent(tp, -discountBasePercent);
+      unit = moneyService.adjustByPercent(baseForDiscount, item.discount);
+    }
+    // A flat scheme takes its amount off every piece, down to nothing at most
+    const amountOff = schemeService.amountOff(item);
+    if (amountOff > 0) {
+      unit = moneyService.add(unit, moneyService.decimal(-amountOff));
+      if (unit.digits < 0n) unit = ZERO;
+    }
+
+    // 3. Total Amount
+    const total = moneyService.multiply(unit, moneyService.decimal(item.qty || 0));
+
+    return { tp, unit, total };
+  },
+
+  // Applies the row's scheme, prices it, then works out its tax from the rounded total
+  calculateRow: (row: InvoiceItem, rules: PricingRules, taxInclusive = false): InvoiceItem => {
+    const item = schemeService.apply(row);
+    const exact = pricingService.calculateExact(item, rules);
+    const round = (value: Decimal) => moneyService.toRupees(moneyService.toPaisa(value, rules.rounding));
+    const priced = {
+      ...item,
+      tp: round(exact.tp),
+      totalPerPiece: round(exact.unit),
+      totalAmount: round(exact.total)
+    };
+
+    return taxService.calculateLine({ ...priced, effectiveRate: schemeService.effectiveRate(priced) }, taxInclusive);
+  },
+
+  // Invoice total under the rules' rounding scope, before any tax added on top. With per-invoice
+  // rounding the line totals shown on screen are rounded for display only, and the exact values are summed here.
+  calculateTotal: (items: InvoiceItem[], rules: PricingRules): number => {
+    if (rules.roundingScope === RoundingScope.INVOICE) {
+      const exact = items.reduce(
+        (sum, item) => moneyService.add(sum, pricingService.calculateExact(item, rules).total),
+        ZERO
+      );
+      return moneyService.toRupees(moneyService.toPaisa(exact, rules.rounding));
+    }
+    return moneyService.sum(items.map(item => pricingService.calculateRow(item, rules).totalAmount));
+  },
+};
@@ -0,0 +1,383 @@
+import { ChequeStatus, DocumentType, Invoice, InvoiceItem, Party, Payment, PaymentMethod, Product } from '../types';
+import { InvoiceQuery } from './storageAdapter';
+import { SheetTable } from './spreadsheetService';
+import { moneyService } from './moneyService';
+import { paymentService } from './paymentService';
+import { statusService } from './statusService';
+import { documentService } from './documentService';
+import { taxService } from './taxService';
+import { inventoryService } from './inventoryService';
+import { batchService } from './batchService';
+
+export type ReportKind = 'sales' | 'collections' | 'aging' | 'items' | 'discounts' | 'stock' | 'expiring';
+
+export type Granularity = 'day' | 'month';
+
+export type ReportFilter = Pick<InvoiceQuery, 'from' | 'to' | 'partyId'>;
+
+export interface ChartPoint {
+  label: string;
+  value: number;
+}
+
+export interface Report {
+  table: SheetTable;
+  chart: ChartPoint[];
+}
+
+export const REPORTS: Record<ReportKind, { label: string; byPeriod: boolean }> = {
+  sales: { label: 'Sales', byPeriod: true },
+  collections: { label: 'Collections', byPeriod: true },
+  aging: { label: 'Receivables Aging', byPeriod: false },
+  items: { label: 'Item-wise Sales', byPeriod: false },
+  discounts: { label: 'Discounts Given', byPeriod: true },
+  stock: { label: 'Stock on Hand', byPeriod: false },
+  expiring: { label: 'Expiring Batches', byPeriod: false },
+};
+
+export const AGING_BUCKETS = [
+  { label: '0–30 days', max: 30 },
+  { label: '31–60 days', max: 60 },
+  { label: '61–90 days', max: 90 },
+  { label: '90+ days', max: Infinity },
+];
+
+const TOP_ITEMS_CHARTED = 10;
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const periodOf = (date: string, granularity: Granularity) => (granularity === 'month' ? date.slice(0, 7) : date);
+
+const inFilter = (record: { date: string; partyId?: string }, filter: ReportFilter) =>
+  (!filter.from || record.date >= filter.from) &&
+  (!filter.to || record.date <= filter.to) &&
+  (!filter.partyId || record.partyId === filter.partyId);
+
+const counted = (invoice: Invoice) => !statusService.isCancelled(invoice);
+
+const isCredit = (invoice: Invoice) => documentService.isReturn(invoice);
+
+// Groups records by period, oldest first
+const byPeriod = <T extends { date: string }>(records: T[], granularity: Granularity): [string, T[]][] => {
+  const groups = new Map<string, T[]>();
+  records.forEach(record => {
+    const key = periodOf(record.date, granularity);
+    groups.set(key, [...(groups.get(key) || []), record]);
+  });
+  return [...groups.entries()].sort((a, b) => a[0].localeCompare(b[0]));
+};
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / 86400000);
+
+// What the line would have come to at T.P with no discount
+const grossAtTp = (item: InvoiceItem) =>
+  moneyService.toRupees(moneyService.toPaisa(moneyService.multiply(moneyService.decimal(item.tp), moneyService.decimal(item.qty || 0))));
+
+const itemKey = (item: InvoiceItem) => `${item.name.trim().toLowerCase()}|${(item.company || '').trim().toLowerCase()}`;
+
+export const reportService = {
+  // Sales by day or month, with returns and credit notes taken off for the net figure
+  sales: (invoices: Invoice[], filter: ReportFilter, granularity: Granularity): Report => {
+    const docs = invoices.filter(inv => counted(inv) && inFilter(inv, filter) && (documentService.isSale(inv) || isCredit(inv)));
+    const rows = byPeriod(docs, granularity).map(([period, group]) => {
+      const sales = group.filter(inv => documentService.isSale(inv));
+      const gross = moneyService.sum(sales.map(inv => inv.totalAmount));
+      const returns = moneyService.sum(group.filter(isCredit).map(inv => inv.totalAmount));
+      return { period, count: sales.length, gross, returns, net: moneyService.subtract(gross, returns) };
+    });
+    return {
+      table: {
+        name: 'Sales',
+        columns: [
+          { header: granularity === 'month' ? 'Month' : 'Date', width: 12 },
+          { header: 'Invoices', type: 'number' },
+          { header: 'Sales', type: 'money', width: 14 },
+          { header: 'Returns', type: 'money', width: 14 },
+          { header: 'Net Sales', type: 'money', width: 14 },
+        ],
+        rows: rows.map(r => [r.period, r.count, r.gross, r.returns, r.net]),
+        totals: [
+          'Total',
+          rows.reduce((sum, r) => sum + r.count, 0),
+          moneyService.sum(rows.map(r => r.gross)),
+          moneyService.sum(rows.map(r => r.returns)),
+          moneyService.sum(rows.map(r => r.net)),
+        ],
+      },
+      chart: rows.map(r => ({ label: r.period, value: r.net })),
+    };
+  },
+
+  // Money received by day or month, split by method. Bounced cheques are left out.
+  collections: (payments: Payment[], filter: ReportFilter, granularity: Granularity): Report => {
+    const received = payments.filter(p => p.chequeStatus !== ChequeStatus.BOUNCED && inFilter(p, filter));
+    const methods = Object.values(PaymentMethod);
+    const rows = byPeriod(received, granularity).map(([period, group]) => ({
+      period,
+      count: group.length,
+      byMethod: methods.map(method => moneyService.sum(group.filter(p => p.method === method).map(p => p.amount))),
+      total: moneyService.sum(group.map(p => p.amount)),
+    }));
+    return {
+      table: {
+        name: 'Collections',
+        columns: [
+          { header: granularity === 'month' ? 'Month' : 'Date', width: 12 },
+          { header: 'Payments', type: 'number' },
+          ...methods.map(method => ({ header: method, type: 'money' as const, width: 14 })),
+          { header: 'Total', type: 'money', width: 14 },
+        ],
+        rows: rows.map(r => [r.period, r.count, ...r.byMethod, r.total]),
+        totals: [
+          'Total',
+          rows.reduce((sum, r) => sum + r.count, 0),
+          ...methods.map((_, i) => moneyService.sum(rows.map(r => r.byMethod[i]))),
+          moneyService.sum(rows.map(r => r.total)),
+        ],
+      },
+      chart: rows.map(r => ({ label: r.period, value: r.total })),
+    };
+  },
+
+  // What each party owed on the last day of the range, by how old the invoice is.
+  // Payments and returns made after that day are not counted.
+  aging: (invoices: Invoice[], payments: Payment[], parties: Party[], filter: ReportFilter): Report => {
+    const asOf = filter.to || today();
+    const knownInvoices = invoices.filter(inv => inv.date <= asOf);
+    const knownPayments = payments.filter(p => p.date <= asOf);
+    const byParty = new Map<string, number[]>();
+
+    knownInvoices
+      .filter(inv => counted(inv) && documentService.isSale(inv) && inFilter(inv, filter))
+      .forEach(inv => {
+        const due = paymentService.getInvoiceDue(inv, knownInvoices, knownPayments);
+        if (due <= 0) return;
+        const age = daysBetween(inv.date, asOf);
+        const bucket = AGING_BUCKETS.findIndex(b => age <= b.max);
+        const key = inv.partyId || '';
+        const buckets = byParty.get(key) || AGING_BUCKETS.map(() => 0);
+        buckets[bucket] = moneyService.sum([buckets[bucket], due]);
+        byParty.set(key, buckets);
+      });
+
+    const partyName = (id: string) => parties.find(p => p.id === id)?.name || 'No party';
+    const rows = [...byParty.entries()]
+      .map(([id, buckets]) => ({ party: partyName(id), buckets, total: moneyService.sum(buckets) }))
+      .sort((a, b) => b.total - a.total);
+    const bucketTotals = AGING_BUCKETS.map((_, i) => moneyService.sum(rows.map(r => r.buckets[i])));
+
+    return {
+      table: {
+        name: 'Receivables Aging',
+        columns: [
+          { header: 'Party', width: 24 },
+          ...AGING_BUCKETS.map(b => ({ header: b.label, type: 'money' as const, width: 14 })),
+          { header: 'Total', type: 'money', width: 14 },
+        ],
+        rows: rows.map(r => [r.party, ...r.buckets, r.total]),
+        totals: ['Total', ...bucketTotals, moneyService.sum(bucketTotals)],
+      },
+      chart: AGING_BUCKETS.map((b, i) => ({ label: b.label, value: bucketTotals[i] })),
+    };
+  },
+
+  // Quantity and value by item, net of sales returns
+  items: (invoices: Invoice[], filter: ReportFilter): Report => {
+    const totals = new Map<string, { name: string; company: string; sold: number; returned: number; value: number }>();
+    invoices
+      .filter(inv => counted(inv) && inFilter(inv, filter))
+      .filter(inv => documentService.isSale(inv) || documentService.getType(inv) === DocumentType.SALES_RETURN)
+      .forEach(inv => {
+        const returning = !documentService.isSale(inv);
+        inv.items
+          .filter(item => item.name.trim() !== '')
+          .forEach(item => {
+            const key = itemKey(item);
+            const row = totals.get(key) || { name: item.name.trim(), company: (item.company || '').trim(), sold: 0, returned: 0, value: 0 };
+            if (returning) {
+              row.returned += item.qty;
+              row.value = moneyService.subtract(row.value, item.totalAmount);
+            } else {
+              row.sold += item.qty;
+              row.value = moneyService.sum([row.value, item.totalAmount]);
+            }
+            totals.set(key, row);
+          });
+      });
+
+    const rows = [...totals.values()].sort((a, b) => b.value - a.value);
+    return {
+      table: {
+        name: 'Item-wise Sales',
+        columns: [
+          { header: 'Item', width: 30 },
+          { header: 'Company', width: 18 },
+          { header: 'Qty Sold', type: 'number' },
+          { header: 'Qty Returned', type: 'number' },
+          { header: 'Net Qty', type: 'number' },
+          { header: 'Net Value', type: 'money', width: 14 },
+        ],
+        rows: rows.map(r => [r.name, r.company, r.sold, r.returned, r.sold - r.returned, r.value]),
+        totals: [
+          'Total',
+          `${rows.length} item(s)`,
+          rows.reduce((sum, r) => sum + r.sold, 0),
+          rows.reduce((sum, r) => sum + r.returned, 0),
+          rows.reduce((sum, r) => sum + r.sold - r.returned, 0),
+          moneyService.sum(rows.map(r => r.value)),
+        ],
+      },
+      chart: rows.slice(0, TOP_ITEMS_CHARTED).map(r => ({ label: r.name, value: r.value })),
+    };
+  },
+
+  // Discount on each sale: the lines at T.P less what was billed for them. Extra charges count negative.
+  // Tax added on top of the prices is left out of both.
+  discounts: (invoices: Invoice[], parties: Party[], filter: ReportFilter, granularity: Granularity): Report => {
+    const partyName = (id?: string) => parties.find(p => p.id === id)?.name || '';
+    const rows = invoices
+      .filter(inv => counted(inv) && documentService.isSale(inv) && inFilter(inv, filter))
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .map(inv => {
+        const gross = moneyService.sum(inv.items.map(grossAtTp));
+        const billed = taxService.goodsTotal(inv);
+        return { invoice: inv, gross, billed, discount: moneyService.subtract(gross, billed) };
+      })
+      .filter(r => r.discount !== 0);
+
+    return {
+      table: {
+        name: 'Discounts Given',
+        columns: [
+          { header: 'Date', width: 12 },
+          { header: 'Invoice', width: 20 },
+          { header: 'Party', width: 24 },
+          { header: 'At T.P', type: 'money', width: 14 },
+          { header: 'Billed', type: 'money', width: 14 },
+          { header: 'Discount', type: 'money', width: 14 },
+        ],
+        rows: rows.map(r => [
+          r.invoice.date, documentService.displayName(r.invoice), partyName(r.invoice.partyId), r.gross, r.billed, r.discount,
+        ]),
+        totals: [
+          'Total',
+          `${rows.length} invoice(s)`,
+          null,
+          moneyService.sum(rows.map(r => r.gross)),
+          moneyService.sum(rows.map(r => r.billed)),
+          moneyService.sum(rows.map(r => r.discount)),
+        ],
+      },
+      chart: byPeriod(rows.map(r => ({ ...r, date: r.invoice.date })), granularity).map(([period, group]) => ({
+        label: period,
+        value: moneyService.sum(group.map(r => r.discount)),
+      })),
+    };
+  },
+
+  // Stock of each product as of the filter's end date, for products whose stock is kept or that
+  // have been sold. The chart shows the products at or below their reorder level.
+  stock: (products: Product[], invoices: Invoice[], filter: ReportFilter): Report => {
+    const levels = inventoryService
+      .getLevels(products, invoices, { asOf: filter.to })
+      .filter(level => inventoryService.isTracked(level) || level.sold > 0)
+      .sort((a, b) => a.product.name.localeCompare(b.product.name));
+    const low = levels.filter(inventoryService.isLow);
+    const total = (pick: (level: typeof levels[number]) => number) => levels.reduce((sum, level) => sum + pick(level), 0);
+
+    return {
+      table: {
+        name: 'Stock on Hand',
+        columns: [
+          { header: 'Product', width: 30 },
+          { header: 'Company', width: 18 },
+          { header: 'Pack', width: 10 },
+          { header: 'Opening', type: 'number' },
+          { header: 'Purchased', type: 'number' },
+          { header: 'Sold', type: 'number' },
+          { header: 'Returned', type: 'number' },
+          { header: 'On Hand', type: 'number' },
+          { header: 'Reorder At', type: 'number' },
+          { header: 'Status', width: 10 },
+        ],
+        rows: levels.map(level => [
+          level.product.name,
+          level.product.company,
+          level.product.packSize,
+          level.opening,
+          level.purchased,
+          level.sold,
+          level.returned,
+          level.onHand,
+          level.product.reorderLevel ?? null,
+          level.onHand <= 0 ? 'Out' : inventoryService.isLow(level) ? 'Low' : '',
+        ]),
+        totals: [
+          'Total',
+          `${levels.length} product(s)`,
+          null,
+          total(level => level.opening),
+          total(level => level.purchased),
+          total(level => level.sold),
+          total(level => level.returned),
+          total(level => level.onHand),
+          null,
+          low.length > 0 ? `${low.length} low` : null,
+        ],
+      },
+      chart: [...low]
+        .sort((a, b) => a.onHand - b.onHand)
+        .slice(0, TOP_ITEMS_CHARTED)
+        .map(level => ({ label: level.product.name, value: level.onHand })),
+    };
+  },
+
+  // Batches still in stock that expire within the given days of the as-of date, and those
+  // already expired. The chart shows how many units run out each month.
+  expiring: (products: Product[], invoices: Invoice[], filter: ReportFilter, withinDays: number): Report => {
+    const asOf = filter.to || today();
+    const levels = batchService.expiring(batchService.getLevels(products, invoices, { asOf }), asOf, withinDays);
+    const byMonth = new Map<string, number>();
+    levels.forEach(level => byMonth.set(level.expiry!, (byMonth.get(level.expiry!) || 0) + level.onHand));
+
+    return {
+      table: {
+        name: 'Expiring Batches',
+        columns: [
+          { header: 'Product', width: 30 },
+          { header: 'Company', width: 18 },
+          { header: 'Batch', width: 14 },
+          { header: 'Expiry', width: 10 },
+          { header: 'Days Left', type: 'number' },
+          { header: 'On Hand', type: 'number' },
+          { header: 'Status', width: 10 },
+        ],
+        rows: levels.map(level => {
+          const days = batchService.daysLeft(level.expiry!, asOf);
+          return [
+            level.product.name,
+            level.product.company,
+            level.batch,
+            batchService.format(level.expiry),
+            days,
+            level.onHand,
+            days < 0 ? 'Expired' : '',
+          ];
+        }),
+        totals: [
+          'Total',
+          `${levels.length} batch(es)`,
+          null,
+          null,
+          null,
+          levels.reduce((sum, level) => sum + level.onHand, 0),
+          null,
+        ],
+      },
+      chart: [...byMonth.entries()]
+        .sort((a, b) => a[0].localeCompare(b[0]))
+        .map(([expiry, units]) => ({ label: batchService.format(expiry), value: units })),
+    };
+  },
+};
@@ -0,0 +1,144 @@
+import { DocumentType, InvoiceStatus, QuarantinedRecord } from '../types';
+import { STORE_NAMES } from './storageAdapter';
+import { storageService } from './storageService';
+import { paymentService } from './paymentService';
+import { CURRENT_SCHEMA_VERSION, MIGRATIONS, SchemaData } from './migrations';
+import { permissionService } from './permissionService';
+
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+const QUARANTINE_KEY = 'quarantine';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const STATUSES = Object.values(InvoiceStatus) as string[];
+const DOCUMENT_TYPES = Object.values(DocumentType) as string[];
+const ITEM_NUMBER_FIELDS = ['qty', 'rate', 'tp', 'discount', 'totalPerPiece', 'totalAmount'];
+const ITEM_OPTIONAL_NUMBER_FIELDS = ['taxRate', 'furtherTaxRate', 'salesTax', 'furtherTax', 'bonusQty', 'effectiveRate'];
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): boolean => typeof value === 'number' && Number.isFinite(value);
+
+const readAll = async (username: string): Promise<SchemaData> => {
+  const adapter = storageService.getAdapter();
+  const data = {} as SchemaData;
+  for (const store of STORE_NAMES) {
+    data[store] = await adapter.getAll(username, store);
+  }
+  return data;
+};
+
+// Upgraded records are written over the old ones before anything is deleted, so stopping
+// halfway leaves old and new records side by side rather than an empty store
+const writeAll = async (username: string, data: SchemaData): Promise<void> => {
+  const adapter = storageService.getAdapter();
+  for (const store of STORE_NAMES) {
+    const kept = new Set(data[store].map(r => r.id));
+    const stored = await adapter.getAll(username, store);
+    if (data[store].length > 0) await adapter.putMany(username, store, data[store]);
+    for (const record of stored.filter(r => !kept.has(r.id))) {
+      await adapter.delete(username, store, record.id);
+    }
+  }
+};
+
+export const schemaService = {
+  // Brings a user's stored data up to the current schema, then sets aside invoices that
+  // still don't look like invoices. Returns everything currently in quarantine.
+  load: async (username: string): Promise<QuarantinedRecord[]> => {
+    const adapter = storageService.getAdapter();
+    const storedVersion = (await adapter.getMeta<number>(username, SCHEMA_VERSION_KEY)) ?? 0;
+    if (storedVersion > CURRENT_SCHEMA_VERSION) {
+      throw new Error('This data was saved by a newer version of Hisaab Kitaab. Please update the app.');
+    }
+
+    const pending = MIGRATIONS.filter(m => m.version > storedVersion);
+    if (pending.length > 0) {
+      let data = await readAll(username);
+      pending.forEach(migration => {
+        data = migration.migrate(data);
+      });
+      await writeAll(username, data);
+      await adapter.setMeta(username, SCHEMA_VERSION_KEY, CURRENT_SCHEMA_VERSION);
+    }
+
+    const rejected: QuarantinedRecord[] = [];
+    (await adapter.getAll<any>(username, 'invoices')).forEach(record => {
+      const errors = schemaService.validateInvoice(record);
+      if (errors.length > 0) {
+        rejected.push({ id: String(record?.id ?? ''), store: 'invoices', record, errors, quarantinedAt: Date.now() });
+      }
+    });
+    if (rejected.length > 0) {
+      const quarantine = await schemaService.getQuarantine(username);
+      await adapter.setMeta(username, QUARANTINE_KEY, [...quarantine, ...rejected]);
+      for (const entry of rejected) {
+        await adapter.delete(username, 'invoices', entry.id);
+      }
+    }
+
+    // Migrated invoices get their balances and statuses re-derived from the payments store
+    if (pending.length > 0) await paymentService.refreshInvoiceBalances(username);
+
+    return schemaService.getQuarantine(username);
+  },
+
+  getSchemaVersion: async (username: string): Promise<number> => {
+    return (await storageService.getAdapter().getMeta<number>(username, SCHEMA_VERSION_KEY)) ?? 0;
+  },
+
+  // One message per problem; an empty list means the invoice is usable
+  validateInvoice: (value: unknown): string[] => {
+    if (!isObject(value)) return ['Not an invoice record'];
+
+    const errors: string[] = [];
+    if (typeof value.id !== 'string' || !value.id) errors.push('Missing id');
+    if (typeof value.name !== 'string') errors.push('Name is not text');
+    if (typeof value.date !== 'string' || !ISO_DATE.test(value.date)) errors.push(`Invalid date "${value.date}"`);
+    if (value.dueDate !== undefined && (typeof value.dueDate !== 'string' || !ISO_DATE.test(value.dueDate))) {
+      errors.push(`Invalid due date "${value.dueDate}"`);
+    }
+    if (value.partyId !== undefined && typeof value.partyId !== 'string') errors.push('Party reference is not text');
+    if (value.docType !== undefined && !DOCUMENT_TYPES.includes(value.docType)) errors.push(`Unknown document type "${value.docType}"`);
+    if (value.number !== undefined && typeof value.number !== 'string') errors.push('Document number is not text');
+    if (value.originalInvoiceId !== undefined && typeof value.originalInvoiceId !== 'string') errors.push('Original invoice reference is not text');
+    if (!STATUSES.includes(value.status)) errors.push(`Unknown status "${value.status}"`);
+    if (!isNumber(value.totalAmount)) errors.push('Total amount is not a number');
+    if (!isNumber(value.remainingBalance)) errors.push('Remaining balance is not a number');
+    if (!isNumber(value.createdAt)) errors.push('Created time is not a number');
+    if (value.updatedAt !== undefined && !isNumber(value.updatedAt)) errors.push('Updated time is not a number');
+    if (value.statusLog !== undefined && !Array.isArray(value.statusLog)) errors.push('Status history is not a list');
+
+    if (!Array.isArray(value.items)) {
+      errors.push('Items are not a list');
+    } else {
+      value.items.forEach((item: unknown, i: number) => {
+        if (!isObject(item)) {
+          errors.push(`Item ${i + 1} is not an item`);
+          return;
+        }
+        if (typeof item.id !== 'string') errors.push(`Item ${i + 1} has no id`);
+        if (typeof item.name !== 'string') errors.push(`Item ${i + 1} name is not text`);
+        if (['batch', 'expiry'].some(field => item[field] !== undefined && typeof item[field] !== 'string')) {
+          errors.push(`Item ${i + 1} batch or expiry is not text`);
+        }
+        const bad = [
+          ...ITEM_NUMBER_FIELDS.filter(field => !isNumber(item[field])),
+          ...ITEM_OPTIONAL_NUMBER_FIELDS.filter(field => item[field] !== undefined && !isNumber(item[field])),
+        ];
+        if (bad.length > 0) errors.push(`Item ${i + 1} has invalid ${bad.join(', ')}`);
+      });
+    }
+    return errors;
+  },
+
+  getQuarantine: async (username: string): Promise<QuarantinedRecord[]> => {
+    return (await storageService.getAdapter().getMeta<QuarantinedRecord[]>(username, QUARANTINE_KEY)) || [];
+  },
+
+  // Drops quarantined records for good, e.g. once they have been exported
+  clearQuarantine: async (username: string): Promise<void> => {
+    permissionService.require('backup.manage');
+    await storageService.getAdapter().setMeta(username, QUARANTINE_KEY, []);
+  },
+};
@@ -0,0 +1,101 @@
+import { InvoiceItem, Scheme, SchemeSlab, SchemeType } from '../types';
+import { moneyService } from './moneyService';
+
+// Schemes are written the way distributors quote them:
+//   "10+1"             buy 10, get 1 free
+//   "Rs. 5 off"        5 rupees off every piece
+//   "10: 2%, 50: 5%"   2% off from 10 pieces, 5% off from 50
+const BONUS_PATTERN = /^(\d+)\s*\+\s*(\d+)$/;
+const FLAT_PATTERN = /^(?:rs\.?\s*)?(\d+(?:\.\d+)?)\s*off$/i;
+const SLAB_PATTERN = /^(\d+)\s*[:=@]\s*(\d+(?:\.\d+)?)\s*%?$/;
+
+const slabFor = (slabs: SchemeSlab[], qty: number): SchemeSlab | undefined =>
+  [...slabs].reverse().find(slab => qty >= slab.minQty);
+
+export const schemeService = {
+  // Empty text means no scheme. Throws with a message fit to show when the text can't be read.
+  parse: (text: string): Scheme | undefined => {
+    const value = text.trim();
+    if (!value) return undefined;
+
+    const bonus = value.match(BONUS_PATTERN);
+    if (bonus) {
+      const [buy, get] = [Number(bonus[1]), Number(bonus[2])];
+      if (buy < 1 || get < 1) throw new Error('A bonus scheme needs at least 1 bought and 1 free, e.g. 10+1');
+      return { type: SchemeType.BONUS, buy, get };
+    }
+
+    const flat = value.match(FLAT_PATTERN);
+    if (flat) {
+      const amountOff = moneyService.normalize(Number(flat[1]));
+      if (amountOff <= 0) throw new Error('The amount off must be more than 0');
+      return { type: SchemeType.FLAT, amountOff };
+    }
+
+    const parts = value.split(',').map(part => part.trim().match(SLAB_PATTERN));
+    if (parts.every(Boolean)) {
+      const slabs = parts
+        .map(part => ({ minQty: Number(part![1]), discount: Number(part![2]) }))
+        .sort((a, b) => a.minQty - b.minQty);
+      if (slabs.some(slab => slab.minQty < 1 || slab.discount <= 0 || slab.discount >= 100)) {
+        throw new Error('Slab quantities must be at least 1 and discounts between 0 and 100%');
+      }
+      if (new Set(slabs.map(slab => slab.minQty)).size !== slabs.length) {
+        throw new Error('Each slab needs a different quantity');
+      }
+      return { type: SchemeType.SLAB, slabs };
+    }
+
+    throw new Error(`Could not read the scheme "${value}". Use 10+1, Rs. 5 off or 10: 2%, 50: 5%`);
+  },
+
+  // The scheme as parse() reads it back
+  label: (scheme?: Scheme): string => {
+    if (!scheme) return '';
+    switch (scheme.type) {
+      case SchemeType.BONUS: return `${scheme.buy}+${scheme.get}`;
+      case SchemeType.FLAT: return `Rs. ${scheme.amountOff} off`;
+      case SchemeType.SLAB: return scheme.slabs.map(slab => `${slab.minQty}: ${slab.discount}%`).join(', ');
+    }
+  },
+
+  // Fills in what the scheme decides for the row's quantity: the free pieces of a bonus scheme,
+  // or the Disc % of the slab reached. Flat amounts come off in pricingService.
+  apply: (item: InvoiceItem): InvoiceItem => {
+    const { scheme } = item;
+    const qty = item.qty || 0;
+    if (scheme?.type === SchemeType.BONUS) {
+      return { ...item, bonusQty: Math.floor(qty / scheme.buy) * scheme.get };
+    }
+    if (scheme?.type === SchemeType.SLAB) {
+      const slab = slabFor(scheme.slabs, qty);
+      return { ...item, discount: slab ? -slab.discount : 0 };
+    }
+    return item;
+  },
+
+  // A bonus or discount typed over the one the scheme worked out ends the scheme on that row
+  overrides: (item: InvoiceItem, field: keyof InvoiceItem): boolean =>
+    (field === 'bonusQty' && item.scheme?.type === SchemeType.BONUS) ||
+    (field === 'discount' && item.scheme?.type === SchemeType.SLAB),
+
+  // Takes the scheme off the row along with the bonus or discount it set
+  remove: (item: InvoiceItem): InvoiceItem => ({
+    ...item,
+    scheme: undefined,
+    bonusQty: item.scheme?.type === SchemeType.BONUS ? undefined : item.bonusQty,
+    discount: item.scheme?.type === SchemeType.SLAB ? 0 : item.discount,
+  }),
+
+  amountOff: (item: InvoiceItem): number => (item.scheme?.type === SchemeType.FLAT ? item.scheme.amountOff : 0),
+
+  // Pieces that leave (or come into) stock for the row
+  units: (item: Pick<InvoiceItem, 'qty' | 'bonusQty'>): number => (item.qty || 0) + (item.bonusQty || 0),
+
+  // What each piece really costs once the free ones are counted, e.g. 10+1 at Rs. 110 is Rs. 100
+  effectiveRate: (item: InvoiceItem): number | undefined => {
+    const units = schemeService.units(item);
+    if (!item.bonusQty || units <= 0) return undefined;
+    return moneyService.toRupees(Math.round(moneyService.toPaisa(item.totalAmount) / units));
+  },
+};
@@ -0,0 +1,200 @@
+import { DocumentType, Invoice, InvoiceStatus } from '../types';
+import { statusService } from './statusService';
+import { documentService, DOCUMENT_TYPES } from './documentService';
+
+export type CompareField = 'amount' | 'balance' | 'date' | 'items';
+export type CompareOp = '>' | '>=' | '<' | '<=' | '=';
+
+export interface Comparison {
+  field: CompareField;
+  op: CompareOp;
+  value: number | string; // Dates compare as ISO text, so "date:2026-05" matches the whole month
+}
+
+// Everything the dashboard can filter on. Structured filters and the typed query both end up here.
+export interface InvoiceFilter {
+  text: string[]; // Free words, each must appear in the name, number or party
+  statuses: InvoiceStatus[];
+  types: DocumentType[];
+  partyId?: string;
+  party?: string; // Part of a party name
+  item?: string; // Part of an item name
+  comparisons: Comparison[];
+}
+
+export type SortKey = 'date' | 'number' | 'name' | 'party' | 'amount' | 'balance' | 'status';
+
+export interface SortOrder {
+  key: SortKey;
+  descending: boolean;
+}
+
+// Lets the matcher and sorter show party names without knowing about parties
+export type PartyNameLookup = (partyId?: string) => string;
+
+const STATUS_WORDS: Record<string, InvoiceStatus[]> = {
+  draft: [InvoiceStatus.DRAFT],
+  unpaid: [InvoiceStatus.UNPAID],
+  partial: [InvoiceStatus.PARTIAL],
+  paid: [InvoiceStatus.PAID],
+  overdue: [InvoiceStatus.OVERDUE],
+  cancelled: [InvoiceStatus.CANCELLED],
+  // Anything still waiting on money
+  pending: [InvoiceStatus.UNPAID, InvoiceStatus.PARTIAL, InvoiceStatus.OVERDUE],
+  open: [InvoiceStatus.UNPAID, InvoiceStatus.PARTIAL, InvoiceStatus.OVERDUE],
+};
+
+const TYPE_WORDS: Record<string, DocumentType> = {
+  sale: DocumentType.SALE,
+  purchase: DocumentType.PURCHASE,
+  return: DocumentType.SALES_RETURN,
+  credit: DocumentType.CREDIT_NOTE,
+};
+
+const FIELD_ALIASES: Record<string, CompareField> = {
+  amount: 'amount',
+  total: 'amount',
+  balance: 'balance',
+  due: 'balance',
+  date: 'date',
+  items: 'items',
+};
+
+// key:value, key>value, key<=value... with optional quotes around the value, or a bare word
+const TOKEN = /(\w+)(:|>=|<=|>|<|=)("[^"]*"|\S+)|"([^"]*)"|(\S+)/g;
+
+export const QUERY_HELP = [
+  'status:pending (or draft, unpaid, partial, paid, overdue, cancelled)',
+  'type:return (sale, purchase, return, credit)',
+  'party:ali  item:panadol',
+  'amount>5000  balance>1000  items>=10',
+  'date:2026-05  date>=2026-01-01',
+  'Other words search the name, number and party',
+].join('\n');
+
+const compare = (actual: number | string, op: CompareOp, expected: number | string): boolean => {
+  if (typeof actual === 'string' && op === '=') return actual.startsWith(String(expected));
+  switch (op) {
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+    default: return actual === expected;
+  }
+};
+
+const fieldValue = (invoice: Invoice, field: CompareField): number | string => {
+  switch (field) {
+    case 'amount': return invoice.totalAmount;
+    case 'balance': return invoice.remainingBalance;
+    case 'date': return invoice.date;
+    default: return invoice.items.filter(item => item.name.trim() !== '').length;
+  }
+};
+
+export const searchService = {
+  emptyFilter: (): InvoiceFilter => ({ text: [], statuses: [], types: [], comparisons: [] }),
+
+  // Turns "status:pending balance>1000 ali" into a filter. Anything it can't use is reported
+  // back rather than silently searched as text.
+  parse: (query: string): { filter: InvoiceFilter; errors: string[] } => {
+    const filter = searchService.emptyFilter();
+    const errors: string[] = [];
+
+    for (const match of query.matchAll(TOKEN)) {
+      const [token, rawKey, op, rawValue, quoted, word] = match;
+      if (quoted !== undefined || word !== undefined) {
+        const text = (quoted ?? word).trim().toLowerCase();
+        if (text) filter.text.push(text);
+        continue;
+      }
+
+      const key = rawKey.toLowerCase();
+      const value = rawValue.replace(/^"|"$/g, '').trim();
+      const lower = value.toLowerCase();
+
+      if (key === 'status' || key === 'is') {
+        const statuses = STATUS_WORDS[lower];
+        if (statuses) filter.statuses.push(...statuses);
+        else errors.push(`Unknown status "${value}"`);
+      } else if (key === 'type') {
+        const type = TYPE_WORDS[lower] || (Object.values(DocumentType) as string[]).find(t => t === lower) as DocumentType | undefined;
+        if (type) filter.types.push(type);
+        else errors.push(`Unknown type "${value}"`);
+      } else if (key === 'party') {
+        filter.party = lower;
+      } else if (key === 'item') {
+        filter.item = lower;
+      } else if (key === 'no' || key === 'number') {
+        filter.text.push(lower);
+      } else if (FIELD_ALIASES[key]) {
+        const field = FIELD_ALIASES[key];
+        const compareOp: CompareOp = op === ':' ? '=' : (op as CompareOp);
+        if (field === 'date') {
+          if (/^\d{4}(-\d{2}){0,2}$/.test(value)) filter.comparisons.push({ field, op: compareOp, value });
+          else errors.push(`Dates are written YYYY-MM-DD, not "${value}"`);
+        } else {
+          const number = Number(value.replace(/,/g, ''));
+          if (value !== '' && Number.isFinite(number)) filter.comparisons.push({ field, op: compareOp, value: number });
+          else errors.push(`"${token}" needs a number`);
+        }
+      } else {
+        errors.push(`Unknown filter "${rawKey}"`);
+      }
+    }
+    return { filter, errors };
+  },
+
+  // Both filters must match
+  combine: (a: InvoiceFilter, b: InvoiceFilter): InvoiceFilter => ({
+    text: [...a.text, ...b.text],
+    statuses: a.statuses.length && b.statuses.length
+      ? a.statuses.filter(s => b.statuses.includes(s))
+      : [...a.statuses, ...b.statuses],
+    types: a.types.length && b.types.length ? a.types.filter(t => b.types.includes(t)) : [...a.types, ...b.types],
+    partyId: a.partyId || b.partyId,
+    party: a.party || b.party,
+    item: a.item || b.item,
+    comparisons: [...a.comparisons, ...b.comparisons],
+  }),
+
+  matches: (invoice: Invoice, filter: InvoiceFilter, partyName: PartyNameLookup): boolean => {
+    if (filter.statuses.length && !filter.statuses.includes(statusService.getStatus(invoice))) return false;
+    if (filter.types.length && !filter.types.includes(documentService.getType(invoice))) return false;
+    if (filter.partyId && invoice.partyId !== filter.partyId) return false;
+    if (filter.party && !partyName(invoice.partyId).toLowerCase().includes(filter.party)) return false;
+    if (filter.item && !invoice.items.some(item => item.name.toLowerCase().includes(filter.item!))) return false;
+    if (!filter.comparisons.every(c => compare(fieldValue(invoice, c.field), c.op, c.value))) return false;
+    if (filter.text.length) {
+      const haystack = [invoice.name, invoice.number || '', partyName(invoice.partyId), invoice.date].join(' ').toLowerCase();
+      if (!filter.text.every(word => haystack.includes(word))) return false;
+    }
+    return true;
+  },
+
+  filter: (invoices: Invoice[], filter: InvoiceFilter, partyName: PartyNameLookup): Invoice[] => {
+    return invoices.filter(inv => searchService.matches(inv, filter, partyName));
+  },
+
+  sort: (invoices: Invoice[], order: SortOrder, partyName: PartyNameLookup): Invoice[] => {
+    const value = (inv: Invoice): string | number => {
+      switch (order.key) {
+        case 'number': return inv.number || '';
+        case 'name': return inv.name.toLowerCase();
+        case 'party': return partyName(inv.partyId).toLowerCase();
+        case 'amount': return inv.totalAmount;
+        case 'balance': return inv.remainingBalance;
+        case 'status': return documentService.isSale(inv) ? statusService.getStatus(inv) : DOCUMENT_TYPES[documentService.getType(inv)].label;
+        default: return inv.date;
+      }
+    };
+    const direction = order.descending ? -1 : 1;
+    // Ties fall back to newest first so the order is stable between renders
+    return [...invoices].sort((a, b) => {
+      const x = value(a);
+      const y = value(b);
+      const primary = typeof x === 'number' && typeof y === 'number' ? x - y : String(x).localeCompare(String(y), undefined, { numeric: true });
+      return primary * direction || b.date.localeCompare(a.date) || b.createdAt - a.createdAt;
+    });
+  },
+};
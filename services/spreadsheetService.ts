@@ -0,0 +1,99 @@
+import * as XLSX from 'xlsx';
+import { csvService } from './csvService';
+
+const EXCEL_EXTENSIONS = /\.(xlsx|xlsm|xls|ods)$/i;
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export type Cell = string | number | null;
+
+// Money columns are written as plain numbers too, only formatted with two decimals
+export interface SheetColumn {
+  header: string;
+  type?: 'text' | 'number' | 'money';
+  width?: number; // In characters, XLSX only
+}
+
+// A table to export. `totals` is written as the last row, after a blank one.
+export interface SheetTable {
+  name: string; // Sheet name, at most 31 characters
+  columns: SheetColumn[];
+  rows: Cell[][];
+  totals?: Cell[];
+}
+
+const MONEY_FORMAT = '#,##0.00';
+
+// Spreadsheet apps run a cell starting with one of these as a formula, so exported text gets a
+// leading ' to keep it text. Plain numbers are left alone, so negative amounts stay numbers.
+const FORMULA_START = /^[=+\-@\t\r]/;
+const PLAIN_NUMBER = /^-?\d+(\.\d+)?$/;
+
+const toCsvCell = (column: SheetColumn | undefined, value: Cell) => {
+  if (column?.type === 'money' && typeof value === 'number') return value.toFixed(2);
+  return typeof value === 'string' && FORMULA_START.test(value) && !PLAIN_NUMBER.test(value) ? `'${value}` : value;
+};
+
+export const spreadsheetService = {
+  // Rows of the first sheet of an Excel workbook, or of a CSV file, as display text
+  readFile: async (file: File): Promise<string[][]> => {
+    if (!EXCEL_EXTENSIONS.test(file.name)) {
+      const text = await file.text();
+      return csvService.parse(text, text.includes('\t') && !text.includes(',') ? '\t' : ',');
+    }
+
+    const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    if (!sheet) return [];
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: false, defval: '', blankrows: false });
+    return rows.map(row => row.map(cell => String(cell ?? '')));
+  },
+
+  // Cells copied from Excel or Google Sheets arrive as tab-separated lines
+  parseClipboard: (text: string): string[][] => csvService.parse(text.replace(/\r?\n$/, ''), '\t'),
+
+  // Text that looks like more than one cell, as opposed to a plain value being pasted
+  isCellBlock: (text: string): boolean => text.includes('\t') || /\r?\n./.test(text),
+
+  toCsv: (table: SheetTable): string => {
+    const rows = [table.columns.map(c => c.header), ...table.rows];
+    if (table.totals) rows.push([], table.totals);
+    return csvService.stringify(rows.map(row => row.map((value, i) => toCsvCell(table.columns[i], value))));
+  },
+
+  // Numbers stay numeric cells so the accountant can sum and pivot them
+  toXlsx: (table: SheetTable): Uint8Array => {
+    const rows: Cell[][] = [table.columns.map(c => c.header), ...table.rows];
+    if (table.totals) rows.push([], table.totals);
+    const sheet = XLSX.utils.aoa_to_sheet(rows);
+
+    table.columns.forEach((column, c) => {
+      if (column.type !== 'money') return;
+      for (let r = 1; r < rows.length; r++) {
+        const cell = sheet[XLSX.utils.encode_cell({ r, c })];
+        if (cell?.t === 'n') cell.z = MONEY_FORMAT;
+      }
+    });
+    sheet['!cols'] = table.columns.map(c => ({ wch: c.width || Math.max(10, c.header.length + 2) }));
+
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, sheet, table.name.replace(/[\\/?*[\]:]/g, ' ').slice(0, 31));
+    return new Uint8Array(XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }));
+  },
+
+  toBlob: (table: SheetTable, format: ExportFormat): Blob => {
+    return format === 'xlsx'
+      ? new Blob([spreadsheetService.toXlsx(table)], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' })
+      // BOM so Excel opens the CSV as UTF-8
+      : new Blob(['\ufeff' + spreadsheetService.toCsv(table)], { type: 'text/csv;charset=utf-8' });
+  },
+
+  // "A", "B", ... "AA" for unnamed columns
+  columnLetter: (index: number): string => {
+    let letter = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+      letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+    }
+    return letter;
+  },
+};
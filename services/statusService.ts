@@ -0,0 +1,63 @@
+import { Invoice, InvoiceStatus, StatusChange } from '../types';
+import { moneyService } from './moneyService';
+
+type StatusInputs = Pick<Invoice, 'items' | 'totalAmount' | 'remainingBalance' | 'dueDate' | 'statusOverride' | 'statusLog'>;
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export const statusService = {
+  // Status from the numbers alone, ignoring any manual override
+  derive: (invoice: StatusInputs, asOf: string = today()): InvoiceStatus => {
+    const hasItems = invoice.items.some(item => item.name.trim() !== '' && item.totalAmount !== 0);
+    if (!hasItems || invoice.totalAmount <= 0) return InvoiceStatus.DRAFT;
+    if (invoice.remainingBalance <= 0) return InvoiceStatus.PAID;
+    if (invoice.dueDate && asOf > invoice.dueDate) return InvoiceStatus.OVERDUE;
+    if (invoice.remainingBalance < invoice.totalAmount) return InvoiceStatus.PARTIAL;
+    return InvoiceStatus.UNPAID;
+  },
+
+  getStatus: (invoice: StatusInputs, asOf?: string): InvoiceStatus => {
+    return invoice.statusOverride ? invoice.statusOverride.status : statusService.derive(invoice, asOf);
+  },
+
+  isCancelled: (invoice: StatusInputs): boolean => {
+    return invoice.statusOverride?.status === InvoiceStatus.CANCELLED;
+  },
+
+  // Open invoices that still count towards what's owed
+  isOutstanding: (invoice: StatusInputs): boolean => {
+    return !statusService.isCancelled(invoice) && invoice.remainingBalance > 0;
+  },
+
+  isOverdue: (invoice: StatusInputs, asOf?: string): boolean => {
+    return statusService.getStatus(invoice, asOf) === InvoiceStatus.OVERDUE;
+  },
+
+  dueDateFor: (date: string, creditDays: number): string => {
+    const due = new Date(`${date}T00:00:00Z`);
+    due.setUTCDate(due.getUTCDate() + creditDays);
+    return due.toISOString().split('T')[0];
+  },
+
+  daysOverdue: (invoice: StatusInputs, asOf: string = today()): number => {
+    if (!invoice.dueDate || asOf <= invoice.dueDate) return 0;
+    const ms = new Date(`${asOf}T00:00:00Z`).getTime() - new Date(`${invoice.dueDate}T00:00:00Z`).getTime();
+    return Math.round(ms / 86400000);
+  },
+
+  // Sets (or with `status` null, clears) a manual override and records who did it and why
+  applyOverride: <T extends StatusInputs>(invoice: T, status: InvoiceStatus | null, reason: string, username: string): T => {
+    const from = statusService.getStatus(invoice);
+    const statusOverride = status ? { status, reason } : undefined;
+    const next = { ...invoice, statusOverride };
+    const to = statusService.getStatus(next);
+
+    const entry: StatusChange = { at: Date.now(), by: username, from, to, reason };
+    return { ...next, status: to, statusLog: [...(invoice.statusLog || []), entry] };
+  },
+
+  // Outstanding amount across invoices, skipping cancelled ones
+  totalOutstanding: (invoices: Invoice[]): number => {
+    return moneyService.sum(invoices.filter(statusService.isOutstanding).map(inv => inv.remainingBalance));
+  },
+};
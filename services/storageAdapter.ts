@@ -0,0 +1,44 @@
+import { InvoiceStatus } from '../types';
+
+// Everything a user owns lives in these stores. Records are keyed by their `id`.
+export type StoreName = 'invoices' | 'payments' | 'parties' | 'products' | 'pricingProfiles' | 'auditLog';
+
+export const STORE_NAMES: StoreName[] = ['invoices', 'payments', 'parties', 'products', 'pricingProfiles', 'auditLog'];
+
+export interface StoredRecord {
+  id: string;
+}
+
+// Filters backed by indexes in adapters that have them. Dates are inclusive ISO dates.
+export interface InvoiceQuery {
+  from?: string;
+  to?: string;
+  partyId?: string;
+  status?: InvoiceStatus;
+}
+
+export interface StorageAdapter {
+  readonly name: string;
+  getAll: <T extends StoredRecord>(username: string, store: StoreName) => Promise<T[]>;
+  get: <T extends StoredRecord>(username: string, store: StoreName, id: string) => Promise<T | undefined>;
+  put: <T extends StoredRecord>(username: string, store: StoreName, record: T) => Promise<void>;
+  putMany: <T extends StoredRecord>(username: string, store: StoreName, records: T[]) => Promise<void>;
+  delete: (username: string, store: StoreName, id: string) => Promise<void>;
+  clear: (username: string, store: StoreName) => Promise<void>;
+  queryInvoices: <T extends StoredRecord>(username: string, query: InvoiceQuery) => Promise<T[]>;
+  // Small per-user settings and bookkeeping values
+  getMeta: <T>(username: string, key: string) => Promise<T | undefined>;
+  setMeta: <T>(username: string, key: string, value: T) => Promise<void>;
+}
+
+// Shared in-memory fallback for adapters whose backing store can't filter by index
+export const matchesInvoiceQuery = (
+  invoice: { date: string; partyId?: string; status: InvoiceStatus },
+  query: InvoiceQuery
+): boolean => {
+  if (query.from && invoice.date < query.from) return false;
+  if (query.to && invoice.date > query.to) return false;
+  if (query.partyId && invoice.partyId !== query.partyId) return false;
+  if (query.status && invoice.status !== query.status) return false;
+  return true;
+};
@@ -1,52 +1,187 @@
-import { Invoice, User } from '../types';
+import { AuditEntry, BusinessProfile, DocumentType, Invoice, InvoiceDraft, NumberingSeries, Party, Payment, PricingProfile, Product, ShopMember, SyncConflict, SyncSettings, SyncState } from '../types';
+import { InvoiceQuery, StorageAdapter, STORE_NAMES } from './storageAdapter';
+import { indexedDbAdapter } from './indexedDbAdapter';
+import { localStorageAdapter } from './localStorageAdapter';
+import { createEncryptedAdapter } from './encryptedAdapter';
+import { changeLog, createChangeLogAdapter, SyncChange } from './changeLogAdapter';
+import { cryptoService, SealedValue } from './cryptoService';
 
-const USER_KEY = 'hisaab_current_user';
-const DATA_PREFIX = 'hisaab_data_';
+const MIGRATED_KEY = 'migratedFromLocalStorage';
+const BUSINESS_PROFILE_KEY = 'businessProfile';
+const DRAFTS_KEY = 'invoiceDrafts';
+const NUMBERING_KEY = 'numberingSeries';
+const MEMBERS_KEY = 'members';
+const SYNC_SETTINGS_KEY = 'syncSettings';
+const SYNC_STATE_KEY = 'syncState';
+const SYNC_CONFLICTS_KEY = 'syncConflicts';
+
+let backend: StorageAdapter = indexedDbAdapter.isSupported() ? indexedDbAdapter : localStorageAdapter;
+// Set while a user is signed in and unlocked; everything they read or write goes through it
+let unlocked: StorageAdapter | null = null;
+// The same without change tracking, and the key both use, for syncService
+let untracked: StorageAdapter | null = null;
+let dataKey: CryptoKey | null = null;
+
+const active = (): StorageAdapter => {
+  if (!unlocked) throw new Error('Storage is locked. Sign in to continue.');
+  return unlocked;
+};
 
 export const storageService = {
-  // Auth
-  login: (username: string, password: string): Promise<User> => {
-    return new Promise((resolve) => {
-      // Simulating network delay
-      setTimeout(() => {
-        // In a real app, verify password. Here we just mock persistence.
-        localStorage.setItem(USER_KEY, JSON.stringify({ username }));
-        resolve({ username });
-      }, 500);
-    });
+  // Backend
+  getAdapter: (): StorageAdapter => active(),
+
+  setAdapter: (next: StorageAdapter): void => {
+    backend = next;
+    unlocked = null;
+    untracked = null;
+    dataKey = null;
   },
 
-  logout: () => {
-    localStorage.removeItem(USER_KEY);
+  // The user's data key from authService, or null to lock
+  setEncryptionKey: (key: CryptoKey | null): void => {
+    dataKey = key;
+    untracked = key ? createEncryptedAdapter(backend, key) : null;
+    unlocked = untracked ? createChangeLogAdapter(untracked) : null;
   },
 
-  getCurrentUser: (): User | null => {
-    const data = localStorage.getItem(USER_KEY);
-    return data ? JSON.parse(data) : null;
+  // For writing changes that came from another device, which mustn't be sent back out
+  getUntrackedAdapter: (): StorageAdapter => {
+    active();
+    return untracked!;
   },
 
-  // Invoices
-  getInvoices: (username: string): Invoice[] => {
-    const data = localStorage.getItem(`${DATA_PREFIX}${username}`);
-    return data ? JSON.parse(data) : [];
+  // Seals a value with the shop's data key, so the sync server only ever sees ciphertext
+  seal: (value: unknown): Promise<SealedValue> => {
+    active();
+    return cryptoService.encryptJson(dataKey!, value);
+  },
+
+  open: <T>(sealed: SealedValue): Promise<T> => {
+    active();
+    return cryptoService.decryptJson<T>(dataKey!, sealed);
   },
 
-  saveInvoice: (username: string, invoice: Invoice): void => {
-    const invoices = storageService.getInvoices(username);
-    const existingIndex = invoices.findIndex((inv) => inv.id === invoice.id);
-    
-    if (existingIndex >= 0) {
-      invoices[existingIndex] = invoice;
-    } else {
-      invoices.push(invoice);
+  isLocked: (): boolean => unlocked === null,
+
+  // Copies the per-user localStorage arrays into the active adapter once, then removes them
+  migrateFromLocalStorage: async (username: string): Promise<void> => {
+    const adapter = active();
+    if (backend === localStorageAdapter || !localStorageAdapter.hasData(username)) return;
+    if (await adapter.getMeta<boolean>(username, MIGRATED_KEY)) return;
+
+    for (const store of STORE_NAMES) {
+      const records = await localStorageAdapter.getAll(username, store);
+      if (records.length > 0) await adapter.putMany(username, store, records);
     }
-    
-    localStorage.setItem(`${DATA_PREFIX}${username}`, JSON.stringify(invoices));
+    await adapter.setMeta(username, MIGRATED_KEY, true);
+    localStorageAdapter.removeAll(username);
   },
 
-  deleteInvoice: (username: string, invoiceId: string): void => {
-    const invoices = storageService.getInvoices(username);
-    const updated = invoices.filter(inv => inv.id !== invoiceId);
-    localStorage.setItem(`${DATA_PREFIX}${username}`, JSON.stringify(updated));
-  }
-};
\ No newline at end of file
+  // Invoices
+  getInvoices: (username: string): Promise<Invoice[]> => active().getAll<Invoice>(username, 'invoices'),
+
+  getInvoice: (username: string, invoiceId: string): Promise<Invoice | undefined> =>
+    active().get<Invoice>(username, 'invoices', invoiceId),
+
+  queryInvoices: (username: string, query: InvoiceQuery): Promise<Invoice[]> =>
+    active().queryInvoices<Invoice>(username, query),
+
+  saveInvoice: (username: string, invoice: Invoice): Promise<void> => active().put(username, 'invoices', invoice),
+
+  saveInvoices: (username: string, invoices: Invoice[]): Promise<void> => active().putMany(username, 'invoices', invoices),
+
+  deleteInvoice: (username: string, invoiceId: string): Promise<void> => active().delete(username, 'invoices', invoiceId),
+
+  // Pricing Profiles
+  getPricingProfiles: (username: string): Promise<PricingProfile[]> => active().getAll<PricingProfile>(username, 'pricingProfiles'),
+
+  savePricingProfiles: (username: string, profiles: PricingProfile[]): Promise<void> =>
+    active().putMany(username, 'pricingProfiles', profiles),
+
+  // Product Catalog
+  getProducts: (username: string): Promise<Product[]> => active().getAll<Product>(username, 'products'),
+
+  saveProduct: (username: string, product: Product): Promise<void> => active().put(username, 'products', product),
+
+  saveProducts: (username: string, products: Product[]): Promise<void> => active().putMany(username, 'products', products),
+
+  deleteProduct: (username: string, productId: string): Promise<void> => active().delete(username, 'products', productId),
+
+  // Parties
+  getParties: (username: string): Promise<Party[]> => active().getAll<Party>(username, 'parties'),
+
+  getParty: (username: string, partyId: string): Promise<Party | undefined> => active().get<Party>(username, 'parties', partyId),
+
+  saveParty: (username: string, party: Party): Promise<void> => active().put(username, 'parties', party),
+
+  deleteParty: (username: string, partyId: string): Promise<void> => active().delete(username, 'parties', partyId),
+
+  // Payments
+  getPayments: (username: string): Promise<Payment[]> => active().getAll<Payment>(username, 'payments'),
+
+  getPayment: (username: string, paymentId: string): Promise<Payment | undefined> =>
+    active().get<Payment>(username, 'payments', paymentId),
+
+  savePayment: (username: string, payment: Payment): Promise<void> => active().put(username, 'payments', payment),
+
+  savePayments: (username: string, payments: Payment[]): Promise<void> => active().putMany(username, 'payments', payments),
+
+  deletePayment: (username: string, paymentId: string): Promise<void> => active().delete(username, 'payments', paymentId),
+
+  // Audit log, which is only ever added to
+  getAuditLog: (username: string): Promise<AuditEntry[]> => active().getAll<AuditEntry>(username, 'auditLog'),
+
+  addAuditEntries: (username: string, entries: AuditEntry[]): Promise<void> => active().putMany(username, 'auditLog', entries),
+
+  // Settings
+  getBusinessProfile: (username: string): Promise<BusinessProfile | undefined> =>
+    active().getMeta<BusinessProfile>(username, BUSINESS_PROFILE_KEY),
+
+  saveBusinessProfile: (username: string, profile: BusinessProfile): Promise<void> =>
+    active().setMeta(username, BUSINESS_PROFILE_KEY, profile),
+
+  getNumberingSeries: (username: string): Promise<Partial<Record<DocumentType, NumberingSeries>> | undefined> =>
+    active().getMeta<Partial<Record<DocumentType, NumberingSeries>>>(username, NUMBERING_KEY),
+
+  saveNumberingSeries: (username: string, series: Record<DocumentType, NumberingSeries>): Promise<void> =>
+    active().setMeta(username, NUMBERING_KEY, series),
+
+  // Everyone but the owner
+  getMembers: async (username: string): Promise<ShopMember[]> =>
+    (await active().getMeta<ShopMember[]>(username, MEMBERS_KEY)) || [],
+
+  saveMembers: (username: string, members: ShopMember[]): Promise<void> => active().setMeta(username, MEMBERS_KEY, members),
+
+  // Sync, kept on this device only
+  getSyncSettings: async (username: string): Promise<SyncSettings | null> =>
+    (await active().getMeta<SyncSettings | null>(username, SYNC_SETTINGS_KEY)) || null,
+
+  saveSyncSettings: (username: string, settings: SyncSettings | null): Promise<void> =>
+    active().setMeta(username, SYNC_SETTINGS_KEY, settings),
+
+  getSyncState: async (username: string): Promise<SyncState> =>
+    (await active().getMeta<SyncState>(username, SYNC_STATE_KEY)) || { lastSeq: 0 },
+
+  saveSyncState: (username: string, state: SyncState): Promise<void> => active().setMeta(username, SYNC_STATE_KEY, state),
+
+  getSyncConflicts: async (username: string): Promise<SyncConflict[]> =>
+    (await active().getMeta<SyncConflict[]>(username, SYNC_CONFLICTS_KEY)) || [],
+
+  saveSyncConflicts: (username: string, conflicts: SyncConflict[]): Promise<void> =>
+    active().setMeta(username, SYNC_CONFLICTS_KEY, conflicts),
+
+  // Changes made here that haven't reached the sync server yet
+  getSyncOutbox: (username: string): Promise<SyncChange[]> =>
+    changeLog.updateOutbox(storageService.getUntrackedAdapter(), username, outbox => ({ outbox, result: outbox })),
+
+  updateSyncOutbox: <T>(username: string, update: (outbox: SyncChange[]) => { outbox: SyncChange[]; result: T }): Promise<T> =>
+    changeLog.updateOutbox(storageService.getUntrackedAdapter(), username, update),
+
+  // Editor drafts, by member and invoice id
+  getDrafts: async (username: string): Promise<Record<string, InvoiceDraft>> =>
+    (await active().getMeta<Record<string, InvoiceDraft>>(username, DRAFTS_KEY)) || {},
+
+  saveDrafts: (username: string, drafts: Record<string, InvoiceDraft>): Promise<void> =>
+    active().setMeta(username, DRAFTS_KEY, drafts),
+};
@@ -0,0 +1,486 @@
+import { Invoice, Payment, SyncConflict, SyncSettings, SyncStatus, User } from '../types';
+import { StoredRecord, StoreName } from './storageAdapter';
+import { storageService } from './storageService';
+import { changeLog, SYNCED_META, SYNCED_STORES, SyncChange, SyncedStore } from './changeLogAdapter';
+import { SealedValue } from './cryptoService';
+import { Account, authService } from './authService';
+import { Permission, permissionService } from './permissionService';
+import { paymentService } from './paymentService';
+import { auditService } from './auditService';
+import { numberingService } from './numberingService';
+import { generateId } from '../utils/generateId';
+
+// A change as the server keeps it: who sent it and where it sits in the shop's log.
+// Everything else is sealed with the shop's data key.
+interface ServerChange extends SealedValue {
+  seq: number;
+  id: string;
+  device: string;
+}
+
+export interface SyncSnapshot {
+  status: SyncStatus;
+  conflicts: number;
+  pending: number; // Changes waiting to be sent
+  lastSyncAt?: number;
+  lastError?: string;
+}
+
+type Row = Record<string, unknown>;
+
+export const SYNC_STORE_LABELS: Record<SyncedStore, string> = {
+  invoices: 'Invoice',
+  payments: 'Payment',
+  parties: 'Party',
+  products: 'Product',
+  pricingProfiles: 'Pricing profile',
+  meta: 'Setting',
+};
+
+const META_LABELS: Record<string, string> = {
+  businessProfile: 'Business profile',
+  numberingSeries: 'Numbering',
+  members: 'Users',
+};
+
+// Taking the other side of a conflict is an edit like any other
+const RESOLVE_PERMISSIONS: Record<SyncedStore, Permission> = {
+  invoices: 'invoices.edit',
+  payments: 'payments.edit',
+  parties: 'parties.edit',
+  products: 'catalog.edit',
+  pricingProfiles: 'pricing.edit',
+  meta: 'settings.edit',
+};
+
+const PAGE_SIZE = 500;
+const MAX_PUSH_ATTEMPTS = 3;
+
+let snapshot: SyncSnapshot = { status: 'off', conflicts: 0, pending: 0 };
+const listeners = new Set<(snapshot: SyncSnapshot) => void>();
+// Only one sync runs at a time; asking again while one runs waits for it
+let running: Promise<void> | null = null;
+
+const publish = (next: Partial<SyncSnapshot>) => {
+  snapshot = { ...snapshot, ...next };
+  listeners.forEach(listener => listener(snapshot));
+};
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const normalizeUrl = (url: string) => {
+  const trimmed = url.trim().replace(/\/+$/, '');
+  if (!/^https?:\/\/\S+$/.test(trimmed)) throw new Error('Enter the sync server address, e.g. http://192.168.1.10:8787');
+  return trimmed;
+};
+
+const send = (settings: SyncSettings, path: string, init?: { method: string; body: unknown }) => {
+  return fetch(`${settings.serverUrl}${path}`, {
+    method: init?.method || 'GET',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(settings.token ? { Authorization: `Bearer ${settings.token}` } : {}),
+    },
+    body: init ? JSON.stringify(init.body) : undefined,
+  });
+};
+
+const readJson = async <T>(response: Response): Promise<T> => {
+  const body = await response.json().catch(() => ({}));
+  if (response.status === 401) throw new Error('The sync server refused the access token');
+  if (!response.ok) throw new Error(body.error || `The sync server answered ${response.status}`);
+  return body as T;
+};
+
+const shopPath = (username: string) => `/shops/${encodeURIComponent(username)}`;
+
+const requireSettings = async (username: string): Promise<SyncSettings> => {
+  const settings = await storageService.getSyncSettings(username);
+  if (!settings) throw new Error('Sync is turned off');
+  return settings;
+};
+
+const recordLabel = (change: SyncChange, record?: Row) => {
+  if (change.store === 'meta') return META_LABELS[change.recordId] || change.recordId;
+  const name = record?.name || record?.narration;
+  return typeof name === 'string' && name.trim() ? name : SYNC_STORE_LABELS[change.store];
+};
+
+// Invoices whose balance a change to this record can move
+const touchedInvoices = (change: SyncChange, records: (Row | undefined)[]) => {
+  if (change.store === 'invoices') return [change.recordId];
+  if (change.store !== 'payments') return [];
+  return records.flatMap(r => ((r as unknown as Payment | undefined)?.allocations || []).map(a => a.invoiceId));
+};
+
+// Numbering is merged rather than overwritten: each counter keeps the higher of the two, so a
+// device that synced late can't wind it back to numbers already given.
+const applyNumbering = async (username: string, remote: SyncChange) => {
+  const adapter = storageService.getUntrackedAdapter();
+  const current = await adapter.getMeta<Parameters<typeof numberingService.merge>[0]>(username, remote.recordId);
+  const pending = (await storageService.getSyncOutbox(username)).find(c => c.store === 'meta' && c.recordId === remote.recordId);
+  const preferRemote = !pending || remote.at > pending.at || (remote.at === pending.at && remote.device > pending.device);
+  const merged = numberingService.merge(current, remote.record as typeof current, preferRemote);
+  if (!same(current, merged)) await adapter.setMeta(username, remote.recordId, merged);
+  return { conflicts: [] as SyncConflict[], invoiceIds: [] as string[] };
+};
+
+// Writes a change from another device, field by field. Where this device has an unsent change
+// to the same field, the later of the two wins; ties go to the higher device id, so every
+// device picks the same one. Returns the conflicts and the invoices whose balances may move.
+const applyRemote = async (username: string, remote: SyncChange) => {
+  if (remote.store === 'meta' && remote.recordId === 'numberingSeries' && !remote.deleted) return applyNumbering(username, remote);
+  const adapter = storageService.getUntrackedAdapter();
+  const isMeta = remote.store === 'meta';
+  const store = remote.store as StoreName;
+
+  const current: Row | undefined = isMeta
+    ? await adapter.getMeta<unknown>(username, remote.recordId).then(value => (value === undefined ? undefined : { value }))
+    : await adapter.get<StoredRecord & Row>(username, store, remote.recordId);
+  const incoming: Row | undefined = remote.deleted ? undefined : isMeta ? { value: remote.record } : (remote.record as Row);
+  const pending = (await storageService.getSyncOutbox(username)).find(c => c.store === remote.store && c.recordId === remote.recordId);
+
+  const remoteWins = (local: SyncChange) => remote.at > local.at || (remote.at === local.at && remote.device > local.device);
+  const conflicts: SyncConflict[] = [];
+  const conflict = (local: SyncChange, field: string, localValue: unknown, remoteValue: unknown) => {
+    const kept = remoteWins(local) ? 'remote' : 'local';
+    conflicts.push({
+      id: generateId(),
+      store: remote.store,
+      recordId: remote.recordId,
+      label: recordLabel(remote, incoming || current),
+      field,
+      local: localValue,
+      remote: remoteValue,
+      kept,
+      localAt: local.at,
+      remoteAt: remote.at,
+      remoteBy: remote.by,
+    });
+    return kept === 'remote';
+  };
+
+  let next = current;
+  let dropPending = false;
+  const dropFields: string[] = [];
+
+  if (!incoming) {
+    // Deleted there. An unsent edit here is a conflict; null stands for "deleted".
+    if (current && pending && !pending.deleted && !conflict(pending, 'deleted', current, null)) return { conflicts, invoiceIds: [] };
+    next = undefined;
+    dropPending = !!pending;
+  } else if (pending?.deleted) {
+    if (current || !conflict(pending, 'deleted', null, incoming)) return { conflicts, invoiceIds: [] };
+    next = incoming;
+    dropPending = true;
+  } else if (!current) {
+    next = incoming;
+  } else {
+    next = { ...current };
+    remote.fields.forEach(field => {
+      if (pending?.fields.includes(field) && !same(current[field], incoming[field])) {
+        if (!conflict(pending, field, current[field], incoming[field])) return;
+        dropFields.push(field);
+      }
+      if (incoming[field] === undefined) delete next![field];
+      else next![field] = incoming[field];
+    });
+  }
+
+  if (!same(current, next)) {
+    if (isMeta) await adapter.setMeta(username, remote.recordId, next?.value);
+    else if (next) await adapter.put(username, store, next as unknown as StoredRecord);
+    else await adapter.delete(username, store, remote.recordId);
+
+    if (remote.store === 'invoices' || remote.store === 'payments') {
+      const entity = remote.store === 'invoices' ? 'invoice' : 'payment';
+      await auditService.record(username, [
+        auditService.entry(entity, current as unknown as Invoice | undefined, next as unknown as Invoice | undefined, remote),
+      ]);
+    }
+  }
+
+  if (pending && (dropPending || dropFields.length > 0)) {
+    await storageService.updateSyncOutbox(username, outbox => ({
+      outbox: outbox.flatMap(c => {
+        if (c.store !== remote.store || c.recordId !== remote.recordId) return [c];
+        if (dropPending) return [];
+        const fields = c.fields.filter(f => !dropFields.includes(f));
+        if (fields.length === 0) return [];
+        // Devices that never had the record create it from this copy, so it must agree too
+        const record = { ...(c.record as Row) };
+        dropFields.forEach(f => {
+          record[f] = incoming![f];
+        });
+        return [{ ...c, fields, record }];
+      }),
+      result: undefined,
+    }));
+  }
+
+  return { conflicts, invoiceIds: touchedInvoices(remote, [current, next]) };
+};
+
+const pull = async (username: string, settings: SyncSettings) => {
+  const device = changeLog.deviceId();
+  const conflicts: SyncConflict[] = [];
+  const invoiceIds = new Set<string>();
+
+  let state = await storageService.getSyncState(username);
+  let more = true;
+  while (more) {
+    const page = await readJson<{ changes: ServerChange[]; more: boolean }>(
+      await send(settings, `${shopPath(username)}/changes?since=${state.lastSeq}&limit=${PAGE_SIZE}`)
+    );
+    for (const item of page.changes) {
+      // Our own changes are already here
+      if (item.device !== device) {
+        const result = await applyRemote(username, await storageService.open<SyncChange>(item));
+        conflicts.push(...result.conflicts);
+        result.invoiceIds.forEach(id => invoiceIds.add(id));
+      }
+      state = { ...state, lastSeq: item.seq };
+    }
+    await storageService.saveSyncState(username, state);
+    more = page.more && page.changes.length > 0;
+  }
+
+  if (conflicts.length > 0) {
+    await storageService.saveSyncConflicts(username, [...(await storageService.getSyncConflicts(username)), ...conflicts]);
+  }
+  // Balances and statuses are never synced, only worked out again from what arrived
+  if (invoiceIds.size > 0) await paymentService.refreshInvoiceBalances(username, [...invoiceIds]);
+};
+
+// Sends the outbox. Returns false when another device got changes in first, which have to be
+// pulled and weighed against ours before trying again.
+const push = async (username: string, settings: SyncSettings): Promise<boolean> => {
+  const outbox = await storageService.getSyncOutbox(username);
+  if (outbox.length === 0) return true;
+
+  const state = await storageService.getSyncState(username);
+  const changes = await Promise.all(
+    outbox.map(async change => ({ id: change.id, device: change.device, ...(await storageService.seal(change)) }))
+  );
+  const response = await send(settings, `${shopPath(username)}/changes`, {
+    method: 'POST',
+    body: { since: state.lastSeq, device: changeLog.deviceId(), changes },
+  });
+  if (response.status === 409) return false;
+  const { lastSeq } = await readJson<{ lastSeq: number }>(response);
+
+  const sent = new Set(outbox.map(c => c.id));
+  await storageService.updateSyncOutbox(username, current => ({ outbox: current.filter(c => !sent.has(c.id)), result: undefined }));
+  await storageService.saveSyncState(username, { ...state, lastSeq });
+  return true;
+};
+
+// Lets other devices sign in as this shop's members. The server only gets what this
+// device's localStorage already holds: a password verifier and the sealed data key.
+// Sign-ins this device sent for members since removed, here or elsewhere, are deleted.
+const uploadAccounts = async (username: string, settings: SyncSettings) => {
+  const uploaded = { ...(await storageService.getSyncState(username)).uploadedVerifiers };
+  const members = new Set([username, ...(await storageService.getMembers(username)).map(m => m.username)]);
+  const removed = Object.keys(uploaded).filter(name => !members.has(name));
+  const changed = authService.getShopAccounts(username).filter(a => members.has(a.username) && uploaded[a.username] !== a.verifier);
+  if (!changed.length && !removed.length) return;
+  for (const name of removed) {
+    const response = await send(settings, `${shopPath(username)}/accounts/${encodeURIComponent(name)}`, {
+      method: 'DELETE',
+      body: { previousVerifier: uploaded[name] },
+    });
+    // A 403 means their password changed on another device, which deletes it instead
+    if (response.status !== 403) await readJson(response);
+    delete uploaded[name];
+  }
+  for (const account of changed) {
+    await readJson(
+      await send(settings, `${shopPath(username)}/accounts/${encodeURIComponent(account.username)}`, {
+        method: 'PUT',
+        body: { account, previousVerifier: uploaded[account.username] },
+      })
+    );
+    uploaded[account.username] = account.verifier;
+  }
+  await storageService.saveSyncState(username, { ...(await storageService.getSyncState(username)), uploadedVerifiers: uploaded });
+};
+
+// A short code for this device, the same every time it asks, for its document numbers
+const registerDevice = async (username: string, settings: SyncSettings): Promise<SyncSettings> => {
+  const { code } = await readJson<{ code: string }>(
+    await send(settings, `${shopPath(username)}/devices`, { method: 'POST', body: { device: changeLog.deviceId() } })
+  );
+  return { ...settings, deviceCode: code };
+};
+
+const run = async (username: string) => {
+  let settings = await requireSettings(username);
+  // Devices that started syncing before codes were given get theirs now
+  if (!settings.deviceCode) {
+    settings = await registerDevice(username, settings);
+    await storageService.saveSyncSettings(username, settings);
+  }
+  await uploadAccounts(username, settings);
+  for (let attempt = 0; attempt < MAX_PUSH_ATTEMPTS; attempt++) {
+    await pull(username, settings);
+    if (await push(username, settings)) return;
+  }
+  throw new Error('Other devices kept syncing at the same time. Try again in a moment.');
+};
+
+const refreshCounts = async (username: string) => {
+  const [outbox, conflicts, state] = await Promise.all([
+    storageService.getSyncOutbox(username),
+    storageService.getSyncConflicts(username),
+    storageService.getSyncState(username),
+  ]);
+  publish({ pending: outbox.length, conflicts: conflicts.length, lastSyncAt: state.lastSyncAt, lastError: state.lastError });
+};
+
+export const syncService = {
+  getSnapshot: (): SyncSnapshot => snapshot,
+
+  // Calls back on every status change. Returns the unsubscribe.
+  subscribe: (listener: (snapshot: SyncSnapshot) => void): (() => void) => {
+    listeners.add(listener);
+    listener(snapshot);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  // After sign-in: starts recording changes if this shop syncs
+  start: async (user: User): Promise<boolean> => {
+    const settings = await storageService.getSyncSettings(user.shopId);
+    changeLog.track(user.shopId, !!settings);
+    publish({ status: settings ? 'idle' : 'off' });
+    if (settings) await refreshCounts(user.shopId);
+    return !!settings;
+  },
+
+  stop: (username: string): void => {
+    changeLog.track(username, false);
+    publish({ status: 'off', conflicts: 0, pending: 0, lastSyncAt: undefined, lastError: undefined });
+  },
+
+  getSettings: (username: string): Promise<SyncSettings | null> => storageService.getSyncSettings(username),
+
+  // Checks the server answers, then queues everything already here to be sent
+  enable: async (username: string, serverUrl: string, token: string): Promise<void> => {
+    permissionService.require('settings.edit');
+    const settings: SyncSettings = { serverUrl: normalizeUrl(serverUrl), ...(token.trim() ? { token: token.trim() } : {}) };
+    await readJson(await send(settings, '/health'));
+    const registered = await registerDevice(username, settings);
+
+    const stamp = { device: changeLog.deviceId(), by: permissionService.getUser()?.username || username, at: Date.now() };
+    const adapter = storageService.getUntrackedAdapter();
+    const changes: SyncChange[] = [];
+    for (const store of SYNCED_STORES) {
+      (await adapter.getAll<StoredRecord>(username, store)).forEach(record => {
+        changes.push({ id: `${generateId()}${generateId()}`, ...stamp, store: store as SyncedStore, recordId: record.id, fields: changeLog.changedFields(undefined, record), record });
+      });
+    }
+    for (const key of SYNCED_META) {
+      const value = await adapter.getMeta<unknown>(username, key);
+      if (value !== undefined) changes.push({ id: `${generateId()}${generateId()}`, ...stamp, store: 'meta', recordId: key, fields: ['value'], record: value });
+    }
+
+    await storageService.saveSyncSettings(username, registered);
+    await storageService.saveSyncState(username, { lastSeq: 0 });
+    await storageService.updateSyncOutbox(username, outbox => ({ outbox: changes.reduce(changeLog.merge, outbox), result: undefined }));
+    changeLog.track(username, true);
+    publish({ status: 'idle' });
+    await refreshCounts(username);
+  },
+
+  // Stops syncing this device. Unsent changes stay here and are not sent later.
+  disable: async (username: string): Promise<void> => {
+    permissionService.require('settings.edit');
+    await storageService.saveSyncSettings(username, null);
+    await storageService.saveSyncState(username, { lastSeq: 0 });
+    await storageService.updateSyncOutbox(username, () => ({ outbox: [], result: undefined }));
+    syncService.stop(username);
+  },
+
+  // Never throws: the outcome shows in the status. Does nothing while locked or turned off.
+  sync: (username: string): Promise<void> => {
+    if (!running) {
+      running = (async () => {
+        if (storageService.isLocked() || !(await storageService.getSyncSettings(username))) return;
+        publish({ status: 'syncing' });
+        try {
+          await run(username);
+          await storageService.saveSyncState(username, { ...(await storageService.getSyncState(username)), lastSyncAt: Date.now(), lastError: undefined });
+          publish({ status: 'idle' });
+        } catch (err) {
+          // fetch only rejects outright when the server can't be reached
+          const offline = err instanceof TypeError || !navigator.onLine;
+          await storageService.saveSyncState(username, { ...(await storageService.getSyncState(username)), lastError: (err as Error).message });
+          publish({ status: offline ? 'offline' : 'error' });
+        }
+        await refreshCounts(username);
+      })().finally(() => {
+        running = null;
+      });
+    }
+    return running;
+  },
+
+  getConflicts: async (username: string): Promise<SyncConflict[]> => {
+    return (await storageService.getSyncConflicts(username)).sort((a, b) => b.remoteAt - a.remoteAt);
+  },
+
+  // Accepts what sync kept
+  dismissConflict: async (username: string, conflictId: string): Promise<void> => {
+    const conflicts = await storageService.getSyncConflicts(username);
+    await storageService.saveSyncConflicts(username, conflicts.filter(c => c.id !== conflictId));
+    await refreshCounts(username);
+  },
+
+  // Switches to the value sync didn't keep. Written as a new change, so it reaches every device.
+  resolveConflict: async (username: string, conflictId: string): Promise<void> => {
+    const conflict = (await storageService.getSyncConflicts(username)).find(c => c.id === conflictId);
+    if (!conflict) throw new Error('Conflict not found');
+    const store = conflict.store as SyncedStore;
+    permissionService.require(store === 'meta' && conflict.recordId === 'members' ? 'users.manage' : RESOLVE_PERMISSIONS[store]);
+
+    const value = conflict.kept === 'local' ? conflict.remote : conflict.local;
+    const adapter = storageService.getAdapter();
+    if (store === 'meta') {
+      await adapter.setMeta(username, conflict.recordId, value);
+    } else if (conflict.field === 'deleted') {
+      if (value === null) await adapter.delete(username, store, conflict.recordId);
+      else await adapter.put(username, store, value as StoredRecord);
+    } else {
+      const record = await adapter.get<StoredRecord & Row>(username, store, conflict.recordId);
+      if (!record) throw new Error(`This ${SYNC_STORE_LABELS[store].toLowerCase()} has since been deleted`);
+      await adapter.put(username, store, { ...record, [conflict.field]: value });
+    }
+    if (store === 'invoices') await paymentService.refreshInvoiceBalances(username, [conflict.recordId]);
+    if (store === 'payments') await paymentService.refreshInvoiceBalances(username);
+    await syncService.dismissConflict(username, conflictId);
+  },
+
+  // Sets up this device from another one: fetches the member's sign-in from the server,
+  // pulls the shop's books, then signs in. The shop is the owner's username.
+  join: async (serverUrl: string, token: string, shop: string, username: string, password: string): Promise<User> => {
+    const settings: SyncSettings = { serverUrl: normalizeUrl(serverUrl), ...(token.trim() ? { token: token.trim() } : {}) };
+    const name = username.trim();
+    const shopName = shop.trim() || name;
+    const response = await send(settings, `${shopPath(shopName)}/accounts/${encodeURIComponent(name)}`);
+    if (response.status === 404) throw new Error(`No one called ${name} syncs the shop ${shopName} to that server`);
+    const account = await readJson<Account>(response);
+    if ((account.shopId || account.username) !== shopName) throw new Error(`${name} isn't a user of the shop ${shopName}`);
+
+    const shopId = await authService.importAccount(account, password);
+    try {
+      await storageService.saveSyncSettings(shopId, await registerDevice(shopId, settings));
+      changeLog.track(shopId, true);
+      await run(shopId);
+    } catch (err) {
+      authService.lock();
+      throw err;
+    }
+    return authService.login(name, password);
+  },
+};
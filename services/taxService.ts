@@ -0,0 +1,125 @@
+import { Invoice, InvoiceItem, Party, Product, TaxSettings } from '../types';
+import { moneyService } from './moneyService';
+
+export const DEFAULT_TAX_SETTINGS: TaxSettings = {
+  enabled: false,
+  pricesIncludeTax: false,
+  salesTaxRate: 18,
+  furtherTaxRate: 4,
+};
+
+export type TaxKind = 'sales' | 'further';
+
+export const TAX_KIND_LABELS: Record<TaxKind, string> = {
+  sales: 'Sales Tax',
+  further: 'Further Tax',
+};
+
+// Tax at one rate across an invoice
+export interface TaxRateLine {
+  kind: TaxKind;
+  rate: number;
+  taxable: number; // Value of the goods taxed at this rate, before tax
+  tax: number;
+}
+
+export interface TaxSummary {
+  taxable: number; // Value of all goods before tax
+  salesTax: number;
+  furtherTax: number;
+  total: number; // What the buyer pays
+  byRate: TaxRateLine[];
+}
+
+// Rates are held to four decimal places as integers, so paisa shares can be worked out exactly
+const RATE_SCALE = 10000n;
+
+const rateUnits = (percent?: number) => BigInt(Math.round((percent || 0) * Number(RATE_SCALE)));
+
+// paisa × numerator / denominator, rounded half up
+const share = (paisa: number, numerator: bigint, denominator: bigint): number => {
+  const product = BigInt(paisa) * numerator * 2n;
+  const sign = product < 0n ? -1n : 1n;
+  return Number(sign * ((sign * product + denominator) / (denominator * 2n)));
+};
+
+const hasTax = (item: InvoiceItem) => !!item.taxRate || !!item.furtherTaxRate;
+
+export const taxService = {
+  // The rates a new row gets. Further tax is only charged to a party without a registration number.
+  ratesFor: (settings: TaxSettings, product?: Product, party?: Party): Pick<InvoiceItem, 'taxRate' | 'furtherTaxRate'> => {
+    if (!settings.enabled) return {};
+    return {
+      taxRate: product?.taxRate ?? settings.salesTaxRate,
+      furtherTaxRate: party && !party.strn?.trim() ? settings.furtherTaxRate : 0,
+    };
+  },
+
+  // Fills in the row's tax from its rates. With inclusive pricing the tax is the part of
+  // totalAmount above the value of the goods; otherwise it goes on top of totalAmount.
+  calculateLine: (item: InvoiceItem, inclusive = false): InvoiceItem => {
+    if (!hasTax(item)) {
+      if (item.salesTax === undefined && item.furtherTax === undefined) return item;
+      return { ...item, salesTax: 0, furtherTax: 0 };
+    }
+    const total = moneyService.toPaisa(item.totalAmount);
+    const sales = rateUnits(item.taxRate);
+    const further = rateUnits(item.furtherTaxRate);
+    const base = 100n * RATE_SCALE;
+    const divisor = inclusive ? base + sales + further : base;
+    return {
+      ...item,
+      salesTax: moneyService.toRupees(share(total, sales, divisor)),
+      furtherTax: moneyService.toRupees(share(total, further, divisor)),
+    };
+  },
+
+  // Line value before tax
+  taxableValue: (item: InvoiceItem, inclusive = false): number => {
+    if (!inclusive) return item.totalAmount;
+    return moneyService.subtract(item.totalAmount, moneyService.sum([item.salesTax || 0, item.furtherTax || 0]));
+  },
+
+  hasTax: (items: InvoiceItem[]): boolean => items.some(hasTax),
+
+  // What the invoice charged for the goods, leaving out tax added on top of the prices
+  goodsTotal: (invoice: Pick<Invoice, 'items' | 'totalAmount' | 'taxInclusive'>): number => {
+    if (invoice.taxInclusive) return invoice.totalAmount;
+    const tax = moneyService.sum(invoice.items.flatMap(item => [item.salesTax || 0, item.furtherTax || 0]));
+    return moneyService.subtract(invoice.totalAmount, tax);
+  },
+
+  rateLabel: (line: TaxRateLine): string => `${TAX_KIND_LABELS[line.kind]} @ ${line.rate}%`,
+
+  // `goodsTotal` is the invoice total before tax is added, as pricingService works it out
+  summarize: (items: InvoiceItem[], inclusive: boolean, goodsTotal: number): TaxSummary => {
+    const taxed = items.map(item => taxService.calculateLine(item, inclusive));
+    const byRate = new Map<string, TaxRateLine>();
+    const add = (kind: TaxKind, rate: number | undefined, taxable: number, tax: number) => {
+      if (!rate) return;
+      const key = `${kind}:${rate}`;
+      const line = byRate.get(key) || { kind, rate, taxable: 0, tax: 0 };
+      byRate.set(key, { ...line, taxable: moneyService.sum([line.taxable, taxable]), tax: moneyService.sum([line.tax, tax]) });
+    };
+    taxed.forEach(item => {
+      const taxable = taxService.taxableValue(item, inclusive);
+      add('sales', item.taxRate, taxable, item.salesTax || 0);
+      add('further', item.furtherTaxRate, taxable, item.furtherTax || 0);
+    });
+
+    const salesTax = moneyService.sum(taxed.map(item => item.salesTax || 0));
+    const furtherTax = moneyService.sum(taxed.map(item => item.furtherTax || 0));
+    const tax = moneyService.sum([salesTax, furtherTax]);
+    return {
+      taxable: inclusive ? moneyService.subtract(goodsTotal, tax) : goodsTotal,
+      salesTax,
+      furtherTax,
+      total: inclusive ? goodsTotal : moneyService.sum([goodsTotal, tax]),
+      byRate: [...byRate.values()].sort((a, b) => b.kind.localeCompare(a.kind) || b.rate - a.rate),
+    };
+  },
+
+  // The summary of a saved invoice, from the tax stored on its rows
+  summarizeInvoice: (invoice: Invoice): TaxSummary =>
+    taxService.summarize(invoice.items, !!invoice.taxInclusive, taxService.goodsTotal(invoice)),
+};
@@ -1,37 +1,386 @@
+// Money fields hold rupees, always a whole number of paisa. Do arithmetic on them
+// through moneyService, never with raw + and -.
+
 export interface InvoiceItem {
   id: string;
+  productId?: string; // Catalog product the row was filled from, if any
   name: string;
+  company?: string; // Manufacturer, used to pick per-company pricing overrides
   qty: number; // Column 2
   rate: number; // Column 3
   tp: number; // Column 4 (Rate - 14.5%)
   discount: number; // Column 5 (-X% or +X%)
   totalPerPiece: number; // Column 6
   totalAmount: number; // Column 7
+  taxRate?: number; // Sales tax %; missing on rows from before tax was added
+  furtherTaxRate?: number; // Further tax %, charged to buyers not registered for sales tax
+  salesTax?: number; // Worked out by taxService from the rates and totalAmount
+  furtherTax?: number;
+  batch?: string; // Manufacturer's batch number, as printed on the pack
+  expiry?: string; // 'YYYY-MM'; the batch is good until the end of that month
+  bonusQty?: number; // Free pieces on top of qty: taken out of stock, not charged for
+  scheme?: Scheme; // Copied from the product, so later changes to its scheme don't reprice the row
+  effectiveRate?: number; // totalAmount spread over qty + bonusQty, when there is a bonus
 }
 
-export interface PaymentRow {
+export enum PaymentMethod {
+  CASH = 'Cash',
+  CHEQUE = 'Cheque',
+  BANK = 'Bank Transfer',
+  ONLINE = 'Online',
+}
+
+export enum ChequeStatus {
+  PENDING = 'Pending',
+  CLEARED = 'Cleared',
+  BOUNCED = 'Bounced',
+}
+
+export interface PaymentAllocation {
+  invoiceId: string;
+  amount: number;
+}
+
+// A collection from a party. One payment can settle several invoices; whatever isn't
+// allocated stays with the party as credit.
+export interface Payment {
   id: string;
-  narration: string;
+  partyId?: string;
+  date: string; // ISO Date string
+  method: PaymentMethod;
+  reference: string; // Cheque / transaction number
+  chequeStatus?: ChequeStatus; // Cheques only
   amount: number;
+  narration: string;
+  allocations: PaymentAllocation[];
+  createdAt: number;
+  updatedAt?: number; // Missing on payments not saved since the audit log was added
 }
 
+// A payment as it applies to one invoice, i.e. its allocation to that invoice
+export interface PaymentRow {
+  id: string; // Payment id
+  narration: string;
+  amount: number; // Amount allocated to this invoice
+  date: string;
+  method: PaymentMethod;
+  reference: string;
+  chequeStatus?: ChequeStatus;
+  paymentTotal: number; // Full payment amount, more than `amount` when split across invoices
+}
+
+// Derived from totals, payments and the due date by statusService; only set by hand
+// through an audited override.
 export enum InvoiceStatus {
-  PENDING = 'Pending',
+  DRAFT = 'Draft',
+  UNPAID = 'Unpaid',
+  PARTIAL = 'Partially Paid',
   PAID = 'Paid',
+  OVERDUE = 'Overdue',
+  CANCELLED = 'Cancelled',
+}
+
+export interface StatusOverride {
+  status: InvoiceStatus;
+  reason: string;
+}
+
+// What kind of document an invoice record is. Records without one are sales.
+export enum DocumentType {
+  SALE = 'sale',
+  PURCHASE = 'purchase',
+  SALES_RETURN = 'sales-return',
+  CREDIT_NOTE = 'credit-note',
+}
+
+// Sequential numbers for one document type, e.g. INV-2026-0042, or INV-2026-B-0042 from a
+// device that syncs (see SyncSettings.deviceCode)
+export interface NumberingSeries {
+  prefix: string;
+  padding: number; // Minimum digits, zero filled
+  yearlyReset: boolean; // Numbering restarts each year and the year goes in the number
+  counters: Record<string, number>; // Last number used, by year (or "all" without yearly reset), then ":" and the device code if any
+}
+
+// Audit entry for a manual status override being set or cleared
+export interface StatusChange {
+  at: number;
+  by: string; // Username
+  from: InvoiceStatus;
+  to: InvoiceStatus;
+  reason: string;
+}
+
+// The parts of an open invoice that undo/redo steps through
+export interface EditorSnapshot {
+  items: InvoiceItem[];
+  payments: PaymentRow[];
+  pricingProfileId?: string;
+  pricingProfileVersion?: number;
+  taxInclusive?: boolean;
 }
 
 export interface Invoice {
   id: string;
+  docType?: DocumentType; // Missing on legacy invoices, which are all sales
+  number?: string; // Sequential document number, assigned on first save
+  originalInvoiceId?: string; // The sale a return or credit note is against
   name: string;
+  partyId?: string; // Customer the invoice is billed to (missing on legacy invoices)
   date: string; // ISO Date string
+  dueDate?: string; // ISO Date string, the invoice is Overdue after it
   items: InvoiceItem[];
-  payments: PaymentRow[];
-  status: InvoiceStatus;
-  totalAmount: number; // Sum of all items
-  remainingBalance: number; // Total - Payments
+  status: InvoiceStatus; // Last derived status, use statusService.getStatus for the live value
+  statusOverride?: StatusOverride;
+  statusLog?: StatusChange[];
+  totalAmount: number; // Sum of all items, plus tax unless taxInclusive
+  remainingBalance: number; // Total - payment allocations, kept up to date by paymentService
+  createdAt: number; // Set on first save and never changed
+  updatedAt?: number; // Missing on invoices not saved since the audit log was added
+  pricingProfileId?: string; // Profile the rows were priced with (missing on legacy invoices)
+  pricingProfileVersion?: number; // Version of that profile, so edits to it don't reprice old bills
+  taxInclusive?: boolean; // Item totals already include tax, which is backed out of them
+}
+
+// Unsaved editor state, autosaved so it can be recovered after a crash or an accidental exit
+export interface InvoiceDraft extends EditorSnapshot {
+  invoiceId: string;
+  isNew: boolean; // The invoice hasn't been saved yet
+  docType?: DocumentType;
+  originalInvoiceId?: string;
+  name: string;
+  partyId?: string;
+  date: string;
+  dueDate?: string;
+  statusOverride?: StatusOverride;
+  statusLog: StatusChange[];
+  savedAt: number;
+  author?: string; // Member who was editing; missing on drafts from before shops
+}
+
+export enum RoundingMode {
+  HALF_UP = 'half-up',
+  HALF_EVEN = 'half-even',
+  UP = 'up',
+  DOWN = 'down',
+}
+
+// Whether amounts are rounded on every line, or only once on the invoice total
+export enum RoundingScope {
+  LINE = 'line',
+  INVOICE = 'invoice',
+}
+
+export interface PricingOverride {
+  company: string;
+  tpPercent: number;
+  discountBasePercent: number;
+}
+
+export interface PricingRules {
+  tpPercent: number; // TP = Rate - tpPercent%
+  discountBasePercent: number; // Discount base = TP - discountBasePercent%
+  rounding: RoundingMode;
+  roundingScope: RoundingScope;
+  overrides: PricingOverride[];
+}
+
+export interface PricingProfileVersion extends PricingRules {
+  version: number;
   createdAt: number;
 }
 
+export interface PricingProfile {
+  id: string;
+  name: string;
+  isDefault: boolean;
+  archived?: boolean; // Hidden from pickers but kept so old invoices can still be recalculated
+  versions: PricingProfileVersion[]; // Oldest first, last one is current
+}
+
+export type AppView = 'dashboard' | 'editor' | 'pricing' | 'catalog' | 'parties' | 'ledger' | 'payments' | 'account' | 'backup' | 'business' | 'reports' | 'users' | 'sync';
+
+// Trade schemes a product is sold on; see schemeService
+export enum SchemeType {
+  BONUS = 'bonus', // Buy X get Y free, e.g. 10+1
+  FLAT = 'flat', // Rupees off every piece
+  SLAB = 'slab', // Discount % by quantity bought
+}
+
+export interface SchemeSlab {
+  minQty: number;
+  discount: number; // % off, applied like a negative Disc % on the row
+}
+
+export type Scheme =
+  | { type: SchemeType.BONUS; buy: number; get: number }
+  | { type: SchemeType.FLAT; amountOff: number }
+  | { type: SchemeType.SLAB; slabs: SchemeSlab[] }; // Lowest quantity first
+
+export interface Product {
+  id: string;
+  name: string;
+  packSize: string; // e.g. "10x10", "120ml"
+  defaultRate: number;
+  company: string; // Manufacturer
+  pricingCategory: string;
+  barcode: string;
+  taxRate?: number; // Sales tax %, e.g. 0 for exempt medicines; missing means the shop's default
+  openingStock?: number; // Pieces in hand before the first invoice was entered
+  reorderLevel?: number; // Low on stock at or below this many pieces; missing means no alert
+  scheme?: Scheme;
+  createdAt: number;
+}
+
+export interface Party {
+  id: string;
+  name: string;
+  phone: string;
+  address: string;
+  openingBalance: number; // Owed before the first invoice in the app, negative for an advance
+  openingDate: string; // ISO Date string
+  creditDays?: number; // Credit terms, used for the default due date of new invoices
+  strn?: string; // Sales tax registration number. Buyers without one pay further tax.
+  createdAt: number;
+}
+
+export interface LedgerEntry {
+  id: string;
+  date: string; // ISO Date string
+  type: 'opening' | 'invoice' | 'payment';
+  description: string;
+  invoiceId?: string;
+  debit: number;
+  credit: number;
+  balance: number; // Running balance after this entry
+}
+
+// A stored record that failed validation on load. It is kept aside, untouched, so it can
+// be exported and repaired instead of crashing the screens that read it.
+export interface QuarantinedRecord {
+  id: string;
+  store: 'invoices';
+  record: unknown;
+  errors: string[];
+  quarantinedAt: number;
+}
+
+export enum PdfTemplate {
+  A4 = 'a4',
+  A5 = 'a5',
+  THERMAL_80 = 'thermal-80',
+}
+
+// The seller's details printed on invoices
+export interface BusinessProfile {
+  name: string;
+  address: string;
+  phone: string;
+  email: string;
+  licenseNo: string; // Drug sale license
+  ntn: string; // National Tax Number
+  strn: string; // Sales Tax Registration Number
+  logo?: string; // Image data URL
+  footerNote: string; // Terms, bank details etc. printed at the bottom of every page
+  signatureLabel: string;
+  defaultTemplate: PdfTemplate;
+  tax: TaxSettings;
+  batches: BatchSettings;
+}
+
+// Rates are percentages. New invoice rows take them from here, and each row can be changed.
+export interface TaxSettings {
+  enabled: boolean;
+  pricesIncludeTax: boolean; // Default for new invoices
+  salesTaxRate: number; // For products without a rate of their own
+  furtherTaxRate: number;
+}
+
+// Batch numbers and expiry dates on invoice rows, for medicines
+export interface BatchSettings {
+  enabled: boolean; // Shows the Batch and Expiry columns on new invoices
+  suggestFefo: boolean; // Fills sales rows with the in-stock batch that expires first
+  nearExpiryDays: number; // Rows expiring within this many days of the invoice date are flagged
+}
+
+// What a member of a shop may do; see permissionService for the details
+export enum Role {
+  OWNER = 'owner',
+  ACCOUNTANT = 'accountant',
+  SALESPERSON = 'salesperson',
+}
+
+// Someone who works on a shop's books. The list lives encrypted in the shop's data.
+export interface ShopMember {
+  username: string;
+  role: Role;
+  addedAt: number;
+  addedBy: string;
+}
+
 export interface User {
   username: string;
+  shopId: string; // Whose books are open; the owner's username, so older data stays where it is
+  role: Role;
+}
+
+export enum AuditAction {
+  CREATE = 'create',
+  UPDATE = 'update',
+  DELETE = 'delete',
+  STATUS = 'status', // Only the status or balance changed
+  RESTORE = 'restore', // Overwritten by the copy in a backup
+}
+
+export interface FieldChange {
+  field: string; // e.g. "date" or "items › Panadol › rate"
+  before?: unknown;
+  after?: unknown;
+}
+
+// One change to an invoice or payment. The log is only ever appended to.
+export interface AuditEntry {
+  id: string;
+  entity: 'invoice' | 'payment';
+  entityId: string;
+  invoiceIds: string[]; // Invoices the change touched, so a payment shows in their history too
+  action: AuditAction;
+  by: string; // Username
+  at: number;
+  changes: FieldChange[];
+  snapshot: Invoice | Payment; // The record after the change, or as it was before a delete
+}
+
+// Where this device syncs the shop's books to. Every device of a shop uses the same server.
+export interface SyncSettings {
+  serverUrl: string;
+  token?: string; // Sent as a bearer token when the server asks for one
+  deviceCode?: string; // Given by the server, one per device, and put in the document numbers this device gives
+}
+
+export interface SyncState {
+  lastSeq: number; // Last change pulled from the server
+  lastSyncAt?: number;
+  lastError?: string;
+  // The password verifier of each sign-in as the server last accepted it; the server wants
+  // it back before it takes a changed password
+  uploadedVerifiers?: Record<string, string>;
+}
+
+export type SyncStatus = 'off' | 'idle' | 'syncing' | 'offline' | 'error';
+
+// The same field changed here and on another device before either synced. The later change
+// is kept automatically; this is kept so someone can check it and switch to the other value.
+export interface SyncConflict {
+  id: string;
+  store: string;
+  recordId: string;
+  label: string; // e.g. the invoice or party name
+  field: string; // "deleted" when one side deleted the record
+  local: unknown;
+  remote: unknown;
+  kept: 'local' | 'remote';
+  localAt: number;
+  remoteAt: number;
+  remoteBy: string;
 }
@@ -0,0 +1,2 @@
+// Short random ID, good enough for locally stored records
+export const generateId = () => Math.random().toString(36).substring(2, 9);